@@ -0,0 +1,47 @@
+#!/usr/bin/env ts-node
+
+import dotenv from 'dotenv';
+import { PlayerModel } from '../src/models/player';
+import { closeStorage, initializeStorage } from '../src/repositories';
+
+/**
+ * Give an existing player the admin role, to set up the first admin.
+ *
+ * Registration never grants admin, since nobody has proved they own the email
+ * they sign up with. Run this against the server's storage once you know the
+ * account is the right one:
+ *
+ *   npx ts-node scripts/promote-admin.ts admin@example.com
+ */
+async function main(): Promise<void> {
+  dotenv.config();
+
+  const email = process.argv[2];
+  if (!email) {
+    console.error('Usage: ts-node scripts/promote-admin.ts <email>');
+    process.exit(1);
+  }
+
+  try {
+    await initializeStorage();
+
+    const playerModel = new PlayerModel();
+    const player = await playerModel.getPlayerByEmail(email);
+    if (!player) {
+      throw new Error(`No player is registered with ${email}`);
+    }
+
+    await playerModel.setRole(player.id, 'admin');
+    console.log(`✅ ${player.name} (${player.id}) is now an admin`);
+  } catch (error) {
+    console.error('💥 Failed to promote player:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await closeStorage();
+  }
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  main();
+}
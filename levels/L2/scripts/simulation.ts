@@ -6,7 +6,11 @@ import { v4 as uuidv4 } from 'uuid';
 // TODO: Add proper configuration management
 // TODO: Add logging framework
 // TODO: Add metrics collection
-// TODO: Add error handling and retry logic
+// TODO: Add error handling
+
+// Writes are retried with the same Idempotency-Key, so a retry never applies twice
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 200;
 
 interface SimulationConfig {
   baseUrl: string;
@@ -52,6 +56,7 @@ interface LeaderboardEntry {
 class GameSimulation {
   private config: SimulationConfig;
   private players: string[] = [];
+  private tokens: Map<string, string> = new Map(); // bearer token per player ID
   private results: SimulationResult;
 
   constructor(config: SimulationConfig) {
@@ -110,7 +115,9 @@ class GameSimulation {
     // TODO: Create players via API
     for (let i = 0; i < this.config.numPlayers; i++) {
       try {
-        const playerId = await this.createPlayer(`Player-${i + 1}`, `player${i + 1}@test.com`);
+        // Emails must be unique, so each run registers fresh players
+        const email = `player${i + 1}-${uuidv4().slice(0, 8)}@test.com`;
+        const playerId = await this.createPlayer(`Player-${i + 1}`, email);
         this.players.push(playerId);
         console.log(`✅ Created player: Player-${i + 1} (${playerId})`);
       } catch (error) {
@@ -284,28 +291,60 @@ class GameSimulation {
   // API Helper Methods
   private async createPlayer(name: string, email: string): Promise<string> {
     // TODO: Implement player creation API call
-    const response = await axios.post(`${this.config.baseUrl}/players`, {
-      name,
+    // With a password, since a retried registration doesn't send an API key again
+    const password = uuidv4();
+    const response = await this.post('/players', { name, email, password });
+    
+    const login = await axios.post(`${this.config.baseUrl}/auth/login`, {
       email,
+      password,
     }, { timeout: this.config.timeout });
     
-    return response.data.player.id;
+    const playerId = response.data.player.id;
+    this.tokens.set(playerId, login.data.token);
+    
+    return playerId;
+  }
+
+  private authHeaders(playerId: string): { Authorization: string } {
+    return { Authorization: `Bearer ${this.tokens.get(playerId)}` };
+  }
+
+  /**
+   * POST with one Idempotency-Key for all attempts, retrying when the request
+   * got no answer, a server error, or overlapped with its own earlier attempt
+   */
+  private async post(path: string, body: object, headers: Record<string, string> = {}): Promise<any> {
+    const idempotencyKey = uuidv4();
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await axios.post(`${this.config.baseUrl}${path}`, body, {
+          headers: { ...headers, 'Idempotency-Key': idempotencyKey },
+          timeout: this.config.timeout,
+        });
+      } catch (error) {
+        const response = axios.isAxiosError(error) ? error.response : undefined;
+        const retryable = axios.isAxiosError(error) &&
+          (!response || response.status >= 500 || response.data?.code === 'IDEMPOTENCY_KEY_IN_USE');
+        if (!retryable || attempt >= MAX_ATTEMPTS) {
+          throw error;
+        }
+        await this.delay(RETRY_DELAY_MS * attempt);
+      }
+    }
   }
 
   private async createGame(name: string): Promise<string> {
     // TODO: Implement game creation API call
-    const response = await axios.post(`${this.config.baseUrl}/games`, {
-      name,
-    }, { timeout: this.config.timeout });
+    const response = await this.post('/games', { name });
     
     return response.data.game.id;
   }
 
   private async joinGame(gameId: string, playerId: string): Promise<void> {
     // TODO: Implement game join API call
-    await axios.post(`${this.config.baseUrl}/games/${gameId}/join`, {
-      playerId,
-    }, { timeout: this.config.timeout });
+    await this.post(`/games/${gameId}/join`, {}, this.authHeaders(playerId));
   }
 
   private async getGameState(gameId: string): Promise<any> {
@@ -322,11 +361,7 @@ class GameSimulation {
     const row = Math.floor(Math.random() * 3);
     const col = Math.floor(Math.random() * 3);
     
-    const response = await axios.post(`${this.config.baseUrl}/games/${gameId}/moves`, {
-      playerId,
-      row,
-      col,
-    }, { timeout: this.config.timeout });
+    const response = await this.post(`/games/${gameId}/moves`, { row, col }, this.authHeaders(playerId));
     
     return response.data.move;
   }
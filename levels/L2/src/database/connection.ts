@@ -0,0 +1,135 @@
+import sqlite3 from 'sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { MIGRATIONS } from './schema';
+
+export type SqlValue = string | number | null;
+
+/**
+ * Promise-based wrapper around a single sqlite3 connection.
+ *
+ * The connection is opened and migrated as soon as the instance is created;
+ * every query waits for that to finish, so callers never see a half-built schema.
+ */
+export class Database {
+  private connection: sqlite3.Database;
+  private ready: Promise<void>;
+  private transactionLock: Promise<void> = Promise.resolve();
+
+  constructor(public readonly filename: string) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+    }
+
+    this.connection = new sqlite3.Database(filename);
+    this.ready = this.migrate();
+  }
+
+  /**
+   * Wait until the connection is open and all migrations have been applied
+   */
+  async initialize(): Promise<void> {
+    await this.ready;
+  }
+
+  /**
+   * Execute a statement that does not return rows
+   */
+  async run(sql: string, params: SqlValue[] = []): Promise<{ changes: number }> {
+    await this.ready;
+    return this.rawRun(sql, params);
+  }
+
+  /**
+   * Fetch the first row of a query
+   */
+  async get<T>(sql: string, params: SqlValue[] = []): Promise<T | undefined> {
+    await this.ready;
+    return new Promise((resolve, reject) => {
+      this.connection.get(sql, params, (error, row) => (error ? reject(error) : resolve(row as T | undefined)));
+    });
+  }
+
+  /**
+   * Fetch all rows of a query
+   */
+  async all<T>(sql: string, params: SqlValue[] = []): Promise<T[]> {
+    await this.ready;
+    return new Promise((resolve, reject) => {
+      this.connection.all(sql, params, (error, rows) => (error ? reject(error) : resolve(rows as T[])));
+    });
+  }
+
+  /**
+   * Run work inside a transaction.
+   *
+   * Transactions are queued one at a time because they share a single connection.
+   */
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    await this.ready;
+
+    const previous = this.transactionLock;
+    let release: () => void = () => undefined;
+    this.transactionLock = new Promise(resolve => {
+      release = resolve;
+    });
+    await previous;
+
+    try {
+      await this.rawRun('BEGIN IMMEDIATE');
+      const result = await work();
+      await this.rawRun('COMMIT');
+      return result;
+    } catch (error) {
+      await this.rawRun('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Close the underlying connection
+   */
+  async close(): Promise<void> {
+    await this.ready.catch(() => undefined);
+    return new Promise((resolve, reject) => {
+      this.connection.close(error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  /**
+   * Apply any migrations newer than the stored schema version
+   */
+  private async migrate(): Promise<void> {
+    await this.rawExec('PRAGMA foreign_keys = ON');
+
+    const row = await new Promise<{ user_version: number }>((resolve, reject) => {
+      this.connection.get('PRAGMA user_version', (error, result) =>
+        error ? reject(error) : resolve(result as { user_version: number })
+      );
+    });
+
+    for (let version = row.user_version; version < MIGRATIONS.length; version++) {
+      await this.rawExec(`BEGIN; ${MIGRATIONS[version]}; PRAGMA user_version = ${version + 1}; COMMIT;`);
+    }
+  }
+
+  private rawRun(sql: string, params: SqlValue[] = []): Promise<{ changes: number }> {
+    return new Promise((resolve, reject) => {
+      this.connection.run(sql, params, function (this: sqlite3.RunResult, error: Error | null) {
+        if (error) {
+          reject(error);
+        } else {
+          resolve({ changes: this.changes });
+        }
+      });
+    });
+  }
+
+  private rawExec(sql: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.connection.exec(sql, error => (error ? reject(error) : resolve()));
+    });
+  }
+}
@@ -0,0 +1,255 @@
+/**
+ * Schema migrations, applied in order on startup.
+ *
+ * The index of the last applied migration is tracked with `PRAGMA user_version`,
+ * so new migrations must only ever be appended to this list.
+ */
+export const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE IF NOT EXISTS players (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    email TEXT NOT NULL UNIQUE,
+    games_played INTEGER NOT NULL DEFAULT 0,
+    games_won INTEGER NOT NULL DEFAULT 0,
+    games_lost INTEGER NOT NULL DEFAULT 0,
+    games_drawn INTEGER NOT NULL DEFAULT 0,
+    total_moves INTEGER NOT NULL DEFAULT 0,
+    average_moves_per_win REAL NOT NULL DEFAULT 0,
+    win_rate REAL NOT NULL DEFAULT 0,
+    efficiency REAL NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_players_games_won ON players (games_won DESC);
+
+  CREATE TABLE IF NOT EXISTS games (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    status TEXT NOT NULL,
+    board TEXT NOT NULL,
+    current_player_id TEXT,
+    winner_id TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_games_status_created_at ON games (status, created_at DESC);
+
+  CREATE TABLE IF NOT EXISTS game_players (
+    game_id TEXT NOT NULL REFERENCES games (id) ON DELETE CASCADE,
+    player_id TEXT NOT NULL REFERENCES players (id) ON DELETE CASCADE,
+    seat INTEGER NOT NULL,
+    PRIMARY KEY (game_id, player_id),
+    UNIQUE (game_id, seat)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_game_players_player_id ON game_players (player_id);
+
+  CREATE TABLE IF NOT EXISTS moves (
+    id TEXT PRIMARY KEY,
+    game_id TEXT NOT NULL REFERENCES games (id) ON DELETE CASCADE,
+    player_id TEXT NOT NULL,
+    move_number INTEGER NOT NULL,
+    row_index INTEGER NOT NULL,
+    col_index INTEGER NOT NULL,
+    timestamp TEXT NOT NULL,
+    UNIQUE (game_id, move_number)
+  );
+  `,
+  `
+  ALTER TABLE games ADD COLUMN rows INTEGER NOT NULL DEFAULT 3;
+  ALTER TABLE games ADD COLUMN cols INTEGER NOT NULL DEFAULT 3;
+  ALTER TABLE games ADD COLUMN win_length INTEGER NOT NULL DEFAULT 3;
+  `,
+  `
+  ALTER TABLE players ADD COLUMN type TEXT NOT NULL DEFAULT 'human';
+  ALTER TABLE players ADD COLUMN bot_difficulty TEXT;
+  `,
+  `
+  CREATE TABLE IF NOT EXISTS takebacks (
+    id TEXT PRIMARY KEY,
+    game_id TEXT NOT NULL REFERENCES games (id) ON DELETE CASCADE,
+    request_number INTEGER NOT NULL,
+    move_id TEXT NOT NULL,
+    requested_by TEXT NOT NULL,
+    requested_at TEXT NOT NULL,
+    status TEXT NOT NULL,
+    responded_by TEXT,
+    responded_at TEXT,
+    UNIQUE (game_id, request_number)
+  );
+  `,
+  `
+  ALTER TABLE games ADD COLUMN time_control TEXT;
+  ALTER TABLE games ADD COLUMN clocks TEXT NOT NULL DEFAULT '{}';
+  ALTER TABLE games ADD COLUMN turn_started_at TEXT;
+  ALTER TABLE games ADD COLUMN end_reason TEXT;
+  `,
+  `
+  CREATE TABLE IF NOT EXISTS draw_offers (
+    id TEXT PRIMARY KEY,
+    game_id TEXT NOT NULL REFERENCES games (id) ON DELETE CASCADE,
+    offer_number INTEGER NOT NULL,
+    offered_by TEXT NOT NULL,
+    offered_at TEXT NOT NULL,
+    status TEXT NOT NULL,
+    responded_by TEXT,
+    responded_at TEXT,
+    UNIQUE (game_id, offer_number)
+  );
+  `,
+  `
+  ALTER TABLE players ADD COLUMN rating REAL NOT NULL DEFAULT 1500;
+  ALTER TABLE players ADD COLUMN rating_deviation REAL NOT NULL DEFAULT 350;
+  ALTER TABLE players ADD COLUMN rating_volatility REAL NOT NULL DEFAULT 0.06;
+
+  CREATE INDEX IF NOT EXISTS idx_players_rating ON players (rating);
+
+  CREATE TABLE IF NOT EXISTS rating_history (
+    id TEXT PRIMARY KEY,
+    player_id TEXT NOT NULL REFERENCES players (id) ON DELETE CASCADE,
+    game_id TEXT NOT NULL,
+    opponent_id TEXT NOT NULL,
+    result TEXT NOT NULL,
+    rating REAL NOT NULL,
+    deviation REAL NOT NULL,
+    volatility REAL NOT NULL,
+    rating_change REAL NOT NULL,
+    recorded_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_rating_history_player_id ON rating_history (player_id, recorded_at);
+  `,
+  `
+  ALTER TABLE games ADD COLUMN archived_at TEXT;
+
+  CREATE INDEX IF NOT EXISTS idx_games_archived_at ON games (archived_at);
+  `,
+  `
+  CREATE TABLE IF NOT EXISTS game_spectators (
+    game_id TEXT NOT NULL REFERENCES games (id) ON DELETE CASCADE,
+    player_id TEXT NOT NULL REFERENCES players (id) ON DELETE CASCADE,
+    joined_at TEXT NOT NULL,
+    PRIMARY KEY (game_id, player_id)
+  );
+  `,
+  `
+  CREATE TABLE IF NOT EXISTS player_credentials (
+    player_id TEXT PRIMARY KEY REFERENCES players (id) ON DELETE CASCADE,
+    password_hash TEXT,
+    api_key_hash TEXT,
+    updated_at TEXT NOT NULL
+  );
+  `,
+  `
+  ALTER TABLE players ADD COLUMN role TEXT NOT NULL DEFAULT 'player';
+  ALTER TABLE players ADD COLUMN banned_at TEXT;
+  ALTER TABLE players ADD COLUMN ban_reason TEXT;
+  ALTER TABLE players ADD COLUMN flagged_at TEXT;
+  ALTER TABLE players ADD COLUMN flag_reason TEXT;
+
+  CREATE TABLE IF NOT EXISTS audit_log (
+    id TEXT PRIMARY KEY,
+    admin_id TEXT NOT NULL,
+    action TEXT NOT NULL,
+    target_type TEXT NOT NULL,
+    target_id TEXT NOT NULL,
+    reason TEXT,
+    details TEXT NOT NULL DEFAULT '{}',
+    created_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log (created_at DESC);
+  `,
+  `
+  ALTER TABLE games ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+  `,
+  `
+  CREATE TABLE IF NOT EXISTS game_events (
+    id TEXT PRIMARY KEY,
+    game_id TEXT NOT NULL,
+    sequence INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    actor_id TEXT,
+    data TEXT NOT NULL,
+    occurred_at TEXT NOT NULL,
+    UNIQUE (game_id, sequence)
+  );
+
+  CREATE TABLE IF NOT EXISTS game_snapshots (
+    game_id TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    state TEXT NOT NULL,
+    PRIMARY KEY (game_id, version)
+  );
+  `,
+  `
+  ALTER TABLE games ADD COLUMN win_result TEXT;
+  `,
+  `
+  ALTER TABLE games ADD COLUMN variant TEXT NOT NULL DEFAULT 'standard';
+  ALTER TABLE moves ADD COLUMN symbol TEXT;
+  `,
+  `
+  ALTER TABLE games ADD COLUMN ultimate TEXT;
+  `,
+  `
+  ALTER TABLE games ADD COLUMN max_players INTEGER NOT NULL DEFAULT 2;
+  ALTER TABLE games ADD COLUMN symbols TEXT NOT NULL DEFAULT '{}';
+  ALTER TABLE games ADD COLUMN placements TEXT NOT NULL DEFAULT '{}';
+  ALTER TABLE players ADD COLUMN placements TEXT NOT NULL DEFAULT '[]';
+  `,
+  `
+  CREATE TABLE IF NOT EXISTS series (
+    id TEXT PRIMARY KEY,
+    player_ids TEXT NOT NULL,
+    best_of INTEGER NOT NULL,
+    wins_needed INTEGER NOT NULL,
+    board_options TEXT NOT NULL,
+    game_ids TEXT NOT NULL,
+    scores TEXT NOT NULL,
+    draws INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    winner_id TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  ALTER TABLE games ADD COLUMN series_id TEXT;
+  ALTER TABLE players ADD COLUMN series_played INTEGER NOT NULL DEFAULT 0;
+  ALTER TABLE players ADD COLUMN series_won INTEGER NOT NULL DEFAULT 0;
+  ALTER TABLE players ADD COLUMN series_lost INTEGER NOT NULL DEFAULT 0;
+  `,
+  `
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_players_bot_difficulty ON players (bot_difficulty) WHERE type = 'bot';
+  `,
+  `
+  CREATE TABLE game_players_kept (
+    game_id TEXT NOT NULL REFERENCES games (id) ON DELETE CASCADE,
+    player_id TEXT NOT NULL,
+    seat INTEGER NOT NULL,
+    player TEXT,
+    PRIMARY KEY (game_id, player_id),
+    UNIQUE (game_id, seat)
+  );
+
+  INSERT INTO game_players_kept (game_id, player_id, seat) SELECT game_id, player_id, seat FROM game_players;
+  DROP TABLE game_players;
+  ALTER TABLE game_players_kept RENAME TO game_players;
+
+  CREATE INDEX IF NOT EXISTS idx_game_players_player_id ON game_players (player_id);
+
+  CREATE TABLE game_spectators_kept (
+    game_id TEXT NOT NULL REFERENCES games (id) ON DELETE CASCADE,
+    player_id TEXT NOT NULL,
+    joined_at TEXT NOT NULL,
+    PRIMARY KEY (game_id, player_id)
+  );
+
+  INSERT INTO game_spectators_kept SELECT game_id, player_id, joined_at FROM game_spectators;
+  DROP TABLE game_spectators;
+  ALTER TABLE game_spectators_kept RENAME TO game_spectators;
+  `,
+];
@@ -0,0 +1,206 @@
+import { Game, ValidationError as FieldError } from './types';
+
+/**
+ * Domain errors. Each carries the HTTP status it maps to and a stable,
+ * machine-readable `code` that clients can branch on instead of the message.
+ */
+export class AppError extends Error {
+  public statusCode: number;
+  public code: string;
+  public isOperational: boolean;
+
+  constructor(message: string, statusCode: number, code: string = 'APP_ERROR', isOperational: boolean = true) {
+    super(message);
+    this.name = new.target.name;
+    this.statusCode = statusCode;
+    this.code = code;
+    this.isOperational = isOperational;
+
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+// Base classes, one per status code
+
+export class BadRequestError extends AppError {
+  constructor(message: string, code: string = 'BAD_REQUEST') {
+    super(message, 400, code);
+  }
+}
+
+export class ValidationError extends BadRequestError {
+  constructor(message: string, code: string = 'VALIDATION_ERROR') {
+    super(message, code);
+  }
+}
+
+/**
+ * A request that failed schema validation, with one entry per offending field
+ */
+export class RequestValidationError extends ValidationError {
+  public errors: FieldError[];
+
+  constructor(errors: FieldError[]) {
+    super(errors.length === 1 ? errors[0].message : 'Request validation failed');
+    this.errors = errors;
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message: string, code: string = 'UNAUTHORIZED') {
+    super(message, 401, code);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string, code: string = 'FORBIDDEN') {
+    super(message, 403, code);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string, code: string = 'NOT_FOUND') {
+    super(message, 404, code);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string, code: string = 'CONFLICT') {
+    super(message, 409, code);
+  }
+}
+
+// Games
+
+export class GameNotFoundError extends NotFoundError {
+  constructor() {
+    super('Game not found', 'GAME_NOT_FOUND');
+  }
+}
+
+export class GameNotJoinableError extends BadRequestError {
+  constructor() {
+    super('Game is not accepting new players', 'GAME_NOT_JOINABLE');
+  }
+}
+
+export class GameFullError extends BadRequestError {
+  constructor() {
+    super('Game is full', 'GAME_FULL');
+  }
+}
+
+export class GameNotActiveError extends BadRequestError {
+  constructor() {
+    super('Game is not active', 'GAME_NOT_ACTIVE');
+  }
+}
+
+export class AlreadyInGameError extends BadRequestError {
+  constructor() {
+    super('Player is already in this game', 'ALREADY_IN_GAME');
+  }
+}
+
+export class PlayerNotInGameError extends NotFoundError {
+  constructor() {
+    super('Player not found in game', 'PLAYER_NOT_IN_GAME');
+  }
+}
+
+export class NotYourTurnError extends BadRequestError {
+  constructor() {
+    super('Not your turn', 'NOT_YOUR_TURN');
+  }
+}
+
+export class CellOccupiedError extends BadRequestError {
+  constructor() {
+    super('Cell is already occupied', 'CELL_OCCUPIED');
+  }
+}
+
+export class MoveTimeExpiredError extends BadRequestError {
+  constructor() {
+    super('Time has run out for this move', 'MOVE_TIME_EXPIRED');
+  }
+}
+
+export class SpectatorMoveError extends ForbiddenError {
+  constructor() {
+    super('Spectators cannot make moves', 'SPECTATOR_CANNOT_MOVE');
+  }
+}
+
+/**
+ * The game changed since the caller read it; carries the current state so the
+ * client can retry against it
+ */
+export class GameVersionConflictError extends ConflictError {
+  public game: Game;
+
+  constructor(game: Game) {
+    super(`Game has changed since it was read (now at version ${game.version})`, 'VERSION_CONFLICT');
+    this.game = game;
+  }
+}
+
+// Players
+
+export class PlayerNotFoundError extends NotFoundError {
+  constructor(message: string = 'Player not found') {
+    super(message, 'PLAYER_NOT_FOUND');
+  }
+}
+
+export class PlayerBusyError extends BadRequestError {
+  constructor() {
+    super('Player is already in an active game', 'PLAYER_BUSY');
+  }
+}
+
+export class PlayerBannedError extends ForbiddenError {
+  constructor() {
+    super('Player is banned from joining games', 'PLAYER_BANNED');
+  }
+}
+
+export class PlayerInUnfinishedGameError extends ConflictError {
+  constructor() {
+    super('Player is still in a game that has not finished', 'PLAYER_IN_UNFINISHED_GAME');
+  }
+}
+
+export class EmailInUseError extends ConflictError {
+  constructor() {
+    super('Email is already in use by another player', 'EMAIL_IN_USE');
+  }
+}
+
+export class ReservedEmailError extends ValidationError {
+  constructor() {
+    super('Email addresses at this domain are reserved', 'RESERVED_EMAIL');
+  }
+}
+
+// Series
+
+export class SeriesNotFoundError extends NotFoundError {
+  constructor() {
+    super('Series not found', 'SERIES_NOT_FOUND');
+  }
+}
+
+// Idempotency keys
+
+export class IdempotencyKeyInUseError extends ConflictError {
+  constructor() {
+    super('A request with this Idempotency-Key is still being processed', 'IDEMPOTENCY_KEY_IN_USE');
+  }
+}
+
+export class IdempotencyKeyReusedError extends AppError {
+  constructor() {
+    super('This Idempotency-Key was already used for a different request', 422, 'IDEMPOTENCY_KEY_REUSED');
+  }
+}
@@ -5,8 +5,15 @@ import dotenv from 'dotenv';
 import { gameRoutes } from './routes/games';
 import { playerRoutes } from './routes/players';
 import { leaderboardRoutes } from './routes/leaderboard';
-import { errorHandler } from './middleware/errorHandler';
+import { matchmakingRoutes } from './routes/matchmaking';
+import { seriesRoutes } from './routes/series';
+import { authRoutes } from './routes/auth';
+import { adminRoutes } from './routes/admin';
+import { createNotFoundError, errorHandler } from './middleware/errorHandler';
 import { validationMiddleware } from './middleware/validation';
+import { initializeStorage, closeStorage, getStorageDriver } from './repositories';
+import { GameService } from './services/gameService';
+import { gameClockScheduler } from './services/gameClock';
 
 // Load environment variables
 dotenv.config();
@@ -18,7 +25,8 @@ const PORT = process.env.PORT || 3000;
 
 // Middleware
 app.use(helmet());
-app.use(cors());
+// Let browser clients read the game version and spot replayed responses
+app.use(cors({ exposedHeaders: ['ETag', 'Idempotent-Replayed'] }));
 app.use(express.json());
 
 // TODO: Add compression middleware (compression)
@@ -36,41 +44,54 @@ app.get('/health', (req, res) => {
 });
 
 // API Routes
+app.use('/auth', authRoutes);
 app.use('/games', gameRoutes);
 app.use('/players', playerRoutes);
 app.use('/leaderboard', leaderboardRoutes);
+app.use('/matchmaking', matchmakingRoutes);
+app.use('/series', seriesRoutes);
+app.use('/admin', adminRoutes);
 
 // API documentation endpoint (Swagger/OpenAPI)
 
 // Metrics endpoint
 
+// 404 handler
+app.use('*', (req, res, next) => {
+  next(createNotFoundError('Endpoint not found', 'ENDPOINT_NOT_FOUND'));
+});
+
 // Error handling middleware (must be last)
 app.use(errorHandler);
 
-// 404 handler
-app.use('*', (req, res) => {
-  res.status(404).json({ error: 'Endpoint not found' });
-});
+// Start server once storage (and the SQLite schema) is ready
+let server: ReturnType<typeof app.listen> | undefined;
 
-// Start server
-const server = app.listen(PORT, () => {
-  console.log(`🚀 Server running on port ${PORT}`);
-  console.log(`📊 Health check: http://localhost:${PORT}/health`);
-});
+initializeStorage()
+  // Timed games left running by the previous process still need their forfeits
+  .then(() => new GameService().resumeClocks())
+  .then(() => {
+    server = app.listen(PORT, () => {
+      console.log(`🚀 Server running on port ${PORT}`);
+      console.log(`💾 Storage driver: ${getStorageDriver()}`);
+      console.log(`📊 Health check: http://localhost:${PORT}/health`);
+    });
+  })
+  .catch(error => {
+    console.error('💥 Failed to initialize storage:', error);
+    process.exit(1);
+  });
 
-// TODO: Implement graceful shutdown logic
-process.on('SIGTERM', () => {
-  console.log('SIGTERM received, shutting down gracefully');
-  // TODO: Close database connections
-  // TODO: Wait for ongoing requests to complete
+// Stop accepting connections, let in-flight requests finish, then close storage
+const shutdown = async (signal: string) => {
+  console.log(`${signal} received, shutting down gracefully`);
+  gameClockScheduler.cancelAll();
+  await new Promise<void>(resolve => (server ? server.close(() => resolve()) : resolve()));
+  await closeStorage().catch(error => console.error('❌ Failed to close storage:', error));
   process.exit(0);
-});
+};
 
-process.on('SIGINT', () => {
-  console.log('SIGINT received, shutting down gracefully');
-  // TODO: Close database connections
-  // TODO: Wait for ongoing requests to complete
-  process.exit(0);
-});
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
 
 export default app;
@@ -0,0 +1,83 @@
+import { Request, Response, NextFunction } from 'express';
+import { Player, PlayerRole } from '../types';
+import { AuthService } from '../services/authService';
+import { createForbiddenError, createUnauthorizedError } from './errorHandler';
+
+declare global {
+  namespace Express {
+    interface Request {
+      player?: Player; // set by requireAuth
+    }
+  }
+}
+
+const authService = new AuthService();
+
+/**
+ * Require a valid `Authorization: Bearer <token>` header and attach the player to the request
+ */
+export const requireAuth = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const [scheme, token] = (req.get('Authorization') || '').split(' ');
+
+  if (scheme !== 'Bearer' || !token) {
+    return next(createUnauthorizedError('Authentication required', 'AUTHENTICATION_REQUIRED'));
+  }
+
+  try {
+    req.player = await authService.authenticate(token);
+    next();
+  } catch (error) {
+    next(createUnauthorizedError('Invalid or expired token', 'INVALID_TOKEN'));
+  }
+};
+
+/**
+ * Attach the player when a bearer token is sent, for public routes that show
+ * the player more of their own account; without one the request goes on anonymously
+ */
+export const optionalAuth = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  if (!req.get('Authorization')) {
+    return next();
+  }
+
+  return requireAuth(req, res, next);
+};
+
+/**
+ * Only let the authenticated player act on their own behalf; use after requireAuth.
+ *
+ * `getPlayerId` returns the player the request claims to act for, or undefined
+ * when it doesn't name one.
+ */
+export const requireSelf = (getPlayerId: (req: Request) => unknown) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const claimedPlayerId = getPlayerId(req);
+
+    if (!req.player) {
+      return next(createUnauthorizedError('Authentication required', 'AUTHENTICATION_REQUIRED'));
+    }
+
+    if (claimedPlayerId !== undefined && claimedPlayerId !== req.player.id) {
+      return next(createForbiddenError('You can only act on behalf of the authenticated player', 'NOT_AUTHENTICATED_PLAYER'));
+    }
+
+    next();
+  };
+};
+
+/**
+ * Only let players with the given role through; use after requireAuth
+ */
+export const requireRole = (role: PlayerRole) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.player) {
+      return next(createUnauthorizedError('Authentication required', 'AUTHENTICATION_REQUIRED'));
+    }
+
+    if (req.player.role !== role) {
+      return next(createForbiddenError(`This action requires the ${role} role`, 'ROLE_REQUIRED'));
+    }
+
+    next();
+  };
+};
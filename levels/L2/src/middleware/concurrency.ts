@@ -0,0 +1,43 @@
+import { Request, Response, NextFunction } from 'express';
+import { Game } from '../types';
+import { ValidationError } from '../errors';
+
+declare global {
+  namespace Express {
+    interface Request {
+      expectedVersion?: number; // set by readIfMatch
+    }
+  }
+}
+
+/**
+ * A game's ETag is its version, e.g. `"3"`
+ */
+export const gameEtag = (game: Game): string => `"${game.version}"`;
+
+/**
+ * Send the game's ETag so the client can echo it back in If-Match
+ */
+export const setGameEtag = (res: Response, game: Game): void => {
+  res.set('ETag', gameEtag(game));
+};
+
+/**
+ * Read an optional `If-Match: "<version>"` header; the action then only applies
+ * to that version of the game, and fails with 409 if it has changed since.
+ * `If-Match: *` (or no header) acts on whatever the current version is.
+ */
+export const readIfMatch = (req: Request, res: Response, next: NextFunction): void => {
+  const header = req.get('If-Match')?.trim();
+  if (!header || header === '*') {
+    return next();
+  }
+
+  const match = /^"(\d+)"$/.exec(header);
+  if (!match) {
+    return next(new ValidationError('If-Match must be a game ETag, e.g. "3"', 'INVALID_IF_MATCH'));
+  }
+
+  req.expectedVersion = Number(match[1]);
+  next();
+};
@@ -1,21 +1,18 @@
 import { Request, Response, NextFunction } from 'express';
 import { ApiError } from '../types';
-
-/**
- * Custom error class for API errors
- */
-export class AppError extends Error {
-  public statusCode: number;
-  public isOperational: boolean;
-
-  constructor(message: string, statusCode: number, isOperational: boolean = true) {
-    super(message);
-    this.statusCode = statusCode;
-    this.isOperational = isOperational;
-
-    Error.captureStackTrace(this, this.constructor);
-  }
-}
+import {
+  AppError,
+  ConflictError,
+  ForbiddenError,
+  GameVersionConflictError,
+  NotFoundError,
+  RequestValidationError,
+  UnauthorizedError,
+  ValidationError,
+} from '../errors';
+import { gameEtag } from './concurrency';
+
+export { AppError };
 
 /**
  * Error categories for better error handling
@@ -43,87 +40,51 @@ export const errorHandler = (
 ): void => {
   let statusCode = 500;
   let message = 'Internal server error';
+  let code = 'INTERNAL_ERROR';
   let isOperational = false;
   let category = ErrorCategory.INTERNAL;
 
-  // Handle custom AppError
   if (error instanceof AppError) {
+    // Domain errors say exactly how they should be reported
     statusCode = error.statusCode;
     message = error.message;
+    code = error.code;
     isOperational = error.isOperational;
-    
-    // Categorize AppError based on status code
-    if (statusCode >= 400 && statusCode < 500) {
-      category = ErrorCategory.VALIDATION;
-    }
-  }
-
-  // Handle specific error types
-  if (error.name === 'ValidationError') {
+    category = getErrorCategory(statusCode);
+  } else if (error.name === 'ValidationError') {
     statusCode = 400;
     message = 'Validation error';
+    code = 'VALIDATION_ERROR';
     isOperational = true;
     category = ErrorCategory.VALIDATION;
-  }
-
-  if (error.name === 'CastError') {
+  } else if (error.name === 'CastError') {
     statusCode = 400;
     message = 'Invalid ID format';
+    code = 'INVALID_ID';
     isOperational = true;
     category = ErrorCategory.VALIDATION;
-  }
-
-  if (error.name === 'MongoError' || error.name === 'MongooseError') {
+  } else if (error.name === 'MongoError' || error.name === 'MongooseError') {
     statusCode = 500;
     message = 'Database error';
+    code = 'DATABASE_ERROR';
     isOperational = false;
     category = ErrorCategory.DATABASE;
-  }
-
-  // Handle authentication errors
-  if (error.name === 'JsonWebTokenError' || error.name === 'TokenExpiredError') {
+  } else if (error.name === 'JsonWebTokenError' || error.name === 'TokenExpiredError') {
+    // Handle authentication errors
     statusCode = 401;
     message = 'Authentication failed';
+    code = 'AUTHENTICATION_FAILED';
     isOperational = true;
     category = ErrorCategory.AUTHENTICATION;
-  }
-
-  // Handle authorization errors
-  if (error.name === 'UnauthorizedError') {
+  } else if (error.name === 'UnauthorizedError') {
+    // Handle authorization errors
     statusCode = 403;
     message = 'Access denied';
+    code = 'ACCESS_DENIED';
     isOperational = true;
     category = ErrorCategory.AUTHORIZATION;
   }
 
-  // Handle rate limiting errors
-  if (error.message && error.message.includes('Too many requests')) {
-    statusCode = 429;
-    message = 'Too many requests';
-    isOperational = true;
-    category = ErrorCategory.RATE_LIMIT;
-  }
-
-  // Handle not found errors
-  if (error.message && error.message.includes('not found')) {
-    statusCode = 404;
-    message = error.message;
-    isOperational = true;
-    category = ErrorCategory.NOT_FOUND;
-  }
-
-  // Handle conflict errors
-  if (error.message && (
-    error.message.includes('already exists') ||
-    error.message.includes('already in') ||
-    error.message.includes('full')
-  )) {
-    statusCode = 409;
-    message = error.message;
-    isOperational = true;
-    category = ErrorCategory.CONFLICT;
-  }
-
   // Log error details
   const errorLog = {
     message: error.message,
@@ -151,6 +112,7 @@ export const errorHandler = (
   // Send error response
   const errorResponse: ApiError = {
     error: getErrorType(statusCode),
+    code,
     message,
     statusCode,
     timestamp: new Date().toISOString(),
@@ -158,6 +120,16 @@ export const errorHandler = (
     path: req.path
   };
 
+  if (error instanceof RequestValidationError) {
+    errorResponse.errors = error.errors;
+  }
+
+  // Hand back the current state so the client can retry against it
+  if (error instanceof GameVersionConflictError) {
+    errorResponse.game = error.game;
+    res.set('ETag', gameEtag(error.game));
+  }
+
   // Add additional context in development mode
   if (process.env.NODE_ENV === 'development') {
     errorResponse.stack = error.stack;
@@ -167,6 +139,19 @@ export const errorHandler = (
   res.status(statusCode).json(errorResponse);
 };
 
+/**
+ * Get error category based on status code
+ */
+function getErrorCategory(statusCode: number): ErrorCategory {
+  if (statusCode >= 500) return ErrorCategory.INTERNAL;
+  if (statusCode === 404) return ErrorCategory.NOT_FOUND;
+  if (statusCode === 403) return ErrorCategory.AUTHORIZATION;
+  if (statusCode === 401) return ErrorCategory.AUTHENTICATION;
+  if (statusCode === 409) return ErrorCategory.CONFLICT;
+  if (statusCode === 429) return ErrorCategory.RATE_LIMIT;
+  return ErrorCategory.VALIDATION;
+}
+
 /**
  * Get error type based on status code
  */
@@ -177,6 +162,7 @@ function getErrorType(statusCode: number): string {
   if (statusCode === 401) return 'Unauthorized';
   if (statusCode === 400) return 'Bad Request';
   if (statusCode === 409) return 'Conflict';
+  if (statusCode === 422) return 'Unprocessable Entity';
   if (statusCode === 429) return 'Too Many Requests';
   return 'Error';
 }
@@ -193,48 +179,53 @@ export const asyncHandler = (fn: Function) => {
 /**
  * Create a custom error
  */
-export const createError = (message: string, statusCode: number, isOperational: boolean = true): AppError => {
-  return new AppError(message, statusCode, isOperational);
+export const createError = (
+  message: string,
+  statusCode: number,
+  isOperational: boolean = true,
+  code: string = 'APP_ERROR'
+): AppError => {
+  return new AppError(message, statusCode, code, isOperational);
 };
 
 /**
  * Validation error helper
  */
-export const createValidationError = (message: string): AppError => {
-  return new AppError(message, 400, true);
+export const createValidationError = (message: string, code?: string): AppError => {
+  return new ValidationError(message, code);
 };
 
 /**
  * Not found error helper
  */
-export const createNotFoundError = (message: string): AppError => {
-  return new AppError(message, 404, true);
+export const createNotFoundError = (message: string, code?: string): AppError => {
+  return new NotFoundError(message, code);
 };
 
 /**
  * Conflict error helper
  */
-export const createConflictError = (message: string): AppError => {
-  return new AppError(message, 409, true);
+export const createConflictError = (message: string, code?: string): AppError => {
+  return new ConflictError(message, code);
 };
 
 /**
  * Unauthorized error helper
  */
-export const createUnauthorizedError = (message: string): AppError => {
-  return new AppError(message, 401, true);
+export const createUnauthorizedError = (message: string, code?: string): AppError => {
+  return new UnauthorizedError(message, code);
 };
 
 /**
  * Forbidden error helper
  */
-export const createForbiddenError = (message: string): AppError => {
-  return new AppError(message, 403, true);
+export const createForbiddenError = (message: string, code?: string): AppError => {
+  return new ForbiddenError(message, code);
 };
 
 /**
  * Rate limit error helper
  */
 export const createRateLimitError = (message: string): AppError => {
-  return new AppError(message, 429, true);
+  return new AppError(message, 429, 'RATE_LIMITED');
 };
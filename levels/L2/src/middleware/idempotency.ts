@@ -0,0 +1,110 @@
+import { Request, Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { TtlCache } from '../utils/cache';
+import { IdempotencyKeyInUseError, IdempotencyKeyReusedError, ValidationError } from '../errors';
+
+// A completed record keeps the response body as the JSON text that was sent
+type IdempotencyRecord =
+  | { state: 'in_progress'; fingerprint: string }
+  | { state: 'completed'; fingerprint: string; statusCode: number; body: string; etag?: string };
+
+export const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+
+// Responses kept per player and key; lives in this process only, like the clock scheduler
+export const idempotencyStore = new TtlCache<IdempotencyRecord>(IDEMPOTENCY_KEY_TTL_MS);
+
+/**
+ * What the request asks for, so a key reused for something else can be refused
+ */
+function fingerprint(req: Request): string {
+  return createHash('sha256')
+    .update(JSON.stringify([req.method, req.originalUrl, req.get('If-Match') || null, req.body ?? null]))
+    .digest('hex');
+}
+
+/**
+ * Same as idempotent, but keeps `toReplay(body)` of a successful response instead of
+ * the body itself, so a secret sent the first time is never sent again
+ */
+export const idempotentWithReplay = (toReplay: (body: unknown) => unknown) => (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const key = req.get('Idempotency-Key');
+  if (key === undefined) {
+    return next();
+  }
+
+  if (key.length === 0 || key.length > MAX_KEY_LENGTH) {
+    return next(new ValidationError(`Idempotency-Key must be 1-${MAX_KEY_LENGTH} characters`, 'INVALID_IDEMPOTENCY_KEY'));
+  }
+
+  const storeKey = `${req.player ? req.player.id : 'anonymous'}:${key}`;
+  const requestFingerprint = fingerprint(req);
+  const existing = idempotencyStore.get(storeKey);
+
+  if (existing) {
+    if (existing.fingerprint !== requestFingerprint) {
+      return next(new IdempotencyKeyReusedError());
+    }
+
+    if (existing.state === 'in_progress') {
+      return next(new IdempotencyKeyInUseError());
+    }
+
+    console.log(`🔁 Replaying response for Idempotency-Key ${key}`);
+    if (existing.etag) {
+      res.set('ETag', existing.etag);
+    }
+    res.set('Idempotent-Replayed', 'true');
+    res.status(existing.statusCode).type('json').send(existing.body);
+    return;
+  }
+
+  const pending: IdempotencyRecord = { state: 'in_progress', fingerprint: requestFingerprint };
+  idempotencyStore.set(storeKey, pending);
+
+  // Every handler (and the error handler) answers with res.json, so that is where the response is caught
+  const json = res.json.bind(res);
+  res.json = (body: unknown) => {
+    if (idempotencyStore.get(storeKey) === pending) {
+      if (res.statusCode >= 500) {
+        idempotencyStore.delete(storeKey);
+      } else {
+        const etag = res.get('ETag');
+        idempotencyStore.set(storeKey, {
+          state: 'completed',
+          fingerprint: requestFingerprint,
+          statusCode: res.statusCode,
+          body: JSON.stringify(res.statusCode < 400 ? toReplay(body) : body),
+          ...(etag ? { etag } : {}),
+        });
+      }
+    }
+    return json(body);
+  };
+
+  // A request that ends without a response (e.g. the client hung up) frees its key
+  res.on('close', () => {
+    if (idempotencyStore.get(storeKey) === pending) {
+      idempotencyStore.delete(storeKey);
+    }
+  });
+
+  next();
+};
+
+/**
+ * Honour an optional `Idempotency-Key` header: the first request with a key runs
+ * as usual and its response is kept for 24 hours; retries with the same key get
+ * that response again (marked `Idempotent-Replayed: true`) instead of running twice.
+ *
+ * Server errors (5xx) are not kept, so the request can be retried. Use after
+ * requireAuth and validation, so keys are scoped per player and only valid
+ * requests are recorded. Unauthenticated requests share one scope, so anyone
+ * sending the same key and body gets the stored response: on a route whose
+ * response carries a secret, use idempotentWithReplay to keep it out.
+ */
+export const idempotent = idempotentWithReplay(body => body);
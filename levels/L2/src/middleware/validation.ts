@@ -0,0 +1,275 @@
+import { Request, Response, NextFunction } from 'express';
+import { z, ZodIssue, ZodTypeAny } from 'zod';
+import { BotDifficulty, GameStatus, PlayerRole, PlayerSortField, ValidationError } from '../types';
+import { RequestValidationError } from '../errors';
+import { MAX_BOARD_SIZE, MAX_PLAYERS, MIN_BOARD_SIZE, MIN_PLAYERS } from '../models/game';
+import { PLAYER_ROLES, PLAYER_SORT_FIELDS } from '../models/player';
+import { MAX_BEST_OF } from '../models/series';
+import { GAME_VARIANTS } from '../rules';
+import { MIN_PASSWORD_LENGTH } from '../services/authService';
+import { BOT_DIFFICULTIES } from '../services/botService';
+
+type RequestPart = 'body' | 'query' | 'params';
+
+// Never echo these back in validation errors
+const SECRET_FIELDS = ['password', 'apiKey'];
+
+const GAME_STATUSES: [GameStatus, ...GameStatus[]] = ['waiting', 'active', 'completed', 'draw', 'voided'];
+
+const integer = (field: string) =>
+  z.number({ required_error: `${field} is required`, invalid_type_error: `${field} must be a number` })
+    .int(`${field} must be an integer`);
+
+// Query strings arrive as text, so numbers are coerced first
+const queryInteger = (field: string) =>
+  z.coerce.number({ invalid_type_error: `${field} must be a number` }).int(`${field} must be an integer`);
+
+const boardSize = (field: string) =>
+  integer(field)
+    .min(MIN_BOARD_SIZE, `${field} must be between ${MIN_BOARD_SIZE} and ${MAX_BOARD_SIZE}`)
+    .max(MAX_BOARD_SIZE, `${field} must be between ${MIN_BOARD_SIZE} and ${MAX_BOARD_SIZE}`);
+
+const playerId = z.string({ invalid_type_error: 'Player ID must be a string' }).min(1, 'Player ID must not be empty');
+
+const playerName = z.string({ required_error: 'Name is required', invalid_type_error: 'Name must be a string' })
+  .trim()
+  .min(1, 'Name must not be empty')
+  .max(100, 'Name must be 100 characters or less');
+
+const reason = (label: string) =>
+  z.string({ required_error: `${label} is required`, invalid_type_error: `${label} must be a string` })
+    .trim()
+    .min(1, `${label} must not be empty`)
+    .max(500, `${label} must be 500 characters or less`);
+
+const email = z.string({ required_error: 'Email is required', invalid_type_error: 'Email must be a string' })
+  .trim()
+  .email('Email must be a valid email address');
+
+export const createGameSchema = z.object({
+  name: z.string({ invalid_type_error: 'Game name must be a string' })
+    .max(100, 'Game name must be 100 characters or less')
+    .optional(),
+  rows: boardSize('rows').optional(),
+  cols: boardSize('cols').optional(),
+  // The upper bound depends on the board, so GameModel checks it
+  winLength: integer('winLength').min(MIN_BOARD_SIZE, `winLength must be at least ${MIN_BOARD_SIZE}`).optional(),
+  timeControl: z.object({
+    moveTimeLimitMs: integer('timeControl.moveTimeLimitMs').nullable().optional(),
+    initialTimeMs: integer('timeControl.initialTimeMs').nullable().optional(),
+    incrementMs: integer('timeControl.incrementMs').optional(),
+  }, { invalid_type_error: 'timeControl must be an object' }).nullable().optional(),
+  variant: z.enum(GAME_VARIANTS, {
+    errorMap: () => ({ message: `variant must be one of: ${GAME_VARIANTS.join(', ')}` }),
+  }).optional(),
+  // Whether the board and variant allow that many players is up to GameModel
+  maxPlayers: integer('maxPlayers')
+    .min(MIN_PLAYERS, `maxPlayers must be between ${MIN_PLAYERS} and ${MAX_PLAYERS}`)
+    .max(MAX_PLAYERS, `maxPlayers must be between ${MIN_PLAYERS} and ${MAX_PLAYERS}`)
+    .optional(),
+});
+
+export const createSeriesSchema = z.object({
+  opponentId: z.string({ required_error: 'opponentId is required', invalid_type_error: 'opponentId must be a string' })
+    .min(1, 'opponentId must not be empty'),
+  // Whether it is odd is up to SeriesModel
+  bestOf: integer('bestOf')
+    .min(1, `bestOf must be between 1 and ${MAX_BEST_OF}`)
+    .max(MAX_BEST_OF, `bestOf must be between 1 and ${MAX_BEST_OF}`),
+  rows: boardSize('rows').optional(),
+  cols: boardSize('cols').optional(),
+  winLength: integer('winLength').min(MIN_BOARD_SIZE, `winLength must be at least ${MIN_BOARD_SIZE}`).optional(),
+});
+
+export const joinGameSchema = z.object({
+  playerId: playerId.optional(),
+});
+
+// Takebacks, resignations, draw offers and spectating act for the authenticated player
+export const playerActionSchema = z.object({
+  playerId: playerId.optional(),
+});
+
+export const answerSchema = playerActionSchema.extend({
+  accept: z.boolean({ required_error: 'accept is required', invalid_type_error: 'accept must be true or false' }),
+});
+
+export const addBotSchema = z.object({
+  difficulty: z.enum(BOT_DIFFICULTIES as [BotDifficulty, ...BotDifficulty[]], {
+    errorMap: () => ({ message: `difficulty must be one of: ${BOT_DIFFICULTIES.join(', ')}` }),
+  }).optional(),
+});
+
+export const makeMoveSchema = z.object({
+  playerId: playerId.optional(),
+  row: integer('row').min(0, 'row must be non-negative'),
+  col: integer('col').min(0, 'col must be non-negative'),
+  // Whether a symbol is needed depends on the game's variant, so GameModel checks that
+  symbol: z.enum(['X', 'O'], {
+    errorMap: () => ({ message: 'symbol must be X or O' }),
+  }).optional(),
+});
+
+export const joinQueueSchema = z.object({
+  playerId: playerId.optional(),
+  rows: boardSize('rows').optional(),
+  cols: boardSize('cols').optional(),
+  winLength: integer('winLength').min(MIN_BOARD_SIZE, `winLength must be at least ${MIN_BOARD_SIZE}`).optional(),
+});
+
+export const createPlayerSchema = z.object({
+  name: playerName,
+  email,
+  password: z.string({ invalid_type_error: 'Password must be a string' })
+    .min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+    .optional(),
+});
+
+export const updatePlayerSchema = z.object({
+  name: playerName.optional(),
+  email: email.optional(),
+}).refine(body => body.name !== undefined || body.email !== undefined, {
+  message: 'Provide a name or email to update',
+});
+
+export const flagPlayerSchema = z.object({
+  reason: reason('Flag reason'),
+});
+
+export const endGameSchema = z.object({
+  winnerId: z.string({ invalid_type_error: 'winnerId must be a string or null' })
+    .min(1, 'winnerId must not be empty')
+    .nullable()
+    .optional(),
+  reason: reason('Reason').optional(),
+});
+
+// Void, unban, clear-flag and delete take only an optional note for the audit log
+export const adminActionSchema = z.object({
+  reason: reason('Reason').optional(),
+});
+
+export const banPlayerSchema = z.object({
+  reason: reason('Ban reason'),
+});
+
+export const setRoleSchema = z.object({
+  role: z.enum(PLAYER_ROLES as [PlayerRole, ...PlayerRole[]], {
+    errorMap: () => ({ message: `role must be one of: ${PLAYER_ROLES.join(', ')}` }),
+  }),
+});
+
+export const limitQuerySchema = z.object({
+  limit: queryInteger('limit').min(1, 'limit must be between 1 and 100').max(100, 'limit must be between 1 and 100').optional(),
+});
+
+export const paginationQuerySchema = limitQuerySchema.extend({
+  offset: queryInteger('offset').min(0, 'offset must be non-negative').optional(),
+});
+
+export const listGamesQuerySchema = paginationQuerySchema.extend({
+  status: z.enum(GAME_STATUSES, {
+    errorMap: () => ({ message: `status must be one of: ${GAME_STATUSES.join(', ')}` }),
+  }).optional(),
+});
+
+export const listPlayersQuerySchema = paginationQuerySchema.extend({
+  sortBy: z.enum(PLAYER_SORT_FIELDS as [PlayerSortField, ...PlayerSortField[]], {
+    errorMap: () => ({ message: `sortBy must be one of: ${PLAYER_SORT_FIELDS.join(', ')}` }),
+  }).optional(),
+  order: z.enum(['asc', 'desc'], {
+    errorMap: () => ({ message: 'order must be asc or desc' }),
+  }).optional(),
+});
+
+export const leaderboardQuerySchema = paginationQuerySchema.extend({
+  period: z.enum(['daily', 'weekly', 'all'], {
+    errorMap: () => ({ message: 'period must be one of: daily, weekly, all' }),
+  }).optional(),
+});
+
+export const eventHistoryQuerySchema = limitQuerySchema.extend({
+  after: queryInteger('after').min(0, 'after must be non-negative').optional(),
+});
+
+export const listSeriesQuerySchema = z.object({
+  playerId: z.string({ required_error: 'playerId is required', invalid_type_error: 'playerId must be a string' })
+    .min(1, 'playerId must not be empty'),
+});
+
+export const searchPlayersQuerySchema = limitQuerySchema.extend({
+  q: z.string({ required_error: 'q is required', invalid_type_error: 'q must be a string' })
+    .trim()
+    .min(1, 'q must not be empty')
+    .max(100, 'q must be 100 characters or less'),
+});
+
+export type LimitQuery = z.infer<typeof limitQuerySchema>;
+export type PaginationQuery = z.infer<typeof paginationQuerySchema>;
+export type ListGamesQuery = z.infer<typeof listGamesQuerySchema>;
+export type ListPlayersQuery = z.infer<typeof listPlayersQuerySchema>;
+export type EventHistoryQuery = z.infer<typeof eventHistoryQuerySchema>;
+export type SearchPlayersQuery = z.infer<typeof searchPlayersQuerySchema>;
+export type ListSeriesQuery = z.infer<typeof listSeriesQuerySchema>;
+export type LeaderboardQuery = z.infer<typeof leaderboardQuerySchema>;
+
+/**
+ * Flatten zod issues into one entry per field
+ */
+function toValidationErrors(issues: ZodIssue[], input: unknown): ValidationError[] {
+  return issues.map(issue => {
+    const field = issue.path.join('.');
+    const error: ValidationError = { field: field || 'body', message: issue.message };
+
+    const value = issue.path.reduce<any>((current, key) => current?.[key], input);
+    if (field && value !== undefined && !issue.path.some(key => SECRET_FIELDS.includes(String(key)))) {
+      error.value = value;
+    }
+
+    return error;
+  });
+}
+
+/**
+ * Validate part of the request against a schema, replacing it with the parsed
+ * (trimmed, coerced) value, or fail with a 400 listing every invalid field
+ */
+export const validate = (schema: ZodTypeAny, part: RequestPart = 'body') => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const input = req[part] ?? {};
+    const result = schema.safeParse(input);
+
+    if (!result.success) {
+      return next(new RequestValidationError(toValidationErrors(result.error.issues, input)));
+    }
+
+    Object.assign(req, { [part]: result.data });
+    next();
+  };
+};
+
+export const validationMiddleware = {
+  validateCreateGame: validate(createGameSchema),
+  validateCreateSeries: validate(createSeriesSchema),
+  validateJoinGame: validate(joinGameSchema),
+  validateMakeMove: validate(makeMoveSchema),
+  validatePlayerAction: validate(playerActionSchema),
+  validateAnswer: validate(answerSchema),
+  validateAddBot: validate(addBotSchema),
+  validateJoinQueue: validate(joinQueueSchema),
+  validateCreatePlayer: validate(createPlayerSchema),
+  validateUpdatePlayer: validate(updatePlayerSchema),
+  validateFlagPlayer: validate(flagPlayerSchema),
+  validateEndGame: validate(endGameSchema),
+  validateAdminAction: validate(adminActionSchema),
+  validateBanPlayer: validate(banPlayerSchema),
+  validateSetRole: validate(setRoleSchema),
+  validateListGames: validate(listGamesQuerySchema, 'query'),
+  validateLimit: validate(limitQuerySchema, 'query'),
+  validatePagination: validate(paginationQuerySchema, 'query'),
+  validateListPlayers: validate(listPlayersQuerySchema, 'query'),
+  validateEventHistory: validate(eventHistoryQuerySchema, 'query'),
+  validateSearchPlayers: validate(searchPlayersQuerySchema, 'query'),
+  validateLeaderboard: validate(leaderboardQuerySchema, 'query'),
+  validateListSeries: validate(listSeriesQuerySchema, 'query'),
+};
@@ -0,0 +1,48 @@
+import { AdminActionType, AuditLogEntry } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import { AuditLogRepository, getAuditLogRepository } from '../repositories';
+import { ValidationError } from '../errors';
+
+export class AuditLogModel {
+  // Storage backend (SQLite or in-memory), see repositories/index.ts
+  private repository: AuditLogRepository;
+
+  constructor(repository: AuditLogRepository = getAuditLogRepository()) {
+    this.repository = repository;
+  }
+
+  /**
+   * Record an admin action
+   */
+  async record(
+    adminId: string,
+    action: AdminActionType,
+    target: Pick<AuditLogEntry, 'targetType' | 'targetId'>,
+    reason: string | null = null,
+    details: Record<string, unknown> = {}
+  ): Promise<AuditLogEntry> {
+    const entry: AuditLogEntry = {
+      id: uuidv4(),
+      adminId,
+      action,
+      ...target,
+      reason,
+      details,
+      createdAt: new Date(),
+    };
+
+    await this.repository.add(entry);
+    return entry;
+  }
+
+  /**
+   * Get the most recent admin actions, newest first
+   */
+  async getRecentEntries(limit: number = 50): Promise<AuditLogEntry[]> {
+    if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+      throw new ValidationError('Limit must be between 1 and 100');
+    }
+
+    return this.repository.findRecent(limit);
+  }
+}
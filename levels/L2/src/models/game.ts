@@ -1,9 +1,67 @@
-import { Game, GameStatus, GameBoard, Move, Player, WinResult, WinCondition } from '../types';
+import {
+  DrawOffer,
+  Game,
+  GameEndReason,
+  GameLogEvent,
+  GameLogEventData,
+  GameLogEventType,
+  GameReplay,
+  GameStatus,
+  GameStatusSummary,
+  GameVariant,
+  BoardOptions,
+  Move,
+  MoveSymbol,
+  Player,
+  PublicPlayer,
+  ReplayFrame,
+  Spectator,
+  Takeback,
+  TimeControl,
+} from '../types';
 import { v4 as uuidv4 } from 'uuid';
+import { GameRepository, getGameRepository } from '../repositories';
+import { toPublicPlayer } from '../utils/player';
+import { createEmptyBoard } from '../utils/board';
+import { GAME_VARIANTS, getRuleEngine } from '../rules';
+import { getClockSummary, isTurnExpired } from '../utils/clock';
+import { buildReplayFrame, buildReplayFrames } from '../utils/replay';
+import {
+  AlreadyInGameError,
+  BadRequestError,
+  CellOccupiedError,
+  GameFullError,
+  GameNotActiveError,
+  GameNotFoundError,
+  GameNotJoinableError,
+  GameVersionConflictError,
+  MoveTimeExpiredError,
+  NotFoundError,
+  NotYourTurnError,
+  PlayerNotInGameError,
+  SpectatorMoveError,
+  ValidationError,
+} from '../errors';
+
+export const DEFAULT_BOARD_OPTIONS: BoardOptions = { rows: 3, cols: 3, winLength: 3 };
+export const MIN_BOARD_SIZE = 3;
+export const MAX_BOARD_SIZE = 19;
+export const MIN_TIME_LIMIT_MS = 1000;
+export const MAX_TIME_LIMIT_MS = 24 * 60 * 60 * 1000;
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 4;
+// Handed out by seat, so the first player to join is X
+export const PLAYER_SYMBOLS = ['X', 'O', 'Y', 'Z'];
+// A snapshot every this many versions caps how many events a rebuild replays
+export const SNAPSHOT_INTERVAL = 20;
 
 export class GameModel {
-  // In-memory storage for L2 candidates (no database setup required)
-  private games: Map<string, Game> = new Map();
+  // Storage backend (SQLite or in-memory), see repositories/index.ts
+  private repository: GameRepository;
+
+  constructor(repository: GameRepository = getGameRepository()) {
+    this.repository = repository;
+  }
 
   // TODO: Add proper error handling for game operations
   // TODO: Add input validation for all methods
@@ -11,24 +69,69 @@ export class GameModel {
   /**
    * Create a new game
    */
-  async createGame(name?: string): Promise<Game> {
-    // TODO: Validate input parameters
+  async createGame(
+    name?: string,
+    options: Partial<BoardOptions> = {},
+    timeControl: Partial<TimeControl> | null = null,
+    variant: GameVariant = 'standard',
+    maxPlayers: number = MIN_PLAYERS,
+    seriesId: string | null = null
+  ): Promise<Game> {
     // TODO: Check for duplicate game names if needed
 
+    if (!GAME_VARIANTS.includes(variant)) {
+      throw new ValidationError(`Variant must be one of: ${GAME_VARIANTS.join(', ')}`, 'INVALID_VARIANT');
+    }
+
+    const rules = getRuleEngine(variant);
+    const { rows, cols, winLength } = rules.fixedBoard
+      ? this.resolveFixedBoardOptions(variant, rules.fixedBoard, options)
+      : this.resolveBoardOptions(options);
+    this.validateMaxPlayers(maxPlayers, variant, rows, cols);
+
     const game: Game = {
       id: uuidv4(),
       name: name || `Game-${Date.now()}`,
       status: 'waiting',
-      board: this.createEmptyBoard(),
+      board: createEmptyBoard(rows, cols),
+      rows,
+      cols,
+      winLength,
       players: [],
       currentPlayerId: null,
       winnerId: null,
       createdAt: new Date(),
       updatedAt: new Date(),
       moves: [],
+      takebacks: [],
+      drawOffers: [],
+      timeControl: timeControl ? this.resolveTimeControl(timeControl) : null,
+      clocks: {},
+      turnStartedAt: null,
+      endReason: null,
+      spectators: [],
+      version: 1,
+      winResult: null,
+      variant,
+      ultimate: null,
+      maxPlayers,
+      symbols: {},
+      placements: {},
+      seriesId,
     };
+    rules.initialize(game);
 
-    this.games.set(game.id, game);
+    const event: GameLogEvent = {
+      id: uuidv4(),
+      gameId: game.id,
+      sequence: 1,
+      type: 'game_created',
+      actorId: null,
+      data: { game: structuredClone(game) },
+      occurredAt: game.createdAt,
+    };
+
+    await this.commit(game, event);
     return game;
   }
 
@@ -38,41 +141,41 @@ export class GameModel {
   async getGameById(gameId: string): Promise<Game | null> {
     // TODO: Add input validation
 
-    return this.games.get(gameId) || null;
+    return this.repository.findById(gameId);
   }
 
   /**
    * Add a player to a game
    */
-  async joinGame(gameId: string, player: Player): Promise<Game> {
+  async joinGame(gameId: string, player: Player, expectedVersion?: number): Promise<Game> {
     // TODO: Validate game exists and is in waiting status
     // TODO: Check if player is already in the game
-    // TODO: Check if game is full (max 2 players)
-    // TODO: Update game status to 'active' if 2 players join
     // TODO: Set current player to first player
 
-    const game = await this.getGameById(gameId);
-    if (!game) {
-      throw new Error('Game not found');
-    }
+    const game = await this.loadForUpdate(gameId, expectedVersion);
 
     if (game.status !== 'waiting') {
-      throw new Error('Game is not accepting new players');
+      throw new GameNotJoinableError();
     }
 
-    if (game.players.length >= 2) {
-      throw new Error('Game is full');
+    if (game.players.length >= game.maxPlayers) {
+      throw new GameFullError();
     }
 
-    game.players.push(player);
-    
-    if (game.players.length === 2) {
-      game.status = 'active';
-      game.currentPlayerId = game.players[0].id;
+    if (game.players.some(p => p.id === player.id)) {
+      throw new AlreadyInGameError();
     }
 
-    game.updatedAt = new Date();
-    this.games.set(gameId, game);
+    // Bots only know the standard rules
+    if (player.type === 'bot' && game.variant !== 'standard') {
+      throw new BadRequestError('Bots only play standard games', 'NOT_AVAILABLE_FOR_VARIANT');
+    }
+
+    if (player.type === 'bot' && game.maxPlayers > MIN_PLAYERS) {
+      throw new BadRequestError('Bots only play two-player games', 'NOT_AVAILABLE_FOR_MULTIPLAYER');
+    }
+
+    await this.append(game, 'player_joined', player.id, { player: toPublicPlayer(player) });
 
     return game;
   }
@@ -80,7 +183,14 @@ export class GameModel {
   /**
    * Make a move in the game
    */
-  async makeMove(gameId: string, playerId: string, row: number, col: number): Promise<{ game: Game; move: Move }> {
+  async makeMove(
+    gameId: string,
+    playerId: string,
+    row: number,
+    col: number,
+    expectedVersion?: number,
+    symbol?: MoveSymbol
+  ): Promise<{ game: Game; move: Move }> {
     // TODO: Validate game exists and is active
     // TODO: Validate it's the player's turn
     // TODO: Validate the move is valid (cell is empty, within bounds)
@@ -88,38 +198,43 @@ export class GameModel {
     // TODO: Check for draw condition after move
     // TODO: Update game status accordingly
 
-    const game = await this.getGameById(gameId);
-    if (!game) {
-      throw new Error('Game not found');
-    }
+    const game = await this.loadForUpdate(gameId, expectedVersion);
 
     if (game.status !== 'active') {
-      throw new Error('Game is not active');
+      throw new GameNotActiveError();
+    }
+
+    if (game.spectators.some(s => s.playerId === playerId)) {
+      throw new SpectatorMoveError();
     }
 
     if (game.currentPlayerId !== playerId) {
-      throw new Error('Not your turn');
+      throw new NotYourTurnError();
+    }
+
+    // The clock scheduler forfeits the game; until it does, late moves are refused
+    const now = new Date();
+    if (isTurnExpired(game, now)) {
+      throw new MoveTimeExpiredError();
     }
 
-    // TODO: Validate move coordinates
-    if (row < 0 || row > 2 || col < 0 || col > 2) {
-      throw new Error('Move coordinates must be between 0 and 2');
+    if (!this.isOnBoard(game, row, col)) {
+      throw new ValidationError(`Move coordinates must be within the ${game.rows}x${game.cols} board`, 'INVALID_COORDINATES');
     }
 
     // TODO: Check if cell is empty
     if (game.board[row][col] !== null) {
-      throw new Error('Cell is already occupied');
+      throw new CellOccupiedError();
     }
 
+    getRuleEngine(game.variant).validateMove(game, row, col, symbol);
+
     // TODO: Make the move
     const player = game.players.find(p => p.id === playerId);
     if (!player) {
-      throw new Error('Player not found in game');
+      throw new PlayerNotInGameError();
     }
 
-    game.board[row][col] = playerId;
-    game.updatedAt = new Date();
-
     // TODO: Create move record
     const move: Move = {
       id: uuidv4(),
@@ -127,53 +242,338 @@ export class GameModel {
       playerId,
       row,
       col,
-      timestamp: new Date(),
+      ...(symbol ? { symbol } : {}),
+      timestamp: now,
     };
 
-    game.moves.push(move);
+    await this.append(game, 'move_made', playerId, { move }, now);
+    return { game, move };
+  }
 
-    // TODO: Check for win condition
-    const winResult = this.checkWinCondition(game.board, playerId);
-    if (winResult.won) {
-      game.status = 'completed';
-      game.winnerId = playerId;
-    } else if (this.isDraw(game.board)) {
-      game.status = 'draw';
-    } else {
-      // TODO: Switch to next player
-      const currentPlayerIndex = game.players.findIndex(p => p.id === playerId);
-      const nextPlayerIndex = (currentPlayerIndex + 1) % game.players.length;
-      game.currentPlayerId = game.players[nextPlayerIndex].id;
+  /**
+   * Ask the opponent to undo the requesting player's last move
+   */
+  async requestTakeback(
+    gameId: string,
+    playerId: string,
+    expectedVersion?: number
+  ): Promise<{ game: Game; takeback: Takeback }> {
+    const game = await this.loadForUpdate(gameId, expectedVersion);
+
+    if (game.status !== 'active') {
+      throw new GameNotActiveError();
     }
 
-    this.games.set(gameId, game);
-    return { game, move };
+    if (!game.players.some(p => p.id === playerId)) {
+      throw new PlayerNotInGameError();
+    }
+
+    if (game.players.some(p => p.type === 'bot')) {
+      throw new BadRequestError('Takebacks are not available in games against a bot', 'NOT_AVAILABLE_AGAINST_BOT');
+    }
+
+    if (game.players.length > MIN_PLAYERS) {
+      throw new BadRequestError('Takebacks are only available in two-player games', 'NOT_AVAILABLE_FOR_MULTIPLAYER');
+    }
+
+    if (this.getPendingTakeback(game)) {
+      throw new BadRequestError('A takeback request is already pending', 'TAKEBACK_PENDING');
+    }
+
+    const lastMove = game.moves[game.moves.length - 1];
+    if (!lastMove || lastMove.playerId !== playerId) {
+      throw new BadRequestError('You can only take back your own last move', 'NOT_YOUR_LAST_MOVE');
+    }
+
+    const takeback: Takeback = {
+      id: uuidv4(),
+      moveId: lastMove.id,
+      requestedBy: playerId,
+      requestedAt: new Date(),
+      status: 'pending',
+      respondedBy: null,
+      respondedAt: null,
+    };
+
+    await this.append(game, 'takeback_requested', playerId, { takeback }, takeback.requestedAt);
+
+    return { game, takeback };
+  }
+
+  /**
+   * Accept or decline the pending takeback; accepting undoes the last move
+   */
+  async respondToTakeback(
+    gameId: string,
+    playerId: string,
+    accept: boolean,
+    expectedVersion?: number
+  ): Promise<{ game: Game; takeback: Takeback; undoneMove: Move | null }> {
+    const game = await this.loadForUpdate(gameId, expectedVersion);
+
+    if (game.status !== 'active') {
+      throw new GameNotActiveError();
+    }
+
+    const takeback = this.getPendingTakeback(game);
+    if (!takeback) {
+      throw new BadRequestError('No pending takeback request', 'NO_PENDING_TAKEBACK');
+    }
+
+    if (!game.players.some(p => p.id === playerId)) {
+      throw new PlayerNotInGameError();
+    }
+
+    if (takeback.requestedBy === playerId) {
+      throw new BadRequestError('Only the opponent can respond to a takeback request', 'NOT_THE_OPPONENT');
+    }
+
+    const now = new Date();
+    if (accept && isTurnExpired(game, now)) {
+      throw new MoveTimeExpiredError();
+    }
+
+    const undoneMove = accept ? game.moves[game.moves.length - 1] || null : null;
+    await this.append(game, 'takeback_answered', playerId, { takebackId: takeback.id, accepted: accept }, now);
+
+    return { game, takeback, undoneMove };
+  }
+
+  /**
+   * Forfeit the game of a player whose time has run out.
+   *
+   * Returns the completed game, or null if the game is no longer active or the
+   * player to move still has time (e.g. they moved just before the deadline,
+   * possibly while this claim was in flight).
+   */
+  async claimTimeout(gameId: string, now: Date = new Date()): Promise<Game | null> {
+    const game = await this.getGameById(gameId);
+    if (!game || game.status !== 'active' || !isTurnExpired(game, now)) {
+      return null;
+    }
+
+    try {
+      await this.append(game, 'game_timed_out', null, {}, now);
+    } catch (error) {
+      // A move landed while we were deciding; the caller re-checks the clock
+      if (error instanceof GameVersionConflictError) {
+        return null;
+      }
+      throw error;
+    }
+    return game;
+  }
+
+  /**
+   * Concede the game to the opponent; with three or more players, drop out and
+   * leave the others playing
+   */
+  async resign(gameId: string, playerId: string, expectedVersion?: number): Promise<Game> {
+    const game = await this.loadForUpdate(gameId, expectedVersion);
+
+    if (game.status !== 'active') {
+      throw new GameNotActiveError();
+    }
+
+    if (!game.players.some(p => p.id === playerId)) {
+      throw new PlayerNotInGameError();
+    }
+
+    if (playerId in game.placements) {
+      throw new BadRequestError('You are already out of this game', 'PLAYER_ELIMINATED');
+    }
+
+    await this.append(game, 'game_resigned', playerId, {});
+    return game;
+  }
+
+  /**
+   * End an active game on an admin's say-so, with the given winner or as a draw
+   */
+  async forceEndGame(gameId: string, winnerId: string | null, actorId: string | null = null): Promise<Game> {
+    const game = await this.loadForUpdate(gameId);
+
+    if (game.status !== 'active') {
+      throw new GameNotActiveError();
+    }
+
+    if (winnerId !== null && !this.getPlayersStillIn(game).some(p => p.id === winnerId)) {
+      throw new ValidationError('Winner must be a player in this game', 'INVALID_WINNER');
+    }
+
+    await this.append(game, 'game_force_ended', actorId, { winnerId });
+    return game;
+  }
+
+  /**
+   * Annul a started game so it counts for nobody; returns the result it had, if any
+   */
+  async voidGame(
+    gameId: string,
+    actorId: string | null = null
+  ): Promise<{ game: Game; previousResult: Pick<Game, 'status' | 'winnerId' | 'placements'> | null }> {
+    const game = await this.loadForUpdate(gameId);
+
+    if (game.status === 'waiting') {
+      throw new BadRequestError('Game has not started', 'GAME_NOT_STARTED');
+    }
+
+    if (game.status === 'voided') {
+      throw new BadRequestError('Game is already voided', 'GAME_ALREADY_VOIDED');
+    }
+
+    const previousResult =
+      game.status === 'active' ? null : { status: game.status, winnerId: game.winnerId, placements: game.placements };
+
+    await this.append(game, 'game_voided', actorId, {});
+    return { game, previousResult };
+  }
+
+  /**
+   * Offer the opponent a draw; it stays open until answered or the opponent moves
+   */
+  async offerDraw(
+    gameId: string,
+    playerId: string,
+    expectedVersion?: number
+  ): Promise<{ game: Game; drawOffer: DrawOffer }> {
+    const game = await this.loadForUpdate(gameId, expectedVersion);
+
+    if (game.status !== 'active') {
+      throw new GameNotActiveError();
+    }
+
+    if (!game.players.some(p => p.id === playerId)) {
+      throw new PlayerNotInGameError();
+    }
+
+    if (game.players.some(p => p.type === 'bot')) {
+      throw new BadRequestError('Draw offers are not available in games against a bot', 'NOT_AVAILABLE_AGAINST_BOT');
+    }
+
+    if (game.players.length > MIN_PLAYERS) {
+      throw new BadRequestError('Draw offers are only available in two-player games', 'NOT_AVAILABLE_FOR_MULTIPLAYER');
+    }
+
+    if (this.getPendingDrawOffer(game)) {
+      throw new BadRequestError('A draw offer is already pending', 'DRAW_OFFER_PENDING');
+    }
+
+    const drawOffer: DrawOffer = {
+      id: uuidv4(),
+      offeredBy: playerId,
+      offeredAt: new Date(),
+      status: 'pending',
+      respondedBy: null,
+      respondedAt: null,
+    };
+
+    await this.append(game, 'draw_offered', playerId, { drawOffer }, drawOffer.offeredAt);
+
+    return { game, drawOffer };
+  }
+
+  /**
+   * Accept or decline the pending draw offer; accepting ends the game as a draw
+   */
+  async respondToDrawOffer(
+    gameId: string,
+    playerId: string,
+    accept: boolean,
+    expectedVersion?: number
+  ): Promise<{ game: Game; drawOffer: DrawOffer }> {
+    const game = await this.loadForUpdate(gameId, expectedVersion);
+
+    if (game.status !== 'active') {
+      throw new GameNotActiveError();
+    }
+
+    const drawOffer = this.getPendingDrawOffer(game);
+    if (!drawOffer) {
+      throw new BadRequestError('No pending draw offer', 'NO_PENDING_DRAW_OFFER');
+    }
+
+    if (!game.players.some(p => p.id === playerId)) {
+      throw new PlayerNotInGameError();
+    }
+
+    if (drawOffer.offeredBy === playerId) {
+      throw new BadRequestError('Only the opponent can respond to a draw offer', 'NOT_THE_OPPONENT');
+    }
+
+    await this.append(game, 'draw_answered', playerId, { drawOfferId: drawOffer.id, accepted: accept });
+
+    return { game, drawOffer };
+  }
+
+  /**
+   * Watch a game without taking a seat; spectators cannot make moves
+   */
+  async spectateGame(gameId: string, playerId: string): Promise<{ game: Game; spectator: Spectator }> {
+    const game = await this.loadForUpdate(gameId);
+
+    if (game.status !== 'waiting' && game.status !== 'active') {
+      throw new BadRequestError('Game is already over', 'GAME_OVER');
+    }
+
+    if (game.players.some(p => p.id === playerId)) {
+      throw new BadRequestError('Players cannot spectate their own game', 'CANNOT_SPECTATE_OWN_GAME');
+    }
+
+    if (game.spectators.some(s => s.playerId === playerId)) {
+      throw new BadRequestError('Player is already spectating this game', 'ALREADY_SPECTATING');
+    }
+
+    const spectator: Spectator = { playerId, joinedAt: new Date() };
+    await this.append(game, 'spectator_joined', playerId, { spectator }, spectator.joinedAt);
+
+    return { game, spectator };
+  }
+
+  /**
+   * Stop spectating a game
+   */
+  async leaveSpectating(gameId: string, playerId: string): Promise<Game> {
+    const game = await this.loadForUpdate(gameId);
+
+    if (!game.spectators.some(s => s.playerId === playerId)) {
+      throw new BadRequestError('Player is not spectating this game', 'NOT_SPECTATING');
+    }
+
+    await this.append(game, 'spectator_left', playerId, {});
+
+    return game;
   }
 
   /**
    * Get game status
    */
-  async getGameStatus(gameId: string): Promise<{
-    id: string;
-    status: GameStatus;
-    board: GameBoard;
-    currentPlayerId: string | null;
-    winnerId: string | null;
-    players: Player[];
-    moves: Move[];
-  }> {
+  async getGameStatus(gameId: string): Promise<GameStatusSummary> {
     const game = await this.getGameById(gameId);
     if (!game) {
-      throw new Error('Game not found');
+      throw new GameNotFoundError();
     }
 
     return {
       id: game.id,
       status: game.status,
       board: game.board,
+      rows: game.rows,
+      cols: game.cols,
+      winLength: game.winLength,
       currentPlayerId: game.currentPlayerId,
       winnerId: game.winnerId,
+      endReason: game.endReason,
+      winResult: game.winResult,
+      variant: game.variant,
+      ultimate: game.ultimate,
+      maxPlayers: game.maxPlayers,
+      symbols: game.symbols,
+      placements: game.placements,
+      seriesId: game.seriesId,
+      clock: getClockSummary(game),
       players: game.players,
+      spectatorCount: game.spectators.length,
       moves: game.moves,
     };
   }
@@ -183,104 +583,557 @@ export class GameModel {
    */
   async listGames(status?: GameStatus): Promise<Game[]> {
     // TODO: Add filtering options (status, date range, etc.)
-    let games = Array.from(this.games.values());
-    
-    if (status) {
-      games = games.filter(game => game.status === status);
-    }
+    const games = await this.repository.findAll(status);
 
     return games.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
   /**
-   * Delete a game
+   * Delete a game; it is archived so it can still be replayed
+   */
+  async deleteGame(gameId: string, actorId: string | null = null): Promise<void> {
+    // Only admins reach this, see routes/games.ts
+    const game = await this.loadForUpdate(gameId);
+
+    await this.append(game, 'game_deleted', actorId, {});
+    await this.repository.archive(gameId);
+  }
+
+  /**
+   * Remove a game outright, without archiving it
+   */
+  async discardGame(gameId: string): Promise<void> {
+    await this.repository.delete(gameId);
+  }
+
+  /**
+   * Get the board after every ply of a live or archived game
+   */
+  async getReplay(gameId: string): Promise<GameReplay> {
+    const { game, archived } = await this.getReplayableGame(gameId);
+
+    return {
+      gameId: game.id,
+      name: game.name,
+      status: game.status,
+      rows: game.rows,
+      cols: game.cols,
+      winLength: game.winLength,
+      players: game.players,
+      winnerId: game.winnerId,
+      endReason: game.endReason,
+      archived,
+      totalPlies: game.moves.length,
+      frames: buildReplayFrames(game),
+    };
+  }
+
+  /**
+   * Get the board of a live or archived game after the given number of plies
    */
-  async deleteGame(gameId: string): Promise<void> {
-    // TODO: Add authorization check
+  async getReplayFrame(gameId: string, ply: number): Promise<{ gameId: string; totalPlies: number; frame: ReplayFrame }> {
+    const { game } = await this.getReplayableGame(gameId);
+
+    if (!Number.isInteger(ply) || ply < 0 || ply > game.moves.length) {
+      throw new ValidationError(`Ply must be an integer between 0 and ${game.moves.length}`, 'INVALID_PLY');
+    }
+
+    return { gameId: game.id, totalPlies: game.moves.length, frame: buildReplayFrame(game, ply) };
+  }
+
+  /**
+   * Get a page of a live or archived game's event log, oldest first
+   */
+  async getEventHistory(
+    gameId: string,
+    after: number = 0,
+    limit: number = 100
+  ): Promise<{ events: GameLogEvent[]; hasMore: boolean }> {
+    await this.getReplayableGame(gameId);
+
+    // One extra event tells whether there is another page
+    const events = await this.repository.findEvents(gameId, { after, limit: limit + 1 });
+    const page = events.slice(0, limit).map(event =>
+      event.type === 'player_joined' ? { ...event, data: { player: toPublicPlayer(event.data.player) } } : event
+    );
+    return { events: page, hasMore: events.length > limit };
+  }
+
+  /**
+   * Rebuild a game from its event log, as it is now or as it was at the given
+   * version, starting from the latest snapshot at or before that point
+   */
+  async rebuildGame(gameId: string, version?: number): Promise<Game> {
+    let game = await this.repository.findSnapshot(gameId, version);
+    const events = await this.repository.findEvents(gameId, { after: game ? game.version : 0, upTo: version });
+
+    for (const event of events) {
+      if (event.type === 'game_created') {
+        game = event.data.game;
+      } else if (game) {
+        this.applyEvent(game, event);
+      }
+    }
+
+    if (!game) {
+      throw new GameNotFoundError();
+    }
+
+    if (version !== undefined && game.version !== version) {
+      throw new NotFoundError(`Game has no version ${version}`, 'GAME_VERSION_NOT_FOUND');
+    }
+
+    // Snapshots can predate seats holding only the public view
+    game.players = game.players.map(toPublicPlayer);
+    return game;
+  }
+
+  /**
+   * Find a game for replay, falling back to the archive
+   */
+  private async getReplayableGame(gameId: string): Promise<{ game: Game; archived: boolean }> {
+    const game = await this.getGameById(gameId);
+    if (game) {
+      return { game, archived: false };
+    }
+
+    const archivedGame = await this.repository.findArchivedById(gameId);
+    if (!archivedGame) {
+      throw new GameNotFoundError();
+    }
+
+    return { game: archivedGame, archived: true };
+  }
+
+  /**
+   * Load a game to change it. With an expected version (from If-Match), refuse
+   * to act on a game that has moved on since the caller last read it.
+   */
+  private async loadForUpdate(gameId: string, expectedVersion?: number): Promise<Game> {
     const game = await this.getGameById(gameId);
     if (!game) {
-      throw new Error('Game not found');
+      throw new GameNotFoundError();
+    }
+
+    if (expectedVersion !== undefined && game.version !== expectedVersion) {
+      throw new GameVersionConflictError(game);
     }
 
-    this.games.delete(gameId);
+    return game;
   }
 
   /**
-   * Create an empty 3x3 board
+   * Record a change to a game loaded by loadForUpdate, apply it and save both
    */
-  private createEmptyBoard(): GameBoard {
-    return [
-      [null, null, null],
-      [null, null, null],
-      [null, null, null],
-    ];
+  private async append<T extends GameLogEventType>(
+    game: Game,
+    type: T,
+    actorId: string | null,
+    data: GameLogEventData[T],
+    occurredAt: Date = new Date()
+  ): Promise<void> {
+    const event = {
+      id: uuidv4(),
+      gameId: game.id,
+      sequence: game.version + 1,
+      type,
+      actorId,
+      data,
+      occurredAt,
+    } as GameLogEvent;
+
+    this.applyEvent(game, event);
+    await this.commit(game, event);
+  }
+
+  /**
+   * Save a game along with the event that produced its current version, unless
+   * another change was saved first
+   */
+  private async commit(game: Game, event: GameLogEvent): Promise<void> {
+    if (!(await this.repository.saveIfVersion(game, event.sequence - 1, event))) {
+      const current = await this.getGameById(game.id);
+      if (!current) {
+        throw new GameNotFoundError();
+      }
+      throw new GameVersionConflictError(current);
+    }
+
+    if (game.version % SNAPSHOT_INTERVAL === 0) {
+      await this.repository.saveSnapshot(game);
+    }
   }
 
   /**
-   * Check if a player has won
+   * Apply one event to a game. Every change to a game goes through here, both
+   * when it is made and when the game is rebuilt from its log, so the two
+   * cannot drift apart. Events were validated when recorded and are not re-checked.
    */
-  private checkWinCondition(board: GameBoard, playerId: string): WinResult {
-    // TODO: Implement win condition checking
-    // TODO: Check rows, columns, and diagonals
-    // TODO: Return appropriate win result
+  private applyEvent(game: Game, event: GameLogEvent): void {
+    const at = event.occurredAt;
+
+    switch (event.type) {
+      case 'game_created':
+        throw new Error('game_created starts a game and cannot be applied to one');
+
+      case 'player_joined': {
+        // Logs from before seats held only the public view still carry moderation details
+        const player = toPublicPlayer(structuredClone(event.data.player));
+        game.players.push(player);
+        game.symbols[player.id] = PLAYER_SYMBOLS[game.players.length - 1];
+        // A spectator who takes the open seat stops watching
+        game.spectators = game.spectators.filter(s => s.playerId !== player.id);
+
+        if (game.players.length === game.maxPlayers) {
+          game.status = 'active';
+          game.currentPlayerId = game.players[0].id;
+          this.startClocks(game, at);
+        }
+        break;
+      }
+
+      case 'move_made': {
+        const move = structuredClone(event.data.move);
+        const rules = getRuleEngine(game.variant);
+        game.board[move.row][move.col] = rules.markFor(move);
+
+        // Playing on means the opponent has implicitly turned down any pending takeback or draw offer
+        const pendingTakeback = this.getPendingTakeback(game);
+        if (pendingTakeback) {
+          pendingTakeback.status = 'cancelled';
+          pendingTakeback.respondedAt = at;
+        }
+
+        const pendingDrawOffer = this.getPendingDrawOffer(game);
+        if (pendingDrawOffer && pendingDrawOffer.offeredBy !== move.playerId) {
+          pendingDrawOffer.status = 'cancelled';
+          pendingDrawOffer.respondedAt = at;
+        }
+
+        game.moves.push(move);
+        this.chargeClock(game, move.playerId, at, true);
 
-    // Check rows
-    for (let row = 0; row < 3; row++) {
-      if (board[row][0] === playerId && board[row][1] === playerId && board[row][2] === playerId) {
-        return { won: true, condition: 'row', position: row };
+        const outcome = rules.evaluate(game, move);
+        if (outcome.status === 'completed') {
+          this.endGame(game, 'completed', outcome.winResult.winnerId, 'line', at);
+          game.winResult = outcome.winResult;
+        } else if (outcome.status === 'draw') {
+          this.endGame(game, 'draw', null, 'board_full', at);
+        } else {
+          this.passTurn(game, move.playerId, at);
+        }
+        break;
+      }
+
+      case 'takeback_requested':
+        game.takebacks.push(structuredClone(event.data.takeback));
+        break;
+
+      case 'takeback_answered': {
+        const takeback = game.takebacks.find(t => t.id === event.data.takebackId)!;
+        takeback.status = event.data.accepted ? 'accepted' : 'declined';
+        takeback.respondedBy = event.actorId;
+        takeback.respondedAt = at;
+
+        const undoneMove = event.data.accepted ? game.moves.pop() : undefined;
+        if (undoneMove) {
+          // The responder was on move, so their thinking time so far is spent
+          if (game.currentPlayerId) {
+            this.chargeClock(game, game.currentPlayerId, at, false);
+          }
+          game.board[undoneMove.row][undoneMove.col] = null;
+          getRuleEngine(game.variant).undo(game);
+          game.currentPlayerId = undoneMove.playerId;
+          game.turnStartedAt = at;
+        }
+        break;
+      }
+
+      case 'game_timed_out': {
+        const loserId = game.currentPlayerId!;
+
+        if (loserId in game.clocks) {
+          game.clocks[loserId] = Math.max(0, game.clocks[loserId] - (at.getTime() - game.turnStartedAt!.getTime()));
+        }
+
+        this.dropOut(game, loserId, 'timeout', at);
+        break;
       }
+
+      case 'game_resigned':
+        this.dropOut(game, event.actorId!, 'resignation', at);
+        break;
+
+      case 'game_force_ended': {
+        const { winnerId } = event.data;
+        this.endGame(game, winnerId ? 'completed' : 'draw', winnerId, 'admin', at);
+        break;
+      }
+
+      case 'game_voided':
+        this.endGame(game, 'voided', null, 'voided', at);
+        break;
+
+      case 'draw_offered':
+        game.drawOffers.push(structuredClone(event.data.drawOffer));
+        break;
+
+      case 'draw_answered': {
+        const drawOffer = game.drawOffers.find(d => d.id === event.data.drawOfferId)!;
+        drawOffer.status = event.data.accepted ? 'accepted' : 'declined';
+        drawOffer.respondedBy = event.actorId;
+        drawOffer.respondedAt = at;
+
+        if (event.data.accepted) {
+          this.endGame(game, 'draw', null, 'agreed_draw', at);
+        }
+        break;
+      }
+
+      case 'spectator_joined':
+        game.spectators.push(structuredClone(event.data.spectator));
+        break;
+
+      case 'spectator_left':
+        game.spectators = game.spectators.filter(s => s.playerId !== event.actorId);
+        break;
+
+      case 'game_deleted':
+        // Recorded for the log; archiving the game is up to the caller
+        break;
+    }
+
+    game.version = event.sequence;
+    game.updatedAt = at;
+  }
+
+  /**
+   * The takeback request awaiting a response, if any
+   */
+  private getPendingTakeback(game: Game): Takeback | undefined {
+    return game.takebacks.find(takeback => takeback.status === 'pending');
+  }
+
+  /**
+   * The draw offer awaiting a response, if any
+   */
+  private getPendingDrawOffer(game: Game): DrawOffer | undefined {
+    return game.drawOffers.find(drawOffer => drawOffer.status === 'pending');
+  }
+
+  /**
+   * The players who have not yet finished, in seat order
+   */
+  private getPlayersStillIn(game: Game): PublicPlayer[] {
+    return game.players.filter(p => !(p.id in game.placements));
+  }
+
+  /**
+   * Hand the turn to the next player in seat order who is still in the game
+   */
+  private passTurn(game: Game, fromPlayerId: string, now: Date): void {
+    const seat = game.players.findIndex(p => p.id === fromPlayerId);
+
+    for (let offset = 1; offset <= game.players.length; offset++) {
+      const next = game.players[(seat + offset) % game.players.length];
+      if (!(next.id in game.placements)) {
+        game.currentPlayerId = next.id;
+        break;
+      }
+    }
+    game.turnStartedAt = now;
+  }
+
+  /**
+   * Take a player out of the game, placing them behind everyone still in. Play
+   * goes on while two or more remain; otherwise the last one left wins.
+   */
+  private dropOut(game: Game, playerId: string, endReason: GameEndReason, now: Date): void {
+    const stillIn = this.getPlayersStillIn(game);
+    const remaining = stillIn.filter(p => p.id !== playerId);
+    game.placements[playerId] = stillIn.length;
+
+    if (remaining.length > 1) {
+      if (game.currentPlayerId === playerId) {
+        this.passTurn(game, playerId, now);
+      }
+      return;
     }
 
-    // Check columns
-    for (let col = 0; col < 3; col++) {
-      if (board[0][col] === playerId && board[1][col] === playerId && board[2][col] === playerId) {
-        return { won: true, condition: 'column', position: col };
+    this.endGame(game, 'completed', remaining.length === 1 ? remaining[0].id : null, endReason, now);
+  }
+
+  /**
+   * Finish the game, stopping the clock and closing any open takeback or draw offer.
+   * Players still in share first place, or second behind the winner.
+   */
+  private endGame(
+    game: Game,
+    status: 'completed' | 'draw' | 'voided',
+    winnerId: string | null,
+    endReason: GameEndReason,
+    now: Date
+  ): void {
+    game.status = status;
+    game.winnerId = winnerId;
+    game.endReason = endReason;
+    // Set by the caller when the game was won on the board
+    game.winResult = null;
+    game.turnStartedAt = null;
+    game.updatedAt = now;
+
+    if (status === 'voided') {
+      game.placements = {};
+    } else {
+      for (const player of this.getPlayersStillIn(game)) {
+        game.placements[player.id] = winnerId === null || player.id === winnerId ? 1 : 2;
       }
     }
 
-    // Check diagonals
-    if (board[0][0] === playerId && board[1][1] === playerId && board[2][2] === playerId) {
-      return { won: true, condition: 'diagonal', position: 0 };
+    for (const request of [this.getPendingTakeback(game), this.getPendingDrawOffer(game)]) {
+      if (request) {
+        request.status = 'cancelled';
+        request.respondedAt = now;
+      }
     }
+  }
 
-    if (board[0][2] === playerId && board[1][1] === playerId && board[2][0] === playerId) {
-      return { won: true, condition: 'diagonal', position: 1 };
+  /**
+   * Start the first turn and fill each player's total clock
+   */
+  private startClocks(game: Game, now: Date): void {
+    if (!game.timeControl) {
+      return;
     }
 
-    return { won: false };
+    const { initialTimeMs } = game.timeControl;
+    if (initialTimeMs !== null) {
+      game.clocks = Object.fromEntries(game.players.map(p => [p.id, initialTimeMs]));
+    }
+    game.turnStartedAt = now;
   }
 
   /**
-   * Check if the game is a draw
+   * Deduct the time a player spent on their turn, adding the increment after a move
    */
-  private isDraw(board: GameBoard): boolean {
-    // TODO: Implement draw condition checking
-    for (let row = 0; row < 3; row++) {
-      for (let col = 0; col < 3; col++) {
-        if (board[row][col] === null) {
-          return false;
-        }
+  private chargeClock(game: Game, playerId: string, now: Date, addIncrement: boolean): void {
+    if (!game.timeControl || !game.turnStartedAt || !(playerId in game.clocks)) {
+      return;
+    }
+
+    const elapsed = now.getTime() - game.turnStartedAt.getTime();
+    const increment = addIncrement ? game.timeControl.incrementMs : 0;
+    game.clocks[playerId] = Math.max(0, game.clocks[playerId] - elapsed) + increment;
+  }
+
+  /**
+   * Validate requested time control settings
+   */
+  private resolveTimeControl(timeControl: Partial<TimeControl>): TimeControl {
+    const moveTimeLimitMs = timeControl.moveTimeLimitMs ?? null;
+    const initialTimeMs = timeControl.initialTimeMs ?? null;
+    const incrementMs = timeControl.incrementMs ?? 0;
+
+    if (moveTimeLimitMs === null && initialTimeMs === null) {
+      throw new ValidationError('Time control must set moveTimeLimitMs, initialTimeMs or both', 'INVALID_TIME_CONTROL');
+    }
+
+    for (const [field, value] of [['moveTimeLimitMs', moveTimeLimitMs], ['initialTimeMs', initialTimeMs]] as const) {
+      if (value !== null && (!Number.isInteger(value) || value < MIN_TIME_LIMIT_MS || value > MAX_TIME_LIMIT_MS)) {
+        throw new ValidationError(
+          `Time control ${field} must be an integer between ${MIN_TIME_LIMIT_MS} and ${MAX_TIME_LIMIT_MS}`,
+          'INVALID_TIME_CONTROL'
+        );
       }
     }
-    return true;
+
+    if (!Number.isInteger(incrementMs) || incrementMs < 0 || incrementMs > MAX_TIME_LIMIT_MS) {
+      throw new ValidationError(`Time control incrementMs must be an integer between 0 and ${MAX_TIME_LIMIT_MS}`, 'INVALID_TIME_CONTROL');
+    }
+
+    if (incrementMs > 0 && initialTimeMs === null) {
+      throw new ValidationError('Time control incrementMs requires initialTimeMs', 'INVALID_TIME_CONTROL');
+    }
+
+    return { moveTimeLimitMs, initialTimeMs, incrementMs };
   }
 
   /**
-   * Get valid moves for a player
+   * Apply defaults to requested board options and validate them
    */
-  getValidMoves(board: GameBoard): Array<{ row: number; col: number }> {
-    // TODO: Implement valid moves calculation
-    const validMoves: Array<{ row: number; col: number }> = [];
-    
-    for (let row = 0; row < 3; row++) {
-      for (let col = 0; col < 3; col++) {
-        if (board[row][col] === null) {
-          validMoves.push({ row, col });
-        }
+  resolveBoardOptions(options: Partial<BoardOptions>): BoardOptions {
+    const rows = options.rows ?? DEFAULT_BOARD_OPTIONS.rows;
+    const cols = options.cols ?? DEFAULT_BOARD_OPTIONS.cols;
+
+    for (const [field, value] of [['rows', rows], ['cols', cols]] as const) {
+      if (!Number.isInteger(value) || value < MIN_BOARD_SIZE || value > MAX_BOARD_SIZE) {
+        throw new ValidationError(`Board ${field} must be an integer between ${MIN_BOARD_SIZE} and ${MAX_BOARD_SIZE}`, 'INVALID_BOARD');
+      }
+    }
+
+    // A line can run along the longer side, so that bounds the win length
+    const maxWinLength = Math.max(rows, cols);
+    const winLength = options.winLength ?? Math.min(DEFAULT_BOARD_OPTIONS.winLength, maxWinLength);
+
+    if (!Number.isInteger(winLength) || winLength < MIN_BOARD_SIZE || winLength > maxWinLength) {
+      throw new ValidationError(`Win length must be an integer between ${MIN_BOARD_SIZE} and ${maxWinLength}`, 'INVALID_BOARD');
+    }
+
+    return { rows, cols, winLength };
+  }
+
+  /**
+   * Check the number of seats; three or more players need the standard rules and
+   * room on the board for everyone
+   */
+  private validateMaxPlayers(maxPlayers: number, variant: GameVariant, rows: number, cols: number): void {
+    if (!Number.isInteger(maxPlayers) || maxPlayers < MIN_PLAYERS || maxPlayers > MAX_PLAYERS) {
+      throw new ValidationError(`Max players must be an integer between ${MIN_PLAYERS} and ${MAX_PLAYERS}`, 'INVALID_MAX_PLAYERS');
+    }
+
+    if (maxPlayers === MIN_PLAYERS) {
+      return;
+    }
+
+    if (variant !== 'standard') {
+      throw new ValidationError('Only standard games can have more than two players', 'INVALID_MAX_PLAYERS');
+    }
+
+    const minSize = maxPlayers + 1;
+    if (rows < minSize || cols < minSize) {
+      throw new ValidationError(`A ${maxPlayers}-player game needs a board of at least ${minSize}x${minSize}`, 'INVALID_MAX_PLAYERS');
+    }
+  }
+
+  /**
+   * Check that requested board options, if any, match the board a variant is always played on
+   */
+  private resolveFixedBoardOptions(variant: GameVariant, fixedBoard: BoardOptions, options: Partial<BoardOptions>): BoardOptions {
+    for (const field of ['rows', 'cols', 'winLength'] as const) {
+      if (options[field] !== undefined && options[field] !== fixedBoard[field]) {
+        throw new ValidationError(
+          `${variant} games are played on a ${fixedBoard.rows}x${fixedBoard.cols} board with ${fixedBoard.winLength} in a row`,
+          'INVALID_BOARD'
+        );
       }
     }
-    
-    return validMoves;
+
+    return fixedBoard;
+  }
+
+  /**
+   * Check whether a cell lies on the game's board
+   */
+  private isOnBoard(game: Game, row: number, col: number): boolean {
+    return Number.isInteger(row) && Number.isInteger(col) &&
+      row >= 0 && row < game.rows && col >= 0 && col < game.cols;
+  }
+
+  /**
+   * Get valid moves for a player
+   */
+  getValidMoves(game: Game): Array<{ row: number; col: number }> {
+    return getRuleEngine(game.variant).getValidMoves(game);
   }
 
   /**
@@ -294,7 +1147,7 @@ export class GameModel {
     // TODO: Implement game statistics calculation
     const game = await this.getGameById(gameId);
     if (!game) {
-      throw new Error('Game not found');
+      throw new GameNotFoundError();
     }
 
     const totalMoves = game.moves.length;
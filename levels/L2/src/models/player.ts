@@ -1,9 +1,47 @@
-import { Player, PlayerStats } from '../types';
+import {
+  Player,
+  PlayerCredentials,
+  ListPlayersOptions,
+  PlayerRole,
+  PlayerSortField,
+  PlayerStats,
+  BotDifficulty,
+  GameResult,
+  PlayerRating,
+  RatingHistoryEntry,
+} from '../types';
 import { v4 as uuidv4 } from 'uuid';
+import { PlayerRepository, getPlayerRepository } from '../repositories';
+import { createInitialRating } from '../utils/rating';
+import { leaderboardCache } from '../utils/cache';
+import { KeyedLock } from '../utils/keyedLock';
+import { BadRequestError, EmailInUseError, PlayerNotFoundError, ReservedEmailError, ValidationError } from '../errors';
+
+export const PLAYER_ROLES: PlayerRole[] = ['player', 'admin'];
+export const PLAYER_SORT_FIELDS: PlayerSortField[] = ['name', 'createdAt', 'gamesWon', 'winRate', 'rating'];
+
+// Bot accounts live at this domain, so nobody can register an address there
+export const BOT_EMAIL_DOMAIN = 'bots.local';
+
+// Held while a bot is looked up and, on first use, created
+const botCreationLock = new KeyedLock();
+
+// Ascending comparators; listPlayers flips them for descending order
+const PLAYER_COMPARATORS: Record<PlayerSortField, (a: Player, b: Player) => number> = {
+  name: (a, b) => a.name.localeCompare(b.name),
+  createdAt: (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+  gamesWon: (a, b) => a.stats.gamesWon - b.stats.gamesWon,
+  winRate: (a, b) => a.stats.winRate - b.stats.winRate,
+  rating: (a, b) => a.rating.rating - b.rating.rating,
+};
 
 export class PlayerModel {
-  // In-memory storage for L2 candidates (no database setup required)
-  private players: Map<string, Player> = new Map();
+  // Storage backend (SQLite or in-memory), see repositories/index.ts
+  private repository: PlayerRepository;
+
+  constructor(repository: PlayerRepository = getPlayerRepository()) {
+    this.repository = repository;
+  }
 
   // TODO: Add proper error handling for player operations
   // TODO: Add input validation for all methods
@@ -11,31 +49,93 @@ export class PlayerModel {
   /**
    * Create a new player
    */
-  async createPlayer(name: string, email: string): Promise<Player> {
-    // TODO: Validate input parameters
-    // TODO: Check for duplicate email
-    // TODO: Validate email format
+  async createPlayer(name: string, email: string, role: PlayerRole = 'player'): Promise<Player> {
+    if (!name || typeof name !== 'string' || name.trim().length === 0) {
+      throw new ValidationError('Player name must be a non-empty string');
+    }
+
+    if (!email || typeof email !== 'string' || !this.isValidEmail(email.trim())) {
+      throw new ValidationError('Valid email address is required');
+    }
+
+    if (this.isReservedEmail(email)) {
+      throw new ReservedEmailError();
+    }
+
+    // Players log in by email, so it must identify exactly one of them
+    if (await this.getPlayerByEmail(email)) {
+      throw new EmailInUseError();
+    }
 
     const player: Player = {
       id: uuidv4(),
       name: name.trim(),
       email: email.toLowerCase().trim(),
+      type: 'human',
+      role,
       stats: this.createEmptyStats(),
+      rating: createInitialRating(),
+      ...this.createCleanRecord(),
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
-    this.players.set(player.id, player);
+    await this.repository.save(player);
     return player;
   }
 
+  /**
+   * Get the shared bot player for a difficulty, creating it on first use
+   */
+  async getOrCreateBotPlayer(difficulty: BotDifficulty): Promise<Player> {
+    return botCreationLock.run(difficulty, async () => {
+      const existingBot = await this.repository.findBot(difficulty);
+      if (existingBot) {
+        return existingBot;
+      }
+
+      try {
+        return await this.createBotPlayer(difficulty);
+      } catch (error) {
+        // Another process created it first; the unique index on bot difficulty turned this one away
+        const createdBot = await this.repository.findBot(difficulty);
+        if (createdBot) {
+          return createdBot;
+        }
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Store a new bot player for a difficulty
+   */
+  private async createBotPlayer(difficulty: BotDifficulty): Promise<Player> {
+    const bot: Player = {
+      id: uuidv4(),
+      name: `Bot (${difficulty})`,
+      email: `bot-${difficulty}@${BOT_EMAIL_DOMAIN}`,
+      type: 'bot',
+      role: 'player',
+      botDifficulty: difficulty,
+      stats: this.createEmptyStats(),
+      rating: createInitialRating(),
+      ...this.createCleanRecord(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    await this.repository.save(bot);
+    return bot;
+  }
+
   /**
    * Get a player by ID
    */
   async getPlayerById(playerId: string): Promise<Player | null> {
     // TODO: Add input validation
 
-    return this.players.get(playerId) || null;
+    return this.repository.findById(playerId);
   }
 
   /**
@@ -45,14 +145,32 @@ export class PlayerModel {
     // TODO: Add input validation
 
     const normalizedEmail = email.toLowerCase().trim();
-    
-    for (const player of this.players.values()) {
-      if (player.email === normalizedEmail) {
-        return player;
-      }
+    return this.repository.findByEmail(normalizedEmail);
+  }
+
+  /**
+   * Get the stored password and API key hashes for a player
+   */
+  async getCredentials(playerId: string): Promise<PlayerCredentials | null> {
+    return this.repository.findCredentials(playerId);
+  }
+
+  /**
+   * Replace a player's password and API key hashes
+   */
+  async setCredentials(
+    playerId: string,
+    hashes: Pick<PlayerCredentials, 'passwordHash' | 'apiKeyHash'>
+  ): Promise<PlayerCredentials> {
+    const player = await this.getPlayerById(playerId);
+    if (!player) {
+      throw new PlayerNotFoundError();
     }
 
-    return null;
+    const credentials: PlayerCredentials = { playerId, ...hashes, updatedAt: new Date() };
+    await this.repository.saveCredentials(credentials);
+
+    return credentials;
   }
 
   /**
@@ -64,7 +182,7 @@ export class PlayerModel {
 
     const player = await this.getPlayerById(playerId);
     if (!player) {
-      throw new Error('Player not found');
+      throw new PlayerNotFoundError();
     }
 
     // TODO: Update stats
@@ -76,19 +194,22 @@ export class PlayerModel {
     player.stats.averageMovesPerWin = this.calculateAverageMovesPerWin(player.stats);
     
     player.updatedAt = new Date();
-    this.players.set(playerId, player);
+    await this.repository.save(player);
+
+    // Covers recordGameResult and revertGameResult, which both land here
+    leaderboardCache.clear();
 
     return player;
   }
 
   /**
-   * Record a game result for a player
+   * Record a game result for a player, with their finishing place in games of three or more players
    */
-  async recordGameResult(playerId: string, result: 'win' | 'loss' | 'draw', moves: number): Promise<Player> {
+  async recordGameResult(playerId: string, result: GameResult, moves: number, placement?: number): Promise<Player> {
     // TODO: Implement game result recording
     const player = await this.getPlayerById(playerId);
     if (!player) {
-      throw new Error('Player not found');
+      throw new PlayerNotFoundError();
     }
 
     const stats = { ...player.stats };
@@ -107,9 +228,172 @@ export class PlayerModel {
         break;
     }
 
+    if (placement !== undefined) {
+      stats.placements = [...stats.placements];
+      for (let place = stats.placements.length; place < placement; place++) {
+        stats.placements.push(0);
+      }
+      stats.placements[placement - 1]++;
+    }
+
     return this.updatePlayerStats(playerId, stats);
   }
 
+  /**
+   * Take back a game result recorded with recordGameResult
+   */
+  async revertGameResult(playerId: string, result: GameResult, moves: number, placement?: number): Promise<Player> {
+    const player = await this.getPlayerById(playerId);
+    if (!player) {
+      throw new PlayerNotFoundError();
+    }
+
+    const stats = { ...player.stats };
+    stats.gamesPlayed = Math.max(0, stats.gamesPlayed - 1);
+    stats.totalMoves = Math.max(0, stats.totalMoves - moves);
+
+    switch (result) {
+      case 'win':
+        stats.gamesWon = Math.max(0, stats.gamesWon - 1);
+        break;
+      case 'loss':
+        stats.gamesLost = Math.max(0, stats.gamesLost - 1);
+        break;
+      case 'draw':
+        stats.gamesDrawn = Math.max(0, stats.gamesDrawn - 1);
+        break;
+    }
+
+    if (placement !== undefined && stats.placements[placement - 1] > 0) {
+      stats.placements = [...stats.placements];
+      stats.placements[placement - 1]--;
+    }
+
+    return this.updatePlayerStats(playerId, stats);
+  }
+
+  /**
+   * Record the outcome of a finished series for a player
+   */
+  async recordSeriesResult(playerId: string, won: boolean): Promise<Player> {
+    const player = await this.getPlayerById(playerId);
+    if (!player) {
+      throw new PlayerNotFoundError();
+    }
+
+    const stats = { ...player.stats };
+    stats.seriesPlayed++;
+    if (won) {
+      stats.seriesWon++;
+    } else {
+      stats.seriesLost++;
+    }
+
+    return this.updatePlayerStats(playerId, stats);
+  }
+
+  /**
+   * Take back a series result, when the game that decided it is voided
+   */
+  async revertSeriesResult(playerId: string, won: boolean): Promise<Player> {
+    const player = await this.getPlayerById(playerId);
+    if (!player) {
+      throw new PlayerNotFoundError();
+    }
+
+    const stats = { ...player.stats };
+    stats.seriesPlayed = Math.max(0, stats.seriesPlayed - 1);
+    if (won) {
+      stats.seriesWon = Math.max(0, stats.seriesWon - 1);
+    } else {
+      stats.seriesLost = Math.max(0, stats.seriesLost - 1);
+    }
+
+    return this.updatePlayerStats(playerId, stats);
+  }
+
+  /**
+   * Store a player's new rating after a game and add it to their rating history
+   */
+  async recordRatingChange(
+    playerId: string,
+    change: { gameId: string; opponentId: string; result: GameResult; rating: PlayerRating }
+  ): Promise<Player> {
+    const player = await this.getPlayerById(playerId);
+    if (!player) {
+      throw new PlayerNotFoundError();
+    }
+
+    const previousRating = player.rating.rating;
+    player.rating = { ...change.rating };
+    player.updatedAt = new Date();
+    await this.repository.save(player);
+
+    await this.repository.addRatingHistory({
+      id: uuidv4(),
+      playerId,
+      gameId: change.gameId,
+      opponentId: change.opponentId,
+      result: change.result,
+      rating: change.rating.rating,
+      deviation: change.rating.deviation,
+      volatility: change.rating.volatility,
+      ratingChange: change.rating.rating - previousRating,
+      recordedAt: player.updatedAt,
+    });
+    leaderboardCache.clear();
+
+    return player;
+  }
+
+  /**
+   * Undo the rating change a game made, e.g. when an admin voids it.
+   *
+   * If it was the player's latest rated game the previous rating is restored
+   * exactly; otherwise later games were rated from it, so only the points it
+   * gained or lost are taken back.
+   */
+  async revertRatingChange(playerId: string, gameId: string): Promise<Player> {
+    const player = await this.getPlayerById(playerId);
+    if (!player) {
+      throw new PlayerNotFoundError();
+    }
+
+    const history = await this.repository.findRatingHistory(playerId);
+    const index = history.findIndex(entry => entry.gameId === gameId);
+    if (index === -1) {
+      return player;
+    }
+
+    if (index === history.length - 1) {
+      const previous = history[index - 1];
+      player.rating = previous
+        ? { rating: previous.rating, deviation: previous.deviation, volatility: previous.volatility }
+        : createInitialRating();
+    } else {
+      player.rating = { ...player.rating, rating: player.rating.rating - history[index].ratingChange };
+    }
+
+    player.updatedAt = new Date();
+    await this.repository.save(player);
+    await this.repository.deleteRatingHistory(playerId, gameId);
+    leaderboardCache.clear();
+
+    return player;
+  }
+
+  /**
+   * Get a player's rating after each rated game, oldest first
+   */
+  async getRatingHistory(playerId: string): Promise<RatingHistoryEntry[]> {
+    const player = await this.getPlayerById(playerId);
+    if (!player) {
+      throw new PlayerNotFoundError();
+    }
+
+    return this.repository.findRatingHistory(playerId);
+  }
+
   /**
    * Get all players
    */
@@ -117,24 +401,52 @@ export class PlayerModel {
     // TODO: Add filtering options
     // TODO: Add sorting options
 
-    return Array.from(this.players.values()).sort((a, b) => 
+    const players = await this.repository.findAll();
+    return players.sort((a, b) => 
       b.stats.gamesWon - a.stats.gamesWon || 
       b.stats.efficiency - a.stats.efficiency
     );
   }
 
+  /**
+   * Get one page of players in the given order, plus how many there are in total
+   */
+  async listPlayers(options: ListPlayersOptions = {}): Promise<{ players: Player[]; total: number }> {
+    const { sortBy = 'createdAt', order = 'desc', limit, offset = 0 } = options;
+
+    if (!PLAYER_SORT_FIELDS.includes(sortBy)) {
+      throw new ValidationError(`Sort field must be one of: ${PLAYER_SORT_FIELDS.join(', ')}`);
+    }
+    if (limit !== undefined && (limit < 1 || limit > 100)) {
+      throw new ValidationError('Limit must be between 1 and 100');
+    }
+    if (offset < 0) {
+      throw new ValidationError('Offset must be non-negative');
+    }
+
+    const compare = PLAYER_COMPARATORS[sortBy];
+    const direction = order === 'asc' ? 1 : -1;
+
+    // Ties fall back to id so pages never overlap or skip a player
+    const allPlayers = await this.repository.findAll();
+    const players = allPlayers.sort((a, b) => direction * compare(a, b) || a.id.localeCompare(b.id));
+
+    return {
+      players: players.slice(offset, limit !== undefined ? offset + limit : undefined),
+      total: players.length,
+    };
+  }
+
   /**
    * Get players by win count (for leaderboard)
    */
   async getPlayersByWinCount(limit: number = 10): Promise<Player[]> {
-    // TODO: Add pagination support
-    // TODO: Add caching for leaderboard
-
     if (limit < 1 || limit > 100) {
-      throw new Error('Limit must be between 1 and 100');
+      throw new ValidationError('Limit must be between 1 and 100');
     }
 
-    const players = Array.from(this.players.values())
+    const allPlayers = await this.repository.findAll();
+    const players = allPlayers
       .filter(player => player.stats.gamesPlayed > 0)
       .sort((a, b) => b.stats.gamesWon - a.stats.gamesWon)
       .slice(0, limit);
@@ -142,18 +454,33 @@ export class PlayerModel {
     return players;
   }
 
+  /**
+   * Get players by rating (for leaderboard)
+   */
+  async getPlayersByRating(limit: number = 10): Promise<Player[]> {
+    if (limit < 1 || limit > 100) {
+      throw new ValidationError('Limit must be between 1 and 100');
+    }
+
+    const allPlayers = await this.repository.findAll();
+    const players = allPlayers
+      .filter(player => player.stats.gamesPlayed > 0)
+      .sort((a, b) => b.rating.rating - a.rating.rating || a.rating.deviation - b.rating.deviation)
+      .slice(0, limit);
+
+    return players;
+  }
+
   /**
    * Get players by efficiency (for leaderboard)
    */
   async getPlayersByEfficiency(limit: number = 10): Promise<Player[]> {
-    // TODO: Add pagination support
-    // TODO: Add caching for leaderboard
-
     if (limit < 1 || limit > 100) {
-      throw new Error('Limit must be between 1 and 100');
+      throw new ValidationError('Limit must be between 1 and 100');
     }
 
-    const players = Array.from(this.players.values())
+    const allPlayers = await this.repository.findAll();
+    const players = allPlayers
       .filter(player => player.stats.gamesPlayed > 0)
       .sort((a, b) => b.stats.efficiency - a.stats.efficiency)
       .slice(0, limit);
@@ -167,37 +494,176 @@ export class PlayerModel {
   async updatePlayer(playerId: string, updates: Partial<Pick<Player, 'name' | 'email'>>): Promise<Player> {
     // TODO: Implement player information update
     if (!playerId || !updates) {
-      throw new Error('Player ID and updates are required');
+      throw new ValidationError('Player ID and updates are required');
     }
 
     const player = await this.getPlayerById(playerId);
     if (!player) {
-      throw new Error('Player not found');
+      throw new PlayerNotFoundError();
     }
 
     if (updates.name !== undefined) {
       if (!updates.name || typeof updates.name !== 'string' || updates.name.trim().length === 0) {
-        throw new Error('Player name must be a non-empty string');
+        throw new ValidationError('Player name must be a non-empty string');
       }
       player.name = updates.name.trim();
     }
 
     if (updates.email !== undefined) {
       if (!updates.email || typeof updates.email !== 'string' || !this.isValidEmail(updates.email)) {
-        throw new Error('Valid email address is required');
+        throw new ValidationError('Valid email address is required');
+      }
+
+      if (this.isReservedEmail(updates.email)) {
+        throw new ReservedEmailError();
       }
 
       const normalizedEmail = updates.email.toLowerCase().trim();
       const existingPlayer = await this.getPlayerByEmail(normalizedEmail);
       if (existingPlayer && existingPlayer.id !== playerId) {
-        throw new Error('Email is already in use by another player');
+        throw new EmailInUseError();
       }
 
       player.email = normalizedEmail;
     }
 
     player.updatedAt = new Date();
-    this.players.set(playerId, player);
+    await this.repository.save(player);
+
+    // Leaderboard entries carry the player's name
+    leaderboardCache.clear();
+
+    return player;
+  }
+
+  /**
+   * Ban a player from joining games; banning also closes any open flag
+   */
+  async banPlayer(playerId: string, reason: string): Promise<Player> {
+    if (!reason || typeof reason !== 'string' || reason.trim().length === 0) {
+      throw new ValidationError('Ban reason is required');
+    }
+
+    const player = await this.getPlayerById(playerId);
+    if (!player) {
+      throw new PlayerNotFoundError();
+    }
+
+    if (player.type === 'bot') {
+      throw new BadRequestError('Bots cannot be banned', 'BOT_NOT_ALLOWED');
+    }
+
+    if (player.bannedAt) {
+      throw new BadRequestError('Player is already banned', 'ALREADY_BANNED');
+    }
+
+    player.bannedAt = new Date();
+    player.banReason = reason.trim();
+    player.flaggedAt = null;
+    player.flagReason = null;
+    player.updatedAt = new Date();
+    await this.repository.save(player);
+
+    return player;
+  }
+
+  /**
+   * Lift a ban
+   */
+  async unbanPlayer(playerId: string): Promise<Player> {
+    const player = await this.getPlayerById(playerId);
+    if (!player) {
+      throw new PlayerNotFoundError();
+    }
+
+    if (!player.bannedAt) {
+      throw new BadRequestError('Player is not banned', 'NOT_BANNED');
+    }
+
+    player.bannedAt = null;
+    player.banReason = null;
+    player.updatedAt = new Date();
+    await this.repository.save(player);
+
+    return player;
+  }
+
+  /**
+   * Flag a player for admin review
+   */
+  async flagPlayer(playerId: string, reason: string): Promise<Player> {
+    if (!reason || typeof reason !== 'string' || reason.trim().length === 0) {
+      throw new ValidationError('Flag reason is required');
+    }
+
+    const player = await this.getPlayerById(playerId);
+    if (!player) {
+      throw new PlayerNotFoundError();
+    }
+
+    if (player.flaggedAt) {
+      throw new BadRequestError('Player is already flagged for review', 'ALREADY_FLAGGED');
+    }
+
+    player.flaggedAt = new Date();
+    player.flagReason = reason.trim();
+    player.updatedAt = new Date();
+    await this.repository.save(player);
+
+    return player;
+  }
+
+  /**
+   * Close a flag after review without banning the player
+   */
+  async clearFlag(playerId: string): Promise<Player> {
+    const player = await this.getPlayerById(playerId);
+    if (!player) {
+      throw new PlayerNotFoundError();
+    }
+
+    if (!player.flaggedAt) {
+      throw new BadRequestError('Player is not flagged', 'NOT_FLAGGED');
+    }
+
+    player.flaggedAt = null;
+    player.flagReason = null;
+    player.updatedAt = new Date();
+    await this.repository.save(player);
+
+    return player;
+  }
+
+  /**
+   * Get players awaiting review, oldest flag first
+   */
+  async getFlaggedPlayers(): Promise<Player[]> {
+    const players = await this.repository.findAll();
+    return players
+      .filter(player => player.flaggedAt !== null)
+      .sort((a, b) => a.flaggedAt!.getTime() - b.flaggedAt!.getTime());
+  }
+
+  /**
+   * Change a player's role
+   */
+  async setRole(playerId: string, role: PlayerRole): Promise<Player> {
+    if (!PLAYER_ROLES.includes(role)) {
+      throw new ValidationError(`Role must be one of: ${PLAYER_ROLES.join(', ')}`);
+    }
+
+    const player = await this.getPlayerById(playerId);
+    if (!player) {
+      throw new PlayerNotFoundError();
+    }
+
+    if (player.type === 'bot' && role === 'admin') {
+      throw new BadRequestError('Bots cannot be admins', 'BOT_NOT_ALLOWED');
+    }
+
+    player.role = role;
+    player.updatedAt = new Date();
+    await this.repository.save(player);
 
     return player;
   }
@@ -206,15 +672,16 @@ export class PlayerModel {
    * Delete a player
    */
   async deletePlayer(playerId: string): Promise<void> {
-    // TODO: Add authorization check
-    // TODO: Check if player has active games
+    // Callers are authorized by the route (the player themselves, or an admin);
+    // GameService.deletePlayer refuses players still in an unfinished game
 
     const player = await this.getPlayerById(playerId);
     if (!player) {
-      throw new Error('Player not found');
+      throw new PlayerNotFoundError();
     }
 
-    this.players.delete(playerId);
+    await this.repository.delete(playerId);
+    leaderboardCache.clear();
   }
 
   /**
@@ -223,7 +690,7 @@ export class PlayerModel {
   async getPlayerStats(playerId: string): Promise<PlayerStats> {
     const player = await this.getPlayerById(playerId);
     if (!player) {
-      throw new Error('Player not found');
+      throw new PlayerNotFoundError();
     }
 
     return player.stats;
@@ -237,15 +704,16 @@ export class PlayerModel {
     // TODO: Add pagination support
 
     if (!query || typeof query !== 'string') {
-      throw new Error('Search query must be a valid string');
+      throw new ValidationError('Search query must be a valid string');
     }
 
     if (limit < 1 || limit > 100) {
-      throw new Error('Limit must be between 1 and 100');
+      throw new ValidationError('Limit must be between 1 and 100');
     }
 
     const normalizedQuery = query.toLowerCase().trim();
-    const players = Array.from(this.players.values())
+    const allPlayers = await this.repository.findAll();
+    const players = allPlayers
       .filter(player => player.name.toLowerCase().includes(normalizedQuery))
       .sort((a, b) => b.stats.gamesWon - a.stats.gamesWon)
       .slice(0, limit);
@@ -266,9 +734,20 @@ export class PlayerModel {
       averageMovesPerWin: 0,
       winRate: 0,
       efficiency: 0,
+      placements: [],
+      seriesPlayed: 0,
+      seriesWon: 0,
+      seriesLost: 0,
     };
   }
 
+  /**
+   * Moderation fields for a player who has never been banned or flagged
+   */
+  private createCleanRecord(): Pick<Player, 'bannedAt' | 'banReason' | 'flaggedAt' | 'flagReason'> {
+    return { bannedAt: null, banReason: null, flaggedAt: null, flagReason: null };
+  }
+
   /**
    * Validate email format
    */
@@ -278,6 +757,13 @@ export class PlayerModel {
     return emailRegex.test(email);
   }
 
+  /**
+   * Whether an email is at the domain kept for bot accounts
+   */
+  private isReservedEmail(email: string): boolean {
+    return email.toLowerCase().trim().endsWith(`@${BOT_EMAIL_DOMAIN}`);
+  }
+
   /**
    * Calculate win rate
    */
@@ -311,14 +797,15 @@ export class PlayerModel {
   async getPlayerCount(): Promise<number> {
     // TODO: Add caching for count
 
-    return this.players.size;
+    return this.repository.count();
   }
 
   /**
    * Get active players (played at least one game)
    */
   async getActivePlayers(): Promise<Player[]> {
-    return Array.from(this.players.values())
+    const players = await this.repository.findAll();
+    return players
       .filter(player => player.stats.gamesPlayed > 0)
       .sort((a, b) => b.stats.gamesPlayed - a.stats.gamesPlayed);
   }
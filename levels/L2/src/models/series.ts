@@ -0,0 +1,181 @@
+import { BoardOptions, Game, Series } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import { SeriesRepository, getSeriesRepository } from '../repositories';
+import { BadRequestError, ForbiddenError, SeriesNotFoundError, ValidationError } from '../errors';
+
+export const MAX_BEST_OF = 9;
+
+export class SeriesModel {
+  // Storage backend (SQLite or in-memory), see repositories/index.ts
+  private repository: SeriesRepository;
+
+  constructor(repository: SeriesRepository = getSeriesRepository()) {
+    this.repository = repository;
+  }
+
+  /**
+   * Challenge a player to a series; it starts once they accept, and its games are created by GameService
+   */
+  async createSeries(playerIds: [string, string], bestOf: number, boardOptions: BoardOptions): Promise<Series> {
+    if (!Number.isInteger(bestOf) || bestOf < 1 || bestOf > MAX_BEST_OF || bestOf % 2 === 0) {
+      throw new ValidationError(`Best of must be an odd number between 1 and ${MAX_BEST_OF}`, 'INVALID_BEST_OF');
+    }
+
+    if (playerIds[0] === playerIds[1]) {
+      throw new ValidationError('A series needs two different players', 'INVALID_OPPONENT');
+    }
+
+    const now = new Date();
+    const series: Series = {
+      id: uuidv4(),
+      playerIds,
+      bestOf,
+      winsNeeded: Math.ceil(bestOf / 2),
+      boardOptions,
+      gameIds: [],
+      scores: { [playerIds[0]]: 0, [playerIds[1]]: 0 },
+      draws: 0,
+      status: 'pending',
+      winnerId: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.repository.save(series);
+    return series;
+  }
+
+  /**
+   * Accept or decline a pending challenge; only the challenged player may answer.
+   * Accepting makes the series active, so a second answer is refused while its
+   * first game is set up.
+   */
+  async answerChallenge(seriesId: string, playerId: string, accept: boolean): Promise<Series> {
+    const series = await this.repository.findById(seriesId);
+    if (!series) {
+      throw new SeriesNotFoundError();
+    }
+
+    if (series.status !== 'pending') {
+      throw new BadRequestError('Series is not waiting for an answer', 'SERIES_NOT_PENDING');
+    }
+
+    if (series.playerIds[1] !== playerId) {
+      throw new ForbiddenError('Only the challenged player can answer', 'NOT_CHALLENGED_PLAYER');
+    }
+
+    series.status = accept ? 'active' : 'declined';
+    series.updatedAt = new Date();
+
+    await this.repository.save(series);
+    return series;
+  }
+
+  /**
+   * Put an accepted challenge back to pending, when its first game could not be set up
+   */
+  async reopenChallenge(series: Series): Promise<Series> {
+    series.status = 'pending';
+    series.updatedAt = new Date();
+
+    await this.repository.save(series);
+    return series;
+  }
+
+  /**
+   * Get a series by ID
+   */
+  async getSeriesById(seriesId: string): Promise<Series | null> {
+    return this.repository.findById(seriesId);
+  }
+
+  /**
+   * Get every series a player has taken part in, newest first
+   */
+  async getSeriesForPlayer(playerId: string): Promise<Series[]> {
+    return this.repository.findByPlayerId(playerId);
+  }
+
+  /**
+   * The player who opens the next game; the opener alternates from game to game
+   */
+  getNextOpener(series: Series): string {
+    return series.playerIds[series.gameIds.length % 2];
+  }
+
+  /**
+   * Add the game now in play to a series
+   */
+  async addGame(series: Series, gameId: string): Promise<Series> {
+    series.gameIds.push(gameId);
+    series.updatedAt = new Date();
+
+    await this.repository.save(series);
+    return series;
+  }
+
+  /**
+   * Count a finished game towards its series, which ends once a player has
+   * enough wins. Returns null unless it is the game the series is waiting on.
+   */
+  async recordGame(game: Game): Promise<Series | null> {
+    if (!game.seriesId) {
+      return null;
+    }
+
+    const series = await this.repository.findById(game.seriesId);
+    if (!series || series.status !== 'active' || series.gameIds[series.gameIds.length - 1] !== game.id) {
+      return null;
+    }
+
+    // A voided game counts for nobody and is played again
+    if (game.status === 'completed' && game.winnerId) {
+      series.scores[game.winnerId]++;
+      if (series.scores[game.winnerId] >= series.winsNeeded) {
+        series.status = 'completed';
+        series.winnerId = game.winnerId;
+      }
+    } else if (game.status === 'draw') {
+      series.draws++;
+    }
+    series.updatedAt = new Date();
+
+    await this.repository.save(series);
+    return series;
+  }
+
+  /**
+   * Take a finished game that was later voided back off its series score. A
+   * series it had decided is reopened; formerWinnerId is then who had won it.
+   */
+  async revertGame(
+    game: Game,
+    previousResult: Pick<Game, 'status' | 'winnerId'>
+  ): Promise<{ series: Series; formerWinnerId: string | null } | null> {
+    if (!game.seriesId) {
+      return null;
+    }
+
+    const series = await this.repository.findById(game.seriesId);
+    if (!series || series.status === 'pending' || series.status === 'declined' || !series.gameIds.includes(game.id)) {
+      return null;
+    }
+
+    if (previousResult.status === 'completed' && previousResult.winnerId) {
+      series.scores[previousResult.winnerId] = Math.max(0, series.scores[previousResult.winnerId] - 1);
+    } else if (previousResult.status === 'draw') {
+      series.draws = Math.max(0, series.draws - 1);
+    }
+
+    let formerWinnerId: string | null = null;
+    if (series.status === 'completed' && series.winnerId && series.scores[series.winnerId] < series.winsNeeded) {
+      formerWinnerId = series.winnerId;
+      series.status = 'active';
+      series.winnerId = null;
+    }
+    series.updatedAt = new Date();
+
+    await this.repository.save(series);
+    return { series, formerWinnerId };
+  }
+}
@@ -0,0 +1,24 @@
+import { AuditLogEntry } from '../types';
+
+/**
+ * Storage contract for the admin audit log, which is append-only
+ */
+export interface AuditLogRepository {
+  add(entry: AuditLogEntry): Promise<void>;
+  findRecent(limit: number): Promise<AuditLogEntry[]>; // newest first
+}
+
+/**
+ * Array-backed audit log, used by tests and when STORAGE_DRIVER=memory
+ */
+export class InMemoryAuditLogRepository implements AuditLogRepository {
+  private entries: AuditLogEntry[] = [];
+
+  async add(entry: AuditLogEntry): Promise<void> {
+    this.entries.push(entry);
+  }
+
+  async findRecent(limit: number): Promise<AuditLogEntry[]> {
+    return this.entries.slice(-limit).reverse();
+  }
+}
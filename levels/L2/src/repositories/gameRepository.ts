@@ -0,0 +1,104 @@
+import { Game, GameLogEvent, GameStatus } from '../types';
+
+// Which events to read: sequences after `after` up to and including `upTo`, oldest first
+export interface GameEventRange {
+  after?: number;
+  upTo?: number;
+  limit?: number;
+}
+
+/**
+ * Storage contract for games
+ */
+export interface GameRepository {
+  findById(gameId: string): Promise<Game | null>;
+  findAll(status?: GameStatus): Promise<Game[]>;
+  save(game: Game): Promise<void>;
+  // Compare-and-swap: writes the game and appends its event only if the stored
+  // game is still at expectedVersion (0 = not stored yet)
+  saveIfVersion(game: Game, expectedVersion: number, event: GameLogEvent): Promise<boolean>;
+  // Removes the game along with its events and snapshots
+  delete(gameId: string): Promise<void>;
+  // Archived games drop out of findById/findAll but stay readable for replays
+  archive(gameId: string): Promise<void>;
+  findArchivedById(gameId: string): Promise<Game | null>;
+  // The event log outlives archiving
+  findEvents(gameId: string, range?: GameEventRange): Promise<GameLogEvent[]>;
+  saveSnapshot(game: Game): Promise<void>;
+  // Latest snapshot at or before the given version (any version when omitted)
+  findSnapshot(gameId: string, atOrBefore?: number): Promise<Game | null>;
+}
+
+/**
+ * Map-backed game storage, used by tests and when STORAGE_DRIVER=memory.
+ *
+ * Games are copied in and out so that callers never share (and race on) the
+ * stored object, just as with SQLite.
+ */
+export class InMemoryGameRepository implements GameRepository {
+  private games: Map<string, Game> = new Map();
+  private archivedGames: Map<string, Game> = new Map();
+  private events: Map<string, GameLogEvent[]> = new Map();
+  private snapshots: Map<string, Game[]> = new Map();
+
+  async findById(gameId: string): Promise<Game | null> {
+    const game = this.games.get(gameId);
+    return game ? structuredClone(game) : null;
+  }
+
+  async findAll(status?: GameStatus): Promise<Game[]> {
+    const games = Array.from(this.games.values());
+    return (status ? games.filter(game => game.status === status) : games).map(game => structuredClone(game));
+  }
+
+  async save(game: Game): Promise<void> {
+    this.games.set(game.id, structuredClone(game));
+  }
+
+  async saveIfVersion(game: Game, expectedVersion: number, event: GameLogEvent): Promise<boolean> {
+    const stored = this.games.get(game.id);
+    if ((stored ? stored.version : 0) !== expectedVersion) {
+      return false;
+    }
+
+    await this.save(game);
+    this.events.set(game.id, [...(this.events.get(game.id) || []), structuredClone(event)]);
+    return true;
+  }
+
+  async delete(gameId: string): Promise<void> {
+    this.games.delete(gameId);
+    this.events.delete(gameId);
+    this.snapshots.delete(gameId);
+  }
+
+  async archive(gameId: string): Promise<void> {
+    const game = this.games.get(gameId);
+    if (game) {
+      this.archivedGames.set(gameId, game);
+      this.games.delete(gameId);
+    }
+  }
+
+  async findArchivedById(gameId: string): Promise<Game | null> {
+    const game = this.archivedGames.get(gameId);
+    return game ? structuredClone(game) : null;
+  }
+
+  async findEvents(gameId: string, range: GameEventRange = {}): Promise<GameLogEvent[]> {
+    const { after = 0, upTo = Infinity, limit = Infinity } = range;
+    const events = (this.events.get(gameId) || []).filter(event => event.sequence > after && event.sequence <= upTo);
+    return events.slice(0, limit).map(event => structuredClone(event));
+  }
+
+  async saveSnapshot(game: Game): Promise<void> {
+    const snapshots = (this.snapshots.get(game.id) || []).filter(snapshot => snapshot.version !== game.version);
+    snapshots.push(structuredClone(game));
+    this.snapshots.set(game.id, snapshots.sort((a, b) => a.version - b.version));
+  }
+
+  async findSnapshot(gameId: string, atOrBefore: number = Infinity): Promise<Game | null> {
+    const snapshot = (this.snapshots.get(gameId) || []).filter(s => s.version <= atOrBefore).pop();
+    return snapshot ? structuredClone(snapshot) : null;
+  }
+}
@@ -0,0 +1,108 @@
+import { Database } from '../database/connection';
+import { GameRepository, InMemoryGameRepository } from './gameRepository';
+import { PlayerRepository, InMemoryPlayerRepository } from './playerRepository';
+import { AuditLogRepository, InMemoryAuditLogRepository } from './auditLogRepository';
+import { SeriesRepository, InMemorySeriesRepository } from './seriesRepository';
+import { SqliteGameRepository } from './sqliteGameRepository';
+import { SqlitePlayerRepository } from './sqlitePlayerRepository';
+import { SqliteAuditLogRepository } from './sqliteAuditLogRepository';
+import { SqliteSeriesRepository } from './sqliteSeriesRepository';
+
+export type StorageDriver = 'sqlite' | 'memory';
+
+export { GameEventRange, GameRepository, InMemoryGameRepository } from './gameRepository';
+export { PlayerRepository, InMemoryPlayerRepository } from './playerRepository';
+export { AuditLogRepository, InMemoryAuditLogRepository } from './auditLogRepository';
+export { SeriesRepository, InMemorySeriesRepository } from './seriesRepository';
+
+let database: Database | null = null;
+let gameRepository: GameRepository | null = null;
+let playerRepository: PlayerRepository | null = null;
+let auditLogRepository: AuditLogRepository | null = null;
+let seriesRepository: SeriesRepository | null = null;
+
+/**
+ * Storage driver selected by STORAGE_DRIVER (tests default to memory)
+ */
+export function getStorageDriver(): StorageDriver {
+  const driver = process.env.STORAGE_DRIVER || (process.env.NODE_ENV === 'test' ? 'memory' : 'sqlite');
+
+  if (driver !== 'sqlite' && driver !== 'memory') {
+    throw new Error(`Unknown storage driver: ${driver}`);
+  }
+
+  return driver;
+}
+
+/**
+ * Shared SQLite connection, opened on first use
+ */
+export function getDatabase(): Database {
+  if (!database) {
+    database = new Database(process.env.DATABASE_URL || './data/tictactoe.sqlite');
+  }
+  return database;
+}
+
+/**
+ * Shared game repository for the configured driver
+ */
+export function getGameRepository(): GameRepository {
+  if (!gameRepository) {
+    gameRepository =
+      getStorageDriver() === 'sqlite' ? new SqliteGameRepository(getDatabase()) : new InMemoryGameRepository();
+  }
+  return gameRepository;
+}
+
+/**
+ * Shared player repository for the configured driver
+ */
+export function getPlayerRepository(): PlayerRepository {
+  if (!playerRepository) {
+    playerRepository =
+      getStorageDriver() === 'sqlite' ? new SqlitePlayerRepository(getDatabase()) : new InMemoryPlayerRepository();
+  }
+  return playerRepository;
+}
+
+/**
+ * Shared audit log repository for the configured driver
+ */
+export function getAuditLogRepository(): AuditLogRepository {
+  if (!auditLogRepository) {
+    auditLogRepository =
+      getStorageDriver() === 'sqlite' ? new SqliteAuditLogRepository(getDatabase()) : new InMemoryAuditLogRepository();
+  }
+  return auditLogRepository;
+}
+
+/**
+ * Shared series repository for the configured driver
+ */
+export function getSeriesRepository(): SeriesRepository {
+  if (!seriesRepository) {
+    seriesRepository =
+      getStorageDriver() === 'sqlite' ? new SqliteSeriesRepository(getDatabase()) : new InMemorySeriesRepository();
+  }
+  return seriesRepository;
+}
+
+/**
+ * Open storage and create the schema before the server starts accepting requests
+ */
+export async function initializeStorage(): Promise<void> {
+  if (getStorageDriver() === 'sqlite') {
+    await getDatabase().initialize();
+  }
+}
+
+/**
+ * Close the database connection, if one was opened
+ */
+export async function closeStorage(): Promise<void> {
+  if (database) {
+    await database.close();
+    database = null;
+  }
+}
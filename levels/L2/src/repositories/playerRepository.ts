@@ -0,0 +1,93 @@
+import { BotDifficulty, Player, PlayerCredentials, RatingHistoryEntry } from '../types';
+
+/**
+ * Storage contract for players
+ */
+export interface PlayerRepository {
+  findById(playerId: string): Promise<Player | null>;
+  findByEmail(email: string): Promise<Player | null>;
+  findBot(difficulty: BotDifficulty): Promise<Player | null>;
+  findAll(): Promise<Player[]>;
+  save(player: Player): Promise<void>;
+  delete(playerId: string): Promise<void>;
+  count(): Promise<number>;
+  findRatingHistory(playerId: string): Promise<RatingHistoryEntry[]>; // oldest first
+  addRatingHistory(entry: RatingHistoryEntry): Promise<void>;
+  deleteRatingHistory(playerId: string, gameId: string): Promise<void>;
+  findCredentials(playerId: string): Promise<PlayerCredentials | null>;
+  saveCredentials(credentials: PlayerCredentials): Promise<void>;
+}
+
+/**
+ * Map-backed player storage, used by tests and when STORAGE_DRIVER=memory
+ */
+export class InMemoryPlayerRepository implements PlayerRepository {
+  private players: Map<string, Player> = new Map();
+  private ratingHistory: Map<string, RatingHistoryEntry[]> = new Map();
+  private credentials: Map<string, PlayerCredentials> = new Map();
+
+  async findById(playerId: string): Promise<Player | null> {
+    return this.players.get(playerId) || null;
+  }
+
+  async findByEmail(email: string): Promise<Player | null> {
+    for (const player of this.players.values()) {
+      if (player.email === email) {
+        return player;
+      }
+    }
+
+    return null;
+  }
+
+  async findBot(difficulty: BotDifficulty): Promise<Player | null> {
+    for (const player of this.players.values()) {
+      if (player.type === 'bot' && player.botDifficulty === difficulty) {
+        return player;
+      }
+    }
+
+    return null;
+  }
+
+  async findAll(): Promise<Player[]> {
+    return Array.from(this.players.values());
+  }
+
+  async save(player: Player): Promise<void> {
+    this.players.set(player.id, player);
+  }
+
+  async delete(playerId: string): Promise<void> {
+    this.players.delete(playerId);
+    this.ratingHistory.delete(playerId);
+    this.credentials.delete(playerId);
+  }
+
+  async count(): Promise<number> {
+    return this.players.size;
+  }
+
+  async findRatingHistory(playerId: string): Promise<RatingHistoryEntry[]> {
+    return [...(this.ratingHistory.get(playerId) || [])];
+  }
+
+  async addRatingHistory(entry: RatingHistoryEntry): Promise<void> {
+    const entries = this.ratingHistory.get(entry.playerId) || [];
+    entries.push(entry);
+    this.ratingHistory.set(entry.playerId, entries);
+  }
+
+  async deleteRatingHistory(playerId: string, gameId: string): Promise<void> {
+    const entries = this.ratingHistory.get(playerId) || [];
+    this.ratingHistory.set(playerId, entries.filter(entry => entry.gameId !== gameId));
+  }
+
+  async findCredentials(playerId: string): Promise<PlayerCredentials | null> {
+    return this.credentials.get(playerId) || null;
+  }
+
+  async saveCredentials(credentials: PlayerCredentials): Promise<void> {
+    this.credentials.set(credentials.playerId, credentials);
+  }
+}
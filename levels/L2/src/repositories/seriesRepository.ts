@@ -0,0 +1,36 @@
+import { Series } from '../types';
+
+/**
+ * Storage contract for series
+ */
+export interface SeriesRepository {
+  findById(seriesId: string): Promise<Series | null>;
+  findByPlayerId(playerId: string): Promise<Series[]>; // newest first
+  save(series: Series): Promise<void>;
+  delete(seriesId: string): Promise<void>;
+}
+
+/**
+ * Map-backed series storage, used by tests and when STORAGE_DRIVER=memory
+ */
+export class InMemorySeriesRepository implements SeriesRepository {
+  private series: Map<string, Series> = new Map();
+
+  async findById(seriesId: string): Promise<Series | null> {
+    return this.series.get(seriesId) || null;
+  }
+
+  async findByPlayerId(playerId: string): Promise<Series[]> {
+    return Array.from(this.series.values())
+      .filter(series => series.playerIds.includes(playerId))
+      .reverse();
+  }
+
+  async save(series: Series): Promise<void> {
+    this.series.set(series.id, series);
+  }
+
+  async delete(seriesId: string): Promise<void> {
+    this.series.delete(seriesId);
+  }
+}
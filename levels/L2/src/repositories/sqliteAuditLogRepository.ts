@@ -0,0 +1,59 @@
+import { AdminActionType, AuditLogEntry } from '../types';
+import { Database } from '../database/connection';
+import { AuditLogRepository } from './auditLogRepository';
+
+interface AuditLogRow {
+  id: string;
+  admin_id: string;
+  action: AdminActionType;
+  target_type: AuditLogEntry['targetType'];
+  target_id: string;
+  reason: string | null;
+  details: string;
+  created_at: string;
+}
+
+/**
+ * SQLite-backed audit log; details are stored as JSON
+ */
+export class SqliteAuditLogRepository implements AuditLogRepository {
+  constructor(private db: Database) {}
+
+  async add(entry: AuditLogEntry): Promise<void> {
+    await this.db.transaction(() =>
+      this.db.run(
+        `INSERT INTO audit_log (
+          id, admin_id, action, target_type, target_id, reason, details, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          entry.id,
+          entry.adminId,
+          entry.action,
+          entry.targetType,
+          entry.targetId,
+          entry.reason,
+          JSON.stringify(entry.details),
+          entry.createdAt.toISOString(),
+        ]
+      )
+    );
+  }
+
+  async findRecent(limit: number): Promise<AuditLogEntry[]> {
+    const rows = await this.db.all<AuditLogRow>(
+      'SELECT * FROM audit_log ORDER BY created_at DESC, rowid DESC LIMIT ?',
+      [limit]
+    );
+
+    return rows.map(row => ({
+      id: row.id,
+      adminId: row.admin_id,
+      action: row.action,
+      targetType: row.target_type,
+      targetId: row.target_id,
+      reason: row.reason,
+      details: JSON.parse(row.details),
+      createdAt: new Date(row.created_at),
+    }));
+  }
+}
@@ -0,0 +1,498 @@
+import {
+  DrawOffer,
+  DrawOfferStatus,
+  Game,
+  GameEndReason,
+  GameLogEvent,
+  GameStatus,
+  GameVariant,
+  Move,
+  MoveSymbol,
+  PublicPlayer,
+  Spectator,
+  Takeback,
+  TakebackStatus,
+} from '../types';
+import { Database, SqlValue } from '../database/connection';
+import { GameEventRange, GameRepository } from './gameRepository';
+import { PlayerRow, mapPlayerRow } from './sqlitePlayerRepository';
+import { toPublicPlayer } from '../utils/player';
+
+interface GameRow {
+  id: string;
+  name: string;
+  status: GameStatus;
+  board: string;
+  rows: number;
+  cols: number;
+  win_length: number;
+  current_player_id: string | null;
+  winner_id: string | null;
+  time_control: string | null;
+  clocks: string;
+  turn_started_at: string | null;
+  end_reason: GameEndReason | null;
+  win_result: string | null;
+  variant: GameVariant;
+  ultimate: string | null;
+  max_players: number;
+  symbols: string;
+  placements: string;
+  series_id: string | null;
+  version: number;
+  archived_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface GamePlayerRow extends PlayerRow {
+  game_id: string;
+  seated_player: string | null; // JSON of the player as seated; null for seats saved before it was kept
+}
+
+interface MoveRow {
+  id: string;
+  game_id: string;
+  player_id: string;
+  row_index: number;
+  col_index: number;
+  symbol: MoveSymbol | null;
+  timestamp: string;
+}
+
+interface TakebackRow {
+  id: string;
+  game_id: string;
+  move_id: string;
+  requested_by: string;
+  requested_at: string;
+  status: TakebackStatus;
+  responded_by: string | null;
+  responded_at: string | null;
+}
+
+interface SpectatorRow {
+  game_id: string;
+  player_id: string;
+  joined_at: string;
+}
+
+interface DrawOfferRow {
+  id: string;
+  game_id: string;
+  offered_by: string;
+  offered_at: string;
+  status: DrawOfferStatus;
+  responded_by: string | null;
+  responded_at: string | null;
+}
+
+interface GameEventRow {
+  id: string;
+  game_id: string;
+  sequence: number;
+  type: GameLogEvent['type'];
+  actor_id: string | null;
+  data: string;
+  occurred_at: string;
+}
+
+// Event data and snapshots are stored as JSON; these fields come back as Dates
+const DATE_FIELDS = new Set([
+  'createdAt',
+  'updatedAt',
+  'timestamp',
+  'requestedAt',
+  'respondedAt',
+  'offeredAt',
+  'joinedAt',
+  'turnStartedAt',
+  'bannedAt',
+  'flaggedAt',
+]);
+
+const reviveDates = (key: string, value: unknown): unknown =>
+  DATE_FIELDS.has(key) && typeof value === 'string' ? new Date(value) : value;
+
+/**
+ * SQLite-backed game storage.
+ *
+ * A game is split across `games`, `game_players` (seat order), `moves`,
+ * `takebacks`, `draw_offers` and `game_spectators` (keyed by game id); the
+ * board, time control and clocks are stored as JSON. Each seat keeps the
+ * player as they were seated, so a game's history outlives its players.
+ *
+ * Every change is also appended to `game_events` in the same transaction, with
+ * a full copy of the game in `game_snapshots` now and then.
+ */
+export class SqliteGameRepository implements GameRepository {
+  constructor(private db: Database) {}
+
+  async findById(gameId: string): Promise<Game | null> {
+    const row = await this.db.get<GameRow>('SELECT * FROM games WHERE id = ? AND archived_at IS NULL', [gameId]);
+    if (!row) {
+      return null;
+    }
+
+    const [game] = await this.hydrate([row]);
+    return game;
+  }
+
+  async findAll(status?: GameStatus): Promise<Game[]> {
+    const rows = status
+      ? await this.db.all<GameRow>(
+        'SELECT * FROM games WHERE status = ? AND archived_at IS NULL ORDER BY created_at DESC',
+        [status]
+      )
+      : await this.db.all<GameRow>('SELECT * FROM games WHERE archived_at IS NULL ORDER BY created_at DESC');
+
+    return this.hydrate(rows);
+  }
+
+  async findArchivedById(gameId: string): Promise<Game | null> {
+    const row = await this.db.get<GameRow>('SELECT * FROM games WHERE id = ? AND archived_at IS NOT NULL', [gameId]);
+    if (!row) {
+      return null;
+    }
+
+    const [game] = await this.hydrate([row]);
+    return game;
+  }
+
+  async save(game: Game): Promise<void> {
+    await this.db.transaction(() => this.write(game));
+  }
+
+  async saveIfVersion(game: Game, expectedVersion: number, event: GameLogEvent): Promise<boolean> {
+    return this.db.transaction(async () => {
+      // Inside BEGIN IMMEDIATE, so no other writer can slip in between the check and the write
+      const row = await this.db.get<Pick<GameRow, 'version'>>(
+        'SELECT version FROM games WHERE id = ? AND archived_at IS NULL',
+        [game.id]
+      );
+      if ((row ? row.version : 0) !== expectedVersion) {
+        return false;
+      }
+
+      await this.write(game);
+      await this.db.run(
+        `INSERT INTO game_events (id, game_id, sequence, type, actor_id, data, occurred_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          event.id,
+          event.gameId,
+          event.sequence,
+          event.type,
+          event.actorId,
+          JSON.stringify(event.data),
+          event.occurredAt.toISOString(),
+        ]
+      );
+      return true;
+    });
+  }
+
+  async delete(gameId: string): Promise<void> {
+    await this.db.transaction(async () => {
+      await this.db.run('DELETE FROM game_events WHERE game_id = ?', [gameId]);
+      await this.db.run('DELETE FROM game_snapshots WHERE game_id = ?', [gameId]);
+      await this.db.run('DELETE FROM games WHERE id = ?', [gameId]);
+    });
+  }
+
+  async archive(gameId: string): Promise<void> {
+    await this.db.transaction(() =>
+      this.db.run('UPDATE games SET archived_at = ? WHERE id = ? AND archived_at IS NULL', [
+        new Date().toISOString(),
+        gameId,
+      ])
+    );
+  }
+
+  async findEvents(gameId: string, range: GameEventRange = {}): Promise<GameLogEvent[]> {
+    const { after = 0, upTo, limit } = range;
+    const rows = await this.db.all<GameEventRow>(
+      `SELECT * FROM game_events
+      WHERE game_id = ? AND sequence > ? AND sequence <= ?
+      ORDER BY sequence
+      LIMIT ?`,
+      [gameId, after, upTo ?? Number.MAX_SAFE_INTEGER, limit ?? -1]
+    );
+
+    return rows.map(row => ({
+      id: row.id,
+      gameId: row.game_id,
+      sequence: row.sequence,
+      type: row.type,
+      actorId: row.actor_id,
+      data: JSON.parse(row.data, reviveDates),
+      occurredAt: new Date(row.occurred_at),
+    }) as GameLogEvent);
+  }
+
+  async saveSnapshot(game: Game): Promise<void> {
+    await this.db.transaction(() =>
+      this.db.run('INSERT OR REPLACE INTO game_snapshots (game_id, version, state) VALUES (?, ?, ?)', [
+        game.id,
+        game.version,
+        JSON.stringify(game),
+      ])
+    );
+  }
+
+  async findSnapshot(gameId: string, atOrBefore?: number): Promise<Game | null> {
+    const row = await this.db.get<{ state: string }>(
+      'SELECT state FROM game_snapshots WHERE game_id = ? AND version <= ? ORDER BY version DESC LIMIT 1',
+      [gameId, atOrBefore ?? Number.MAX_SAFE_INTEGER]
+    );
+
+    return row ? JSON.parse(row.state, reviveDates) : null;
+  }
+
+  /**
+   * Write every part of a game; callers wrap this in a transaction
+   */
+  private async write(game: Game): Promise<void> {
+    await this.db.run(
+      `INSERT INTO games (
+        id, name, status, board, rows, cols, win_length, current_player_id, winner_id,
+        time_control, clocks, turn_started_at, end_reason, win_result, variant, ultimate,
+        max_players, symbols, placements, series_id, version, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET
+        name = excluded.name,
+        status = excluded.status,
+        board = excluded.board,
+        current_player_id = excluded.current_player_id,
+        winner_id = excluded.winner_id,
+        clocks = excluded.clocks,
+        turn_started_at = excluded.turn_started_at,
+        end_reason = excluded.end_reason,
+        win_result = excluded.win_result,
+        ultimate = excluded.ultimate,
+        symbols = excluded.symbols,
+        placements = excluded.placements,
+        version = excluded.version,
+        updated_at = excluded.updated_at`,
+      [
+        game.id,
+        game.name,
+        game.status,
+        JSON.stringify(game.board),
+        game.rows,
+        game.cols,
+        game.winLength,
+        game.currentPlayerId,
+        game.winnerId,
+        game.timeControl ? JSON.stringify(game.timeControl) : null,
+        JSON.stringify(game.clocks),
+        game.turnStartedAt ? game.turnStartedAt.toISOString() : null,
+        game.endReason,
+        game.winResult ? JSON.stringify(game.winResult) : null,
+        game.variant,
+        game.ultimate ? JSON.stringify(game.ultimate) : null,
+        game.maxPlayers,
+        JSON.stringify(game.symbols),
+        JSON.stringify(game.placements),
+        game.seriesId,
+        game.version,
+        game.createdAt.toISOString(),
+        game.updatedAt.toISOString(),
+      ]
+    );
+
+    await this.db.run('DELETE FROM game_players WHERE game_id = ?', [game.id]);
+    for (const [seat, player] of game.players.entries()) {
+      await this.db.run('INSERT INTO game_players (game_id, player_id, seat, player) VALUES (?, ?, ?, ?)', [
+        game.id,
+        player.id,
+        seat,
+        JSON.stringify(toPublicPlayer(player)),
+      ]);
+    }
+
+    await this.db.run('DELETE FROM moves WHERE game_id = ?', [game.id]);
+    for (const [moveNumber, move] of game.moves.entries()) {
+      await this.db.run(
+        `INSERT INTO moves (id, game_id, player_id, move_number, row_index, col_index, symbol, timestamp)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [move.id, game.id, move.playerId, moveNumber, move.row, move.col, move.symbol ?? null, move.timestamp.toISOString()]
+      );
+    }
+
+    await this.db.run('DELETE FROM takebacks WHERE game_id = ?', [game.id]);
+    for (const [requestNumber, takeback] of game.takebacks.entries()) {
+      await this.db.run(
+        `INSERT INTO takebacks (
+          id, game_id, request_number, move_id, requested_by, requested_at, status, responded_by, responded_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          takeback.id,
+          game.id,
+          requestNumber,
+          takeback.moveId,
+          takeback.requestedBy,
+          takeback.requestedAt.toISOString(),
+          takeback.status,
+          takeback.respondedBy,
+          takeback.respondedAt ? takeback.respondedAt.toISOString() : null,
+        ]
+      );
+    }
+
+    await this.db.run('DELETE FROM draw_offers WHERE game_id = ?', [game.id]);
+    for (const [offerNumber, drawOffer] of game.drawOffers.entries()) {
+      await this.db.run(
+        `INSERT INTO draw_offers (
+          id, game_id, offer_number, offered_by, offered_at, status, responded_by, responded_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          drawOffer.id,
+          game.id,
+          offerNumber,
+          drawOffer.offeredBy,
+          drawOffer.offeredAt.toISOString(),
+          drawOffer.status,
+          drawOffer.respondedBy,
+          drawOffer.respondedAt ? drawOffer.respondedAt.toISOString() : null,
+        ]
+      );
+    }
+
+    await this.db.run('DELETE FROM game_spectators WHERE game_id = ?', [game.id]);
+    for (const spectator of game.spectators) {
+      await this.db.run('INSERT INTO game_spectators (game_id, player_id, joined_at) VALUES (?, ?, ?)', [
+        game.id,
+        spectator.playerId,
+        spectator.joinedAt.toISOString(),
+      ]);
+    }
+  }
+
+  /**
+   * Load players, moves, takebacks, draw offers and spectators for a batch of game rows
+   */
+  private async hydrate(rows: GameRow[]): Promise<Game[]> {
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const ids: SqlValue[] = rows.map(row => row.id);
+    const placeholders = ids.map(() => '?').join(', ');
+
+    const [playerRows, moveRows, takebackRows, drawOfferRows, spectatorRows] = await Promise.all([
+      this.db.all<GamePlayerRow>(
+        `SELECT gp.game_id, gp.player AS seated_player, p.* FROM game_players gp
+        LEFT JOIN players p ON p.id = gp.player_id
+        WHERE gp.game_id IN (${placeholders})
+        ORDER BY gp.game_id, gp.seat`,
+        ids
+      ),
+      this.db.all<MoveRow>(
+        `SELECT * FROM moves WHERE game_id IN (${placeholders}) ORDER BY game_id, move_number`,
+        ids
+      ),
+      this.db.all<TakebackRow>(
+        `SELECT * FROM takebacks WHERE game_id IN (${placeholders}) ORDER BY game_id, request_number`,
+        ids
+      ),
+      this.db.all<DrawOfferRow>(
+        `SELECT * FROM draw_offers WHERE game_id IN (${placeholders}) ORDER BY game_id, offer_number`,
+        ids
+      ),
+      this.db.all<SpectatorRow>(
+        `SELECT * FROM game_spectators WHERE game_id IN (${placeholders}) ORDER BY game_id, joined_at`,
+        ids
+      ),
+    ]);
+
+    const playersByGame = new Map<string, PublicPlayer[]>();
+    for (const row of playerRows) {
+      const players = playersByGame.get(row.game_id) || [];
+      players.push(row.seated_player ? JSON.parse(row.seated_player, reviveDates) : toPublicPlayer(mapPlayerRow(row)));
+      playersByGame.set(row.game_id, players);
+    }
+
+    const movesByGame = new Map<string, Move[]>();
+    for (const row of moveRows) {
+      const moves = movesByGame.get(row.game_id) || [];
+      moves.push({
+        id: row.id,
+        gameId: row.game_id,
+        playerId: row.player_id,
+        row: row.row_index,
+        col: row.col_index,
+        ...(row.symbol ? { symbol: row.symbol } : {}),
+        timestamp: new Date(row.timestamp),
+      });
+      movesByGame.set(row.game_id, moves);
+    }
+
+    const takebacksByGame = new Map<string, Takeback[]>();
+    for (const row of takebackRows) {
+      const takebacks = takebacksByGame.get(row.game_id) || [];
+      takebacks.push({
+        id: row.id,
+        moveId: row.move_id,
+        requestedBy: row.requested_by,
+        requestedAt: new Date(row.requested_at),
+        status: row.status,
+        respondedBy: row.responded_by,
+        respondedAt: row.responded_at ? new Date(row.responded_at) : null,
+      });
+      takebacksByGame.set(row.game_id, takebacks);
+    }
+
+    const drawOffersByGame = new Map<string, DrawOffer[]>();
+    for (const row of drawOfferRows) {
+      const drawOffers = drawOffersByGame.get(row.game_id) || [];
+      drawOffers.push({
+        id: row.id,
+        offeredBy: row.offered_by,
+        offeredAt: new Date(row.offered_at),
+        status: row.status,
+        respondedBy: row.responded_by,
+        respondedAt: row.responded_at ? new Date(row.responded_at) : null,
+      });
+      drawOffersByGame.set(row.game_id, drawOffers);
+    }
+
+    const spectatorsByGame = new Map<string, Spectator[]>();
+    for (const row of spectatorRows) {
+      const spectators = spectatorsByGame.get(row.game_id) || [];
+      spectators.push({ playerId: row.player_id, joinedAt: new Date(row.joined_at) });
+      spectatorsByGame.set(row.game_id, spectators);
+    }
+
+    return rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      status: row.status,
+      board: JSON.parse(row.board),
+      rows: row.rows,
+      cols: row.cols,
+      winLength: row.win_length,
+      players: playersByGame.get(row.id) || [],
+      currentPlayerId: row.current_player_id,
+      winnerId: row.winner_id,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      moves: movesByGame.get(row.id) || [],
+      takebacks: takebacksByGame.get(row.id) || [],
+      drawOffers: drawOffersByGame.get(row.id) || [],
+      timeControl: row.time_control ? JSON.parse(row.time_control) : null,
+      clocks: JSON.parse(row.clocks),
+      turnStartedAt: row.turn_started_at ? new Date(row.turn_started_at) : null,
+      endReason: row.end_reason,
+      winResult: row.win_result ? JSON.parse(row.win_result) : null,
+      variant: row.variant,
+      ultimate: row.ultimate ? JSON.parse(row.ultimate) : null,
+      maxPlayers: row.max_players,
+      symbols: JSON.parse(row.symbols),
+      placements: JSON.parse(row.placements),
+      seriesId: row.series_id,
+      spectators: spectatorsByGame.get(row.id) || [],
+      version: row.version,
+    }));
+  }
+}
@@ -0,0 +1,279 @@
+import { BotDifficulty, GameResult, Player, PlayerCredentials, PlayerRole, PlayerType, RatingHistoryEntry } from '../types';
+import { Database } from '../database/connection';
+import { PlayerRepository } from './playerRepository';
+
+export interface PlayerRow {
+  id: string;
+  name: string;
+  email: string;
+  type: PlayerType;
+  role: PlayerRole;
+  bot_difficulty: BotDifficulty | null;
+  games_played: number;
+  games_won: number;
+  games_lost: number;
+  games_drawn: number;
+  total_moves: number;
+  average_moves_per_win: number;
+  win_rate: number;
+  efficiency: number;
+  placements: string;
+  series_played: number;
+  series_won: number;
+  series_lost: number;
+  rating: number;
+  rating_deviation: number;
+  rating_volatility: number;
+  banned_at: string | null;
+  ban_reason: string | null;
+  flagged_at: string | null;
+  flag_reason: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface RatingHistoryRow {
+  id: string;
+  player_id: string;
+  game_id: string;
+  opponent_id: string;
+  result: GameResult;
+  rating: number;
+  deviation: number;
+  volatility: number;
+  rating_change: number;
+  recorded_at: string;
+}
+
+interface CredentialsRow {
+  player_id: string;
+  password_hash: string | null;
+  api_key_hash: string | null;
+  updated_at: string;
+}
+
+/**
+ * Map a `players` row to the domain object
+ */
+export function mapPlayerRow(row: PlayerRow): Player {
+  return {
+    id: row.id,
+    name: row.name,
+    email: row.email,
+    type: row.type,
+    role: row.role,
+    ...(row.bot_difficulty ? { botDifficulty: row.bot_difficulty } : {}),
+    stats: {
+      gamesPlayed: row.games_played,
+      gamesWon: row.games_won,
+      gamesLost: row.games_lost,
+      gamesDrawn: row.games_drawn,
+      totalMoves: row.total_moves,
+      averageMovesPerWin: row.average_moves_per_win,
+      winRate: row.win_rate,
+      efficiency: row.efficiency,
+      placements: JSON.parse(row.placements),
+      seriesPlayed: row.series_played,
+      seriesWon: row.series_won,
+      seriesLost: row.series_lost,
+    },
+    rating: {
+      rating: row.rating,
+      deviation: row.rating_deviation,
+      volatility: row.rating_volatility,
+    },
+    bannedAt: row.banned_at ? new Date(row.banned_at) : null,
+    banReason: row.ban_reason,
+    flaggedAt: row.flagged_at ? new Date(row.flagged_at) : null,
+    flagReason: row.flag_reason,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+/**
+ * SQLite-backed player storage
+ */
+export class SqlitePlayerRepository implements PlayerRepository {
+  constructor(private db: Database) {}
+
+  async findById(playerId: string): Promise<Player | null> {
+    const row = await this.db.get<PlayerRow>('SELECT * FROM players WHERE id = ?', [playerId]);
+    return row ? mapPlayerRow(row) : null;
+  }
+
+  async findByEmail(email: string): Promise<Player | null> {
+    const row = await this.db.get<PlayerRow>('SELECT * FROM players WHERE email = ?', [email]);
+    return row ? mapPlayerRow(row) : null;
+  }
+
+  async findBot(difficulty: BotDifficulty): Promise<Player | null> {
+    const row = await this.db.get<PlayerRow>(
+      "SELECT * FROM players WHERE type = 'bot' AND bot_difficulty = ?",
+      [difficulty]
+    );
+    return row ? mapPlayerRow(row) : null;
+  }
+
+  async findAll(): Promise<Player[]> {
+    const rows = await this.db.all<PlayerRow>('SELECT * FROM players ORDER BY created_at');
+    return rows.map(mapPlayerRow);
+  }
+
+  async save(player: Player): Promise<void> {
+    const { stats, rating } = player;
+
+    await this.db.transaction(() =>
+      this.db.run(
+        `INSERT INTO players (
+          id, name, email, type, role, bot_difficulty, games_played, games_won, games_lost, games_drawn, total_moves,
+          average_moves_per_win, win_rate, efficiency, placements, series_played, series_won, series_lost,
+          rating, rating_deviation, rating_volatility, banned_at, ban_reason, flagged_at, flag_reason, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET
+          name = excluded.name,
+          email = excluded.email,
+          role = excluded.role,
+          games_played = excluded.games_played,
+          games_won = excluded.games_won,
+          games_lost = excluded.games_lost,
+          games_drawn = excluded.games_drawn,
+          total_moves = excluded.total_moves,
+          average_moves_per_win = excluded.average_moves_per_win,
+          win_rate = excluded.win_rate,
+          efficiency = excluded.efficiency,
+          placements = excluded.placements,
+          series_played = excluded.series_played,
+          series_won = excluded.series_won,
+          series_lost = excluded.series_lost,
+          rating = excluded.rating,
+          rating_deviation = excluded.rating_deviation,
+          rating_volatility = excluded.rating_volatility,
+          banned_at = excluded.banned_at,
+          ban_reason = excluded.ban_reason,
+          flagged_at = excluded.flagged_at,
+          flag_reason = excluded.flag_reason,
+          updated_at = excluded.updated_at`,
+        [
+          player.id,
+          player.name,
+          player.email,
+          player.type,
+          player.role,
+          player.botDifficulty ?? null,
+          stats.gamesPlayed,
+          stats.gamesWon,
+          stats.gamesLost,
+          stats.gamesDrawn,
+          stats.totalMoves,
+          stats.averageMovesPerWin,
+          stats.winRate,
+          stats.efficiency,
+          JSON.stringify(stats.placements),
+          stats.seriesPlayed,
+          stats.seriesWon,
+          stats.seriesLost,
+          rating.rating,
+          rating.deviation,
+          rating.volatility,
+          player.bannedAt ? player.bannedAt.toISOString() : null,
+          player.banReason,
+          player.flaggedAt ? player.flaggedAt.toISOString() : null,
+          player.flagReason,
+          player.createdAt.toISOString(),
+          player.updatedAt.toISOString(),
+        ]
+      )
+    );
+  }
+
+  async delete(playerId: string): Promise<void> {
+    await this.db.transaction(() => this.db.run('DELETE FROM players WHERE id = ?', [playerId]));
+  }
+
+  async count(): Promise<number> {
+    const row = await this.db.get<{ count: number }>('SELECT COUNT(*) AS count FROM players');
+    return row ? row.count : 0;
+  }
+
+  async findRatingHistory(playerId: string): Promise<RatingHistoryEntry[]> {
+    const rows = await this.db.all<RatingHistoryRow>(
+      'SELECT * FROM rating_history WHERE player_id = ? ORDER BY recorded_at, rowid',
+      [playerId]
+    );
+
+    return rows.map(row => ({
+      id: row.id,
+      playerId: row.player_id,
+      gameId: row.game_id,
+      opponentId: row.opponent_id,
+      result: row.result,
+      rating: row.rating,
+      deviation: row.deviation,
+      volatility: row.volatility,
+      ratingChange: row.rating_change,
+      recordedAt: new Date(row.recorded_at),
+    }));
+  }
+
+  async addRatingHistory(entry: RatingHistoryEntry): Promise<void> {
+    await this.db.transaction(() =>
+      this.db.run(
+        `INSERT INTO rating_history (
+          id, player_id, game_id, opponent_id, result, rating, deviation, volatility, rating_change, recorded_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          entry.id,
+          entry.playerId,
+          entry.gameId,
+          entry.opponentId,
+          entry.result,
+          entry.rating,
+          entry.deviation,
+          entry.volatility,
+          entry.ratingChange,
+          entry.recordedAt.toISOString(),
+        ]
+      )
+    );
+  }
+
+  async deleteRatingHistory(playerId: string, gameId: string): Promise<void> {
+    await this.db.transaction(() =>
+      this.db.run('DELETE FROM rating_history WHERE player_id = ? AND game_id = ?', [playerId, gameId])
+    );
+  }
+
+  async findCredentials(playerId: string): Promise<PlayerCredentials | null> {
+    const row = await this.db.get<CredentialsRow>('SELECT * FROM player_credentials WHERE player_id = ?', [playerId]);
+    if (!row) {
+      return null;
+    }
+
+    return {
+      playerId: row.player_id,
+      passwordHash: row.password_hash,
+      apiKeyHash: row.api_key_hash,
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  async saveCredentials(credentials: PlayerCredentials): Promise<void> {
+    await this.db.transaction(() =>
+      this.db.run(
+        `INSERT INTO player_credentials (player_id, password_hash, api_key_hash, updated_at)
+        VALUES (?, ?, ?, ?)
+        ON CONFLICT (player_id) DO UPDATE SET
+          password_hash = excluded.password_hash,
+          api_key_hash = excluded.api_key_hash,
+          updated_at = excluded.updated_at`,
+        [
+          credentials.playerId,
+          credentials.passwordHash,
+          credentials.apiKeyHash,
+          credentials.updatedAt.toISOString(),
+        ]
+      )
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { Series, SeriesStatus } from '../types';
+import { Database } from '../database/connection';
+import { SeriesRepository } from './seriesRepository';
+
+interface SeriesRow {
+  id: string;
+  player_ids: string;
+  best_of: number;
+  wins_needed: number;
+  board_options: string;
+  game_ids: string;
+  scores: string;
+  draws: number;
+  status: SeriesStatus;
+  winner_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * SQLite-backed series storage; players, board, games and scores are stored as JSON
+ */
+export class SqliteSeriesRepository implements SeriesRepository {
+  constructor(private db: Database) {}
+
+  async findById(seriesId: string): Promise<Series | null> {
+    const row = await this.db.get<SeriesRow>('SELECT * FROM series WHERE id = ?', [seriesId]);
+    return row ? this.mapRow(row) : null;
+  }
+
+  async findByPlayerId(playerId: string): Promise<Series[]> {
+    const rows = await this.db.all<SeriesRow>(
+      `SELECT series.* FROM series, json_each(series.player_ids)
+      WHERE json_each.value = ?
+      ORDER BY series.created_at DESC, series.rowid DESC`,
+      [playerId]
+    );
+    return rows.map(row => this.mapRow(row));
+  }
+
+  async save(series: Series): Promise<void> {
+    await this.db.transaction(() =>
+      this.db.run(
+        `INSERT INTO series (
+          id, player_ids, best_of, wins_needed, board_options, game_ids, scores, draws, status, winner_id,
+          created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET
+          game_ids = excluded.game_ids,
+          scores = excluded.scores,
+          draws = excluded.draws,
+          status = excluded.status,
+          winner_id = excluded.winner_id,
+          updated_at = excluded.updated_at`,
+        [
+          series.id,
+          JSON.stringify(series.playerIds),
+          series.bestOf,
+          series.winsNeeded,
+          JSON.stringify(series.boardOptions),
+          JSON.stringify(series.gameIds),
+          JSON.stringify(series.scores),
+          series.draws,
+          series.status,
+          series.winnerId,
+          series.createdAt.toISOString(),
+          series.updatedAt.toISOString(),
+        ]
+      )
+    );
+  }
+
+  async delete(seriesId: string): Promise<void> {
+    await this.db.transaction(() => this.db.run('DELETE FROM series WHERE id = ?', [seriesId]));
+  }
+
+  private mapRow(row: SeriesRow): Series {
+    return {
+      id: row.id,
+      playerIds: JSON.parse(row.player_ids),
+      bestOf: row.best_of,
+      winsNeeded: row.wins_needed,
+      boardOptions: JSON.parse(row.board_options),
+      gameIds: JSON.parse(row.game_ids),
+      scores: JSON.parse(row.scores),
+      draws: row.draws,
+      status: row.status,
+      winnerId: row.winner_id,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
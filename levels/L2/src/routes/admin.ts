@@ -0,0 +1,176 @@
+import { Router, Request, Response } from 'express';
+import { AdminService } from '../services/adminService';
+import { requireAuth, requireRole } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { LimitQuery, validationMiddleware } from '../middleware/validation';
+import {
+  BanPlayerRequest,
+  EndGameRequest,
+  GetAuditLogResponse,
+  SetRoleRequest,
+  VoidGameRequest,
+} from '../types';
+
+const router = Router();
+const adminService = new AdminService();
+
+// Every admin route needs an admin's bearer token
+router.use(requireAuth, requireRole('admin'));
+
+/**
+ * POST /admin/games/:id/end
+ * Force-end an active game with a winner, or as a draw when winnerId is omitted
+ */
+router.post('/games/:id/end',
+  validationMiddleware.validateEndGame,
+  asyncHandler(async (req: Request<{ id: string }, {}, EndGameRequest>, res: Response) => {
+    const { id } = req.params;
+    const { winnerId = null, reason = null } = req.body;
+
+    const game = await adminService.endGame(req.player!.id, id, winnerId, reason);
+
+    res.status(200).json({
+      game,
+      message: 'Game ended by admin'
+    });
+  })
+);
+
+/**
+ * POST /admin/games/:id/void
+ * Void a started game; any stats and ratings it produced are reverted
+ */
+router.post('/games/:id/void',
+  validationMiddleware.validateAdminAction,
+  asyncHandler(async (req: Request<{ id: string }, {}, VoidGameRequest>, res: Response) => {
+    const { id } = req.params;
+    const { reason = null } = req.body;
+
+    const game = await adminService.voidGame(req.player!.id, id, reason);
+
+    res.status(200).json({
+      game,
+      message: 'Game voided'
+    });
+  })
+);
+
+/**
+ * GET /admin/players/flagged
+ * List players flagged for review, oldest flag first
+ */
+router.get('/players/flagged', asyncHandler(async (req: Request, res: Response) => {
+  const players = await adminService.getFlaggedPlayers();
+
+  res.status(200).json({
+    players,
+    count: players.length
+  });
+}));
+
+/**
+ * DELETE /admin/players/:id/flag
+ * Dismiss a player's flag without banning them
+ */
+router.delete('/players/:id/flag',
+  validationMiddleware.validateAdminAction,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const player = await adminService.clearFlag(req.player!.id, id, req.body.reason ?? null);
+
+    res.status(200).json({
+      player,
+      message: 'Flag cleared'
+    });
+  })
+);
+
+/**
+ * POST /admin/players/:id/ban
+ * Ban a player from joining games
+ */
+router.post('/players/:id/ban',
+  validationMiddleware.validateBanPlayer,
+  asyncHandler(async (req: Request<{ id: string }, {}, BanPlayerRequest>, res: Response) => {
+    const { id } = req.params;
+    const { reason } = req.body;
+
+    const player = await adminService.banPlayer(req.player!.id, id, reason);
+
+    res.status(200).json({
+      player,
+      message: 'Player banned'
+    });
+  })
+);
+
+/**
+ * DELETE /admin/players/:id/ban
+ * Lift a player's ban
+ */
+router.delete('/players/:id/ban',
+  validationMiddleware.validateAdminAction,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const player = await adminService.unbanPlayer(req.player!.id, id, req.body.reason ?? null);
+
+    res.status(200).json({
+      player,
+      message: 'Player unbanned'
+    });
+  })
+);
+
+/**
+ * PUT /admin/players/:id/role
+ * Promote a player to admin or demote them
+ */
+router.put('/players/:id/role',
+  validationMiddleware.validateSetRole,
+  asyncHandler(async (req: Request<{ id: string }, {}, SetRoleRequest>, res: Response) => {
+    const { id } = req.params;
+    const { role } = req.body;
+
+    const player = await adminService.setRole(req.player!.id, id, role);
+
+    res.status(200).json({
+      player,
+      message: `Player role set to ${player.role}`
+    });
+  })
+);
+
+/**
+ * DELETE /admin/players/:id
+ * Delete any player's account
+ */
+router.delete('/players/:id',
+  validationMiddleware.validateAdminAction,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    await adminService.deletePlayer(req.player!.id, id, req.body.reason ?? null);
+
+    res.status(200).json({
+      message: 'Player deleted successfully'
+    });
+  })
+);
+
+/**
+ * GET /admin/audit-log
+ * Get the most recent admin actions, newest first
+ */
+router.get('/audit-log', validationMiddleware.validateLimit, asyncHandler(async (req: Request<{}, {}, {}, LimitQuery>, res: Response) => {
+  const { limit } = req.query;
+
+  const response: GetAuditLogResponse = {
+    entries: await adminService.getAuditLog(limit)
+  };
+
+  res.status(200).json(response);
+}));
+
+export { router as adminRoutes };
@@ -0,0 +1,24 @@
+import { Router, Request, Response } from 'express';
+import { AuthService } from '../services/authService';
+import { asyncHandler } from '../middleware/errorHandler';
+import { toPlayerAccount } from '../utils/player';
+import { LoginRequest, LoginResponse } from '../types';
+
+const router = Router();
+const authService = new AuthService();
+
+/**
+ * POST /auth/login
+ * Exchange an email and password or API key for a bearer token
+ */
+router.post('/login', asyncHandler(async (req: Request<{}, {}, LoginRequest>, res: Response) => {
+  const { email, password, apiKey } = req.body;
+
+  const { token, expiresAt, player } = await authService.login(email, { password, apiKey });
+
+  const response: LoginResponse = { token, expiresAt, player: toPlayerAccount(player) };
+
+  res.status(200).json(response);
+}));
+
+export { router as authRoutes };
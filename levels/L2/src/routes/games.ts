@@ -1,12 +1,34 @@
 import { Router, Request, Response } from 'express';
 import { GameService } from '../services/gameService';
-import { PlayerModel } from '../models/player';
-import { validationMiddleware } from '../middleware/validation';
-import { CreateGameRequest, JoinGameRequest, MakeMoveRequest } from '../types';
+import { AdminService } from '../services/adminService';
+import { EventHistoryQuery, ListGamesQuery, validationMiddleware } from '../middleware/validation';
+import { requireAuth, requireRole, requireSelf } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { readIfMatch, setGameEtag } from '../middleware/concurrency';
+import { idempotent } from '../middleware/idempotency';
+import { GameNotFoundError, ValidationError } from '../errors';
+import {
+  CreateGameRequest,
+  JoinGameRequest,
+  MakeMoveRequest,
+  AddBotRequest,
+  RequestTakebackRequest,
+  RespondToTakebackRequest,
+  ResignRequest,
+  OfferDrawRequest,
+  RespondToDrawOfferRequest,
+  SpectateGameRequest,
+  SpectateGameResponse,
+  GetGameHistoryResponse,
+  GetGameVersionResponse,
+} from '../types';
 
 const router = Router();
 const gameService = new GameService();
-const playerModel = new PlayerModel();
+const adminService = new AdminService(gameService);
+
+// Comment lines keep idle event streams open through proxies
+const SSE_HEARTBEAT_INTERVAL_MS = 15000;
 
 /**
  * POST /games
@@ -14,387 +36,480 @@ const playerModel = new PlayerModel();
  */
 router.post('/', 
   validationMiddleware.validateCreateGame,
-  async (req: Request<{}, {}, CreateGameRequest>, res: Response) => {
-    try {
-      const { name } = req.body;
-      
-      const game = await gameService.createGame(name);
-      
-      res.status(201).json({
-        game,
-        message: 'Game created successfully'
-      });
-    } catch (error) {
-      console.error('Error creating game:', error);
-      
-      if (error instanceof Error) {
-        if (error.message.includes('Game name must be')) {
-          return res.status(400).json({
-            error: 'Bad Request',
-            message: error.message
-          });
-        }
-      }
-      
-      res.status(500).json({
-        error: 'Internal server error',
-        message: 'Failed to create game'
-      });
-    }
-  }
+  idempotent,
+  asyncHandler(async (req: Request<{}, {}, CreateGameRequest>, res: Response) => {
+    const { name, rows, cols, winLength, timeControl, variant, maxPlayers } = req.body;
+    
+    const game = await gameService.createGame(name, { rows, cols, winLength }, timeControl || null, variant, maxPlayers);
+    
+    setGameEtag(res, game);
+    res.status(201).json({
+      game,
+      message: 'Game created successfully'
+    });
+  })
 );
 
 /**
  * GET /games/:id
  * Get game by ID
  */
-router.get('/:id', async (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
-    
-    if (!id || typeof id !== 'string') {
-      return res.status(400).json({
-        error: 'Bad Request',
-        message: 'Invalid game ID'
-      });
-    }
-    
-    const game = await gameService.getGameById(id);
-    
-    if (!game) {
-      return res.status(404).json({
-        error: 'Not found',
-        message: 'Game not found'
-      });
-    }
-    
-    res.status(200).json({ game });
-  } catch (error) {
-    console.error('Error getting game:', error);
-    res.status(500).json({
-      error: 'Internal server error',
-      message: 'Failed to get game'
-    });
+router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  
+  if (!id || typeof id !== 'string') {
+    throw new ValidationError('Invalid game ID');
   }
-});
+  
+  const game = await gameService.getGameById(id);
+  
+  if (!game) {
+    throw new GameNotFoundError();
+  }
+  
+  setGameEtag(res, game);
+  res.status(200).json({ game });
+}));
 
 /**
  * GET /games/:id/status
  * Get game status
  */
-router.get('/:id/status', async (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
-    
-    if (!id || typeof id !== 'string') {
-      return res.status(400).json({
-        error: 'Bad Request',
-        message: 'Invalid game ID'
-      });
-    }
-    
-    const status = await gameService.getGameStatus(id);
-    
-    res.status(200).json({ status });
-  } catch (error) {
-    console.error('Error getting game status:', error);
+router.get('/:id/status', asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  
+  if (!id || typeof id !== 'string') {
+    throw new ValidationError('Invalid game ID');
+  }
+  
+  const status = await gameService.getGameStatus(id);
+  
+  res.status(200).json({ status });
+}));
+
+/**
+ * GET /games/:id/events
+ * Stream game events (Server-Sent Events)
+ */
+router.get('/:id/events', asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  
+  const game = await gameService.getGameById(id);
+  
+  if (!game) {
+    throw new GameNotFoundError();
+  }
+  
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+  
+  // Start with the current state so clients don't need a separate status call
+  res.write(`event: snapshot\ndata: ${JSON.stringify({ gameId: id, game, timestamp: new Date() })}\n\n`);
+  
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), SSE_HEARTBEAT_INTERVAL_MS);
+  
+  const unsubscribe = gameService.subscribeToGame(id, event => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
     
-    if (error instanceof Error && error.message.includes('Game not found')) {
-      return res.status(404).json({
-        error: 'Not found',
-        message: 'Game not found'
-      });
+    if (event.type === 'game_deleted') {
+      res.end();
     }
-    
-    res.status(500).json({
-      error: 'Internal server error',
-      message: 'Failed to get game status'
-    });
-  }
-});
+  });
+  
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+}));
 
 /**
  * POST /games/:id/join
- * Join an existing game
+ * Join an existing game as the authenticated player
  */
 router.post('/:id/join',
+  requireAuth,
+  requireSelf(req => req.body.playerId),
   validationMiddleware.validateJoinGame,
-  async (req: Request<{ id: string }, {}, JoinGameRequest>, res: Response) => {
-    try {
-      const { id } = req.params;
-      const { playerId } = req.body;
-      
-      // Get player from database
-      const player = await playerModel.getPlayerById(playerId);
-      if (!player) {
-        return res.status(404).json({
-          error: 'Not found',
-          message: 'Player not found'
-        });
-      }
-      
-      const game = await gameService.joinGame(id, player);
-      
-      res.status(200).json({
-        game,
-        message: 'Successfully joined game'
-      });
-    } catch (error) {
-      console.error('Error joining game:', error);
-      
-      if (error instanceof Error) {
-        if (error.message.includes('not found')) {
-          return res.status(404).json({
-            error: 'Not found',
-            message: error.message
-          });
-        }
-        if (error.message.includes('not accepting') || 
-            error.message.includes('already in') ||
-            error.message.includes('full')) {
-          return res.status(400).json({
-            error: 'Bad Request',
-            message: error.message
-          });
-        }
-      }
-      
-      res.status(500).json({
-        error: 'Internal server error',
-        message: 'Failed to join game'
-      });
-    }
-  }
+  readIfMatch,
+  idempotent,
+  asyncHandler(async (req: Request<{ id: string }, {}, JoinGameRequest>, res: Response) => {
+    const { id } = req.params;
+    
+    const game = await gameService.joinGame(id, req.player!, req.expectedVersion);
+    
+    setGameEtag(res, game);
+    res.status(200).json({
+      game,
+      message: 'Successfully joined game'
+    });
+  })
 );
 
 /**
- * POST /games/:id/moves
- * Make a move in the game
+ * POST /games/:id/bot
+ * Add a bot opponent to a game the authenticated player is seated in
  */
-router.post('/:id/moves',
-  validationMiddleware.validateMakeMove,
-  async (req: Request<{ id: string }, {}, MakeMoveRequest>, res: Response) => {
-    try {
-      const { id } = req.params;
-      const { playerId, row, col } = req.body;
-      
-      const result = await gameService.makeMove(id, playerId, row, col);
-      
-      res.status(200).json({
-        game: result.game,
-        move: result.move,
-        message: 'Move made successfully'
-      });
-    } catch (error) {
-      console.error('Error making move:', error);
-      
-      if (error instanceof Error) {
-        if (error.message.includes('not found')) {
-          return res.status(404).json({
-            error: 'Not found',
-            message: error.message
-          });
-        }
-        if (error.message.includes('not active') ||
-            error.message.includes('Not your turn') ||
-            error.message.includes('already occupied') ||
-            error.message.includes('coordinates must be')) {
-          return res.status(400).json({
-            error: 'Bad Request',
-            message: error.message
-          });
-        }
-      }
-      
-      res.status(500).json({
-        error: 'Internal server error',
-        message: 'Failed to make move'
-      });
-    }
-  }
+router.post('/:id/bot',
+  requireAuth,
+  validationMiddleware.validateAddBot,
+  asyncHandler(async (req: Request<{ id: string }, {}, AddBotRequest>, res: Response) => {
+    const { id } = req.params;
+    const { difficulty = 'medium' } = req.body;
+    
+    const game = await gameService.addBot(id, difficulty, req.player!.id);
+    
+    setGameEtag(res, game);
+    res.status(200).json({
+      game,
+      message: 'Bot joined game'
+    });
+  })
 );
 
 /**
- * GET /games/:id/moves
- * Get valid moves for a game
+ * POST /games/:id/spectate
+ * Watch a game read-only as the authenticated player; follow it live via GET /games/:id/events
  */
-router.get('/:id/moves', async (req: Request, res: Response) => {
-  try {
+router.post('/:id/spectate',
+  requireAuth,
+  requireSelf(req => req.body.playerId),
+  validationMiddleware.validatePlayerAction,
+  asyncHandler(async (req: Request<{ id: string }, {}, SpectateGameRequest>, res: Response) => {
     const { id } = req.params;
     
-    if (!id || typeof id !== 'string') {
-      return res.status(400).json({
-        error: 'Bad Request',
-        message: 'Invalid game ID'
-      });
-    }
+    const { game, spectator } = await gameService.spectateGame(id, req.player!.id);
     
-    const validMoves = await gameService.getValidMoves(id);
+    const response: SpectateGameResponse = {
+      game,
+      spectator,
+      message: 'Now spectating game'
+    };
+    
+    setGameEtag(res, game);
+    res.status(200).json(response);
+  })
+);
+
+/**
+ * DELETE /games/:id/spectate/:playerId
+ * Stop spectating a game
+ */
+router.delete('/:id/spectate/:playerId',
+  requireAuth,
+  requireSelf(req => req.params.playerId),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
     
+    const game = await gameService.leaveSpectating(id, req.player!.id);
+    
+    setGameEtag(res, game);
     res.status(200).json({
-      validMoves,
-      count: validMoves.length
+      game,
+      message: 'Stopped spectating game'
     });
-  } catch (error) {
-    console.error('Error getting valid moves:', error);
+  })
+);
+
+/**
+ * POST /games/:id/moves
+ * Make a move in the game as the authenticated player
+ */
+router.post('/:id/moves',
+  requireAuth,
+  requireSelf(req => req.body.playerId),
+  validationMiddleware.validateMakeMove,
+  readIfMatch,
+  idempotent,
+  asyncHandler(async (req: Request<{ id: string }, {}, MakeMoveRequest>, res: Response) => {
+    const { id } = req.params;
+    const { row, col, symbol } = req.body;
     
-    if (error instanceof Error) {
-      if (error.message.includes('not found')) {
-        return res.status(404).json({
-          error: 'Not found',
-          message: 'Game not found'
-        });
-      }
-      if (error.message.includes('not active')) {
-        return res.status(400).json({
-          error: 'Bad Request',
-          message: 'Game is not active'
-        });
-      }
-    }
+    const result = await gameService.makeMove(id, req.player!.id, row, col, req.expectedVersion, symbol);
     
-    res.status(500).json({
-      error: 'Internal server error',
-      message: 'Failed to get valid moves'
+    setGameEtag(res, result.game);
+    res.status(200).json({
+      game: result.game,
+      move: result.move,
+      botMove: result.botMove,
+      message: 'Move made successfully'
     });
-  }
-});
+  })
+);
 
 /**
- * GET /games/:id/stats
- * Get game statistics
+ * POST /games/:id/takeback
+ * Ask the opponent to undo your last move
  */
-router.get('/:id/stats', async (req: Request, res: Response) => {
-  try {
+router.post('/:id/takeback',
+  requireAuth,
+  requireSelf(req => req.body.playerId),
+  validationMiddleware.validatePlayerAction,
+  readIfMatch,
+  asyncHandler(async (req: Request<{ id: string }, {}, RequestTakebackRequest>, res: Response) => {
     const { id } = req.params;
     
-    if (!id || typeof id !== 'string') {
-      return res.status(400).json({
-        error: 'Bad Request',
-        message: 'Invalid game ID'
-      });
-    }
-    
-    const stats = await gameService.getGameStats(id);
+    const { game, takeback } = await gameService.requestTakeback(id, req.player!.id, req.expectedVersion);
     
-    res.status(200).json({ stats });
-  } catch (error) {
-    console.error('Error getting game stats:', error);
+    setGameEtag(res, game);
+    res.status(201).json({
+      game,
+      takeback,
+      message: 'Takeback requested'
+    });
+  })
+);
+
+/**
+ * POST /games/:id/takeback/response
+ * Accept or decline the opponent's takeback request
+ */
+router.post('/:id/takeback/response',
+  requireAuth,
+  requireSelf(req => req.body.playerId),
+  validationMiddleware.validateAnswer,
+  readIfMatch,
+  asyncHandler(async (req: Request<{ id: string }, {}, RespondToTakebackRequest>, res: Response) => {
+    const { id } = req.params;
+    const { accept } = req.body;
     
-    if (error instanceof Error && error.message.includes('Game not found')) {
-      return res.status(404).json({
-        error: 'Not found',
-        message: 'Game not found'
-      });
-    }
+    const { game, takeback } = await gameService.respondToTakeback(id, req.player!.id, accept, req.expectedVersion);
     
-    res.status(500).json({
-      error: 'Internal server error',
-      message: 'Failed to get game statistics'
+    setGameEtag(res, game);
+    res.status(200).json({
+      game,
+      takeback,
+      message: accept ? 'Takeback accepted' : 'Takeback declined'
     });
-  }
-});
+  })
+);
 
 /**
- * GET /games
- * Get all games with optional filtering
+ * POST /games/:id/resign
+ * Resign the game; the opponent wins
  */
-router.get('/', async (req: Request, res: Response) => {
-  try {
-    const { status } = req.query;
+router.post('/:id/resign',
+  requireAuth,
+  requireSelf(req => req.body.playerId),
+  validationMiddleware.validatePlayerAction,
+  readIfMatch,
+  asyncHandler(async (req: Request<{ id: string }, {}, ResignRequest>, res: Response) => {
+    const { id } = req.params;
     
-    let games;
-    if (status && typeof status === 'string') {
-      games = await gameService.getGamesByStatus(status as any);
-    } else {
-      games = await gameService.getAllGames();
-    }
+    const game = await gameService.resign(id, req.player!.id, req.expectedVersion);
     
+    setGameEtag(res, game);
     res.status(200).json({
-      games,
-      count: games.length
-    });
-  } catch (error) {
-    console.error('Error getting games:', error);
-    res.status(500).json({
-      error: 'Internal server error',
-      message: 'Failed to get games'
+      game,
+      message: 'Game resigned'
     });
-  }
-});
+  })
+);
 
 /**
- * DELETE /games/:id
- * Delete a game
+ * POST /games/:id/draw-offer
+ * Offer the opponent a draw
  */
-router.delete('/:id', async (req: Request, res: Response) => {
-  try {
+router.post('/:id/draw-offer',
+  requireAuth,
+  requireSelf(req => req.body.playerId),
+  validationMiddleware.validatePlayerAction,
+  readIfMatch,
+  asyncHandler(async (req: Request<{ id: string }, {}, OfferDrawRequest>, res: Response) => {
     const { id } = req.params;
     
-    if (!id || typeof id !== 'string') {
-      return res.status(400).json({
-        error: 'Bad Request',
-        message: 'Invalid game ID'
-      });
-    }
+    const { game, drawOffer } = await gameService.offerDraw(id, req.player!.id, req.expectedVersion);
     
-    await gameService.deleteGame(id);
+    setGameEtag(res, game);
+    res.status(201).json({
+      game,
+      drawOffer,
+      message: 'Draw offered'
+    });
+  })
+);
+
+/**
+ * POST /games/:id/draw-response
+ * Accept or decline the opponent's draw offer
+ */
+router.post('/:id/draw-response',
+  requireAuth,
+  requireSelf(req => req.body.playerId),
+  validationMiddleware.validateAnswer,
+  readIfMatch,
+  asyncHandler(async (req: Request<{ id: string }, {}, RespondToDrawOfferRequest>, res: Response) => {
+    const { id } = req.params;
+    const { accept } = req.body;
+    
+    const { game, drawOffer } = await gameService.respondToDrawOffer(id, req.player!.id, accept, req.expectedVersion);
     
+    setGameEtag(res, game);
     res.status(200).json({
-      message: 'Game deleted successfully'
+      game,
+      drawOffer,
+      message: accept ? 'Draw agreed' : 'Draw offer declined'
     });
-  } catch (error) {
-    console.error('Error deleting game:', error);
+  })
+);
+
+/**
+ * GET /games/:id/moves
+ * Get valid moves for a game
+ */
+router.get('/:id/moves', asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  
+  if (!id || typeof id !== 'string') {
+    throw new ValidationError('Invalid game ID');
+  }
+  
+  const validMoves = await gameService.getValidMoves(id);
+  
+  res.status(200).json({
+    validMoves,
+    count: validMoves.length
+  });
+}));
+
+/**
+ * GET /games/:id/replay
+ * Get the board after every ply, for live and deleted (archived) games
+ */
+router.get('/:id/replay', asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  
+  const replay = await gameService.getReplay(id);
+  
+  res.status(200).json({ replay });
+}));
+
+/**
+ * GET /games/:id/replay/:ply
+ * Get the board after a specific ply (0 = empty board)
+ */
+router.get('/:id/replay/:ply', asyncHandler(async (req: Request, res: Response) => {
+  const { id, ply } = req.params;
+  
+  if (!/^\d+$/.test(ply)) {
+    throw new ValidationError('Ply must be a non-negative integer');
+  }
+  
+  const result = await gameService.getReplayFrame(id, Number(ply));
+  
+  res.status(200).json(result);
+}));
+
+/**
+ * GET /games/:id/events/history
+ * Page through the log of every change to a game, oldest first (also for deleted games)
+ */
+router.get('/:id/events/history',
+  validationMiddleware.validateEventHistory,
+  asyncHandler(async (req: Request<{ id: string }, {}, {}, EventHistoryQuery>, res: Response) => {
+    const { id } = req.params;
+    const { after, limit } = req.query;
     
-    if (error instanceof Error) {
-      if (error.message.includes('not found')) {
-        return res.status(404).json({
-          error: 'Not found',
-          message: 'Game not found'
-        });
-      }
-      if (error.message.includes('Cannot delete an active game')) {
-        return res.status(400).json({
-          error: 'Bad Request',
-          message: 'Cannot delete an active game'
-        });
-      }
-    }
+    const { events, hasMore } = await gameService.getEventHistory(id, after, limit);
     
-    res.status(500).json({
-      error: 'Internal server error',
-      message: 'Failed to delete game'
-    });
+    const response: GetGameHistoryResponse = { gameId: id, events, hasMore };
+    res.status(200).json(response);
+  })
+);
+
+/**
+ * GET /games/:id/versions/:version
+ * Rebuild the game from its event log as it stood at a past version
+ */
+router.get('/:id/versions/:version', asyncHandler(async (req: Request, res: Response) => {
+  const { id, version } = req.params;
+  
+  if (!/^[1-9]\d*$/.test(version)) {
+    throw new ValidationError('Version must be a positive integer');
   }
-});
+  
+  const game = await gameService.getGameVersion(id, Number(version));
+  
+  const response: GetGameVersionResponse = { game };
+  res.status(200).json(response);
+}));
+
+/**
+ * GET /games/:id/stats
+ * Get game statistics
+ */
+router.get('/:id/stats', asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  
+  if (!id || typeof id !== 'string') {
+    throw new ValidationError('Invalid game ID');
+  }
+  
+  const stats = await gameService.getGameStats(id);
+  
+  res.status(200).json({ stats });
+}));
+
+/**
+ * GET /games
+ * Get all games, optionally filtered by status and paged with limit/offset
+ */
+router.get('/', validationMiddleware.validateListGames, asyncHandler(async (req: Request<{}, {}, {}, ListGamesQuery>, res: Response) => {
+  const { status, limit, offset = 0 } = req.query;
+  
+  const games = status
+    ? await gameService.getGamesByStatus(status)
+    : await gameService.getAllGames();
+  const page = games.slice(offset, limit !== undefined ? offset + limit : undefined);
+  
+  res.status(200).json({
+    games: page,
+    count: page.length,
+    total: games.length
+  });
+}));
+
+/**
+ * DELETE /games/:id
+ * Delete a game (admins only; recorded in the audit log)
+ */
+router.delete('/:id', requireAuth, requireRole('admin'), asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  
+  if (!id || typeof id !== 'string') {
+    throw new ValidationError('Invalid game ID');
+  }
+  
+  await adminService.deleteGame(req.player!.id, id);
+  
+  res.status(200).json({
+    message: 'Game deleted successfully'
+  });
+}));
 
 /**
  * GET /games/stats/overview
  * Get overview statistics
  */
-router.get('/stats/overview', async (req: Request, res: Response) => {
-  try {
-    const [activeCount, waitingCount, completedCount] = await Promise.all([
-      gameService.getActiveGamesCount(),
-      gameService.getWaitingGamesCount(),
-      gameService.getCompletedGamesCount()
-    ]);
-    
-    res.status(200).json({
-      stats: {
-        activeGames: activeCount,
-        waitingGames: waitingCount,
-        completedGames: completedCount,
-        totalGames: activeCount + waitingCount + completedCount
-      }
-    });
-  } catch (error) {
-    console.error('Error getting overview stats:', error);
-    res.status(500).json({
-      error: 'Internal server error',
-      message: 'Failed to get overview statistics'
-    });
-  }
-});
+router.get('/stats/overview', asyncHandler(async (req: Request, res: Response) => {
+  const [activeCount, waitingCount, completedCount] = await Promise.all([
+    gameService.getActiveGamesCount(),
+    gameService.getWaitingGamesCount(),
+    gameService.getCompletedGamesCount()
+  ]);
+  
+  res.status(200).json({
+    stats: {
+      activeGames: activeCount,
+      waitingGames: waitingCount,
+      completedGames: completedCount,
+      totalGames: activeCount + waitingCount + completedCount
+    }
+  });
+}));
 
 export { router as gameRoutes };
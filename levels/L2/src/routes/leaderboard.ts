@@ -0,0 +1,61 @@
+import { Router, Request, Response } from 'express';
+import { LeaderboardService } from '../services/leaderboardService';
+import { asyncHandler } from '../middleware/errorHandler';
+import { LeaderboardQuery, validationMiddleware } from '../middleware/validation';
+import { NotFoundError } from '../errors';
+import { GetLeaderboardResponse, LeaderboardType } from '../types';
+
+const router = Router();
+const leaderboardService = new LeaderboardService();
+
+// URL segment for each leaderboard
+const LEADERBOARD_PATHS = new Map<string, LeaderboardType>([
+  ['wins', 'wins'],
+  ['efficiency', 'efficiency'],
+  ['win-rate', 'winRate'],
+  ['streak', 'streak'],
+  ['rating', 'rating'],
+]);
+
+const sendLeaderboard = async (type: LeaderboardType, query: LeaderboardQuery, res: Response) => {
+  const { period = 'all', limit = 10, offset = 0 } = query;
+
+  const { entries, total } = await leaderboardService.getLeaderboard(type, period, { limit, offset });
+
+  const response: GetLeaderboardResponse = {
+    leaderboard: entries,
+    type,
+    period,
+    total,
+    offset,
+    limit
+  };
+
+  res.status(200).json(response);
+};
+
+/**
+ * GET /leaderboard
+ * Get the leaderboard ordered by wins
+ */
+router.get('/', validationMiddleware.validateLeaderboard, asyncHandler(async (req: Request<{}, {}, {}, LeaderboardQuery>, res: Response) => {
+  await sendLeaderboard('wins', req.query, res);
+}));
+
+/**
+ * GET /leaderboard/:type
+ * Get the leaderboard by wins, efficiency, win-rate, streak or rating
+ */
+router.get('/:type', validationMiddleware.validateLeaderboard, asyncHandler(async (req: Request<{ type: string }, {}, {}, LeaderboardQuery>, res: Response) => {
+  const type = LEADERBOARD_PATHS.get(req.params.type);
+  if (!type) {
+    throw new NotFoundError(
+      `Unknown leaderboard; use one of: ${[...LEADERBOARD_PATHS.keys()].join(', ')}`,
+      'LEADERBOARD_NOT_FOUND'
+    );
+  }
+
+  await sendLeaderboard(type, req.query, res);
+}));
+
+export { router as leaderboardRoutes };
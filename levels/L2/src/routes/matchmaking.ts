@@ -0,0 +1,65 @@
+import { Router, Request, Response } from 'express';
+import { matchmakingService } from '../services/matchmakingService';
+import { requireAuth, requireSelf } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validationMiddleware } from '../middleware/validation';
+import { JoinQueueRequest } from '../types';
+
+const router = Router();
+
+/**
+ * POST /matchmaking/queue
+ * Put the authenticated player in the queue; responds with the game straight away if an opponent is waiting
+ */
+router.post('/queue',
+  requireAuth,
+  requireSelf(req => req.body.playerId),
+  validationMiddleware.validateJoinQueue,
+  asyncHandler(async (req: Request<{}, {}, JoinQueueRequest>, res: Response) => {
+    const { rows, cols, winLength } = req.body;
+
+    const { ticket, game } = await matchmakingService.enqueue(req.player!.id, { rows, cols, winLength });
+
+    res.status(game ? 201 : 202).json({
+      ticket,
+      game,
+      message: game ? 'Match found' : 'Waiting for an opponent'
+    });
+  })
+);
+
+/**
+ * GET /matchmaking/queue/:playerId
+ * Get your matchmaking status, including the game once matched
+ */
+router.get('/queue/:playerId',
+  requireAuth,
+  requireSelf(req => req.params.playerId),
+  asyncHandler(async (req: Request, res: Response) => {
+    const ticket = await matchmakingService.getStatus(req.player!.id);
+
+    res.status(200).json({
+      ticket,
+      queueSize: matchmakingService.getQueueSize()
+    });
+  })
+);
+
+/**
+ * DELETE /matchmaking/queue/:playerId
+ * Leave the matchmaking queue
+ */
+router.delete('/queue/:playerId',
+  requireAuth,
+  requireSelf(req => req.params.playerId),
+  asyncHandler(async (req: Request, res: Response) => {
+    const ticket = await matchmakingService.cancel(req.player!.id);
+
+    res.status(200).json({
+      ticket,
+      message: 'Left the matchmaking queue'
+    });
+  })
+);
+
+export { router as matchmakingRoutes };
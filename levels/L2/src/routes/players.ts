@@ -0,0 +1,213 @@
+import { Router, Request, Response } from 'express';
+import { PlayerModel } from '../models/player';
+import { AuthService } from '../services/authService';
+import { GameService } from '../services/gameService';
+import { optionalAuth, requireAuth, requireSelf } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { idempotentWithReplay } from '../middleware/idempotency';
+import { ListPlayersQuery, SearchPlayersQuery, validationMiddleware } from '../middleware/validation';
+import { BadRequestError, PlayerNotFoundError } from '../errors';
+import { toPlayerAccount, viewPlayerAs } from '../utils/player';
+import {
+  CreatePlayerRequest,
+  CreatePlayerResponse,
+  FlagPlayerRequest,
+  GetPlayerResponse,
+  GetPlayerStatsResponse,
+  GetRatingHistoryResponse,
+  ListPlayersResponse,
+  SearchPlayersResponse,
+  UpdatePlayerRequest,
+} from '../types';
+
+const router = Router();
+const playerModel = new PlayerModel();
+const authService = new AuthService();
+const gameService = new GameService();
+
+// A retried registration gets the player back, but never the API key a second time
+const replayWithoutApiKey = (body: unknown): unknown => {
+  const { apiKey, ...response } = body as CreatePlayerResponse;
+  return apiKey
+    ? { ...response, message: 'Player created; the API key was only shown in the first response' }
+    : response;
+};
+
+/**
+ * POST /players
+ * Register a player with a password, or get an API key when none is given
+ */
+router.post('/',
+  validationMiddleware.validateCreatePlayer,
+  idempotentWithReplay(replayWithoutApiKey),
+  asyncHandler(async (req: Request<{}, {}, CreatePlayerRequest>, res: Response) => {
+    const { name, email, password } = req.body;
+
+    const { player, apiKey } = await authService.register(name, email, password);
+
+    const response: CreatePlayerResponse = {
+      player: toPlayerAccount(player),
+      ...(apiKey ? { apiKey } : {}),
+      message: apiKey
+        ? 'Player created; store the API key now, it will not be shown again'
+        : 'Player created successfully'
+    };
+
+    res.status(201).json(response);
+  })
+);
+
+/**
+ * GET /players
+ * List players, newest first by default; sort with sortBy/order and page with limit/offset
+ */
+router.get('/', optionalAuth, validationMiddleware.validateListPlayers, asyncHandler(async (req: Request<{}, {}, {}, ListPlayersQuery>, res: Response) => {
+  const { sortBy, order, limit, offset = 0 } = req.query;
+
+  const { players, total } = await playerModel.listPlayers({ sortBy, order, limit, offset });
+
+  const response: ListPlayersResponse = {
+    players: players.map(player => viewPlayerAs(req.player, player)),
+    count: players.length,
+    total,
+    offset,
+    limit: limit ?? null
+  };
+
+  res.status(200).json(response);
+}));
+
+/**
+ * GET /players/search
+ * Search players by name (case-insensitive substring of `q`)
+ */
+router.get('/search', optionalAuth, validationMiddleware.validateSearchPlayers, asyncHandler(async (req: Request<{}, {}, {}, SearchPlayersQuery>, res: Response) => {
+  const { q, limit = 10 } = req.query;
+
+  const players = await playerModel.searchPlayersByName(q, limit);
+
+  const response: SearchPlayersResponse = {
+    players: players.map(player => viewPlayerAs(req.player, player)),
+    count: players.length,
+    query: q
+  };
+
+  res.status(200).json(response);
+}));
+
+/**
+ * GET /players/:id
+ * Get player by ID
+ */
+router.get('/:id', optionalAuth, asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const player = await playerModel.getPlayerById(id);
+  if (!player) {
+    throw new PlayerNotFoundError();
+  }
+
+  const response: GetPlayerResponse = { player: viewPlayerAs(req.player, player) };
+
+  res.status(200).json(response);
+}));
+
+/**
+ * GET /players/:id/stats
+ * Get a player's game statistics
+ */
+router.get('/:id/stats', asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const response: GetPlayerStatsResponse = {
+    stats: await playerModel.getPlayerStats(id)
+  };
+
+  res.status(200).json(response);
+}));
+
+/**
+ * PUT /players/:id
+ * Update the authenticated player's name or email
+ */
+router.put('/:id',
+  requireAuth,
+  requireSelf(req => req.params.id),
+  validationMiddleware.validateUpdatePlayer,
+  asyncHandler(async (req: Request<{ id: string }, {}, UpdatePlayerRequest>, res: Response) => {
+    const { id } = req.params;
+    const { name, email } = req.body;
+
+    const player = await playerModel.updatePlayer(id, { name, email });
+
+    res.status(200).json({
+      player: toPlayerAccount(player),
+      message: 'Player updated successfully'
+    });
+  })
+);
+
+/**
+ * DELETE /players/:id
+ * Delete the authenticated player
+ */
+router.delete('/:id',
+  requireAuth,
+  requireSelf(req => req.params.id),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    await gameService.deletePlayer(id);
+
+    res.status(200).json({
+      message: 'Player deleted successfully'
+    });
+  })
+);
+
+/**
+ * POST /players/:id/flag
+ * Report another player for admin review
+ */
+router.post('/:id/flag',
+  requireAuth,
+  validationMiddleware.validateFlagPlayer,
+  asyncHandler(async (req: Request<{ id: string }, {}, FlagPlayerRequest>, res: Response) => {
+    const { id } = req.params;
+    const { reason } = req.body;
+
+    if (id === req.player!.id) {
+      throw new BadRequestError('You cannot flag yourself', 'CANNOT_TARGET_SELF');
+    }
+
+    await playerModel.flagPlayer(id, reason);
+    console.log(`🚩 Player ${id} flagged by ${req.player!.id}`);
+
+    res.status(200).json({
+      message: 'Player flagged for review'
+    });
+  })
+);
+
+/**
+ * GET /players/:id/rating-history
+ * Get a player's current rating and its change after each rated game
+ */
+router.get('/:id/rating-history', asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const player = await playerModel.getPlayerById(id);
+  if (!player) {
+    throw new PlayerNotFoundError();
+  }
+
+  const response: GetRatingHistoryResponse = {
+    playerId: player.id,
+    rating: player.rating,
+    history: await playerModel.getRatingHistory(id)
+  };
+
+  res.status(200).json(response);
+}));
+
+export { router as playerRoutes };
@@ -0,0 +1,81 @@
+import { Router, Request, Response } from 'express';
+import { SeriesService } from '../services/seriesService';
+import { ListSeriesQuery, validationMiddleware } from '../middleware/validation';
+import { requireAuth, requireSelf } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { idempotent } from '../middleware/idempotency';
+import { CreateSeriesRequest, ListSeriesResponse, RespondToSeriesRequest, SeriesResponse } from '../types';
+
+const router = Router();
+const seriesService = new SeriesService();
+
+/**
+ * POST /series
+ * Challenge an opponent to a best-of-N series as the authenticated player; it starts once they accept
+ */
+router.post('/',
+  requireAuth,
+  validationMiddleware.validateCreateSeries,
+  idempotent,
+  asyncHandler(async (req: Request<{}, {}, CreateSeriesRequest>, res: Response) => {
+    const { opponentId, bestOf, rows, cols, winLength } = req.body;
+
+    const series = await seriesService.createSeries(req.player!.id, opponentId, bestOf, { rows, cols, winLength });
+
+    const response: SeriesResponse = {
+      series,
+      currentGame: null,
+      message: 'Challenge sent; the series starts once the opponent accepts'
+    };
+    res.status(201).json(response);
+  })
+);
+
+/**
+ * POST /series/:id/response
+ * Accept or decline a series challenge as the challenged player
+ */
+router.post('/:id/response',
+  requireAuth,
+  requireSelf(req => req.body.playerId),
+  validationMiddleware.validateAnswer,
+  asyncHandler(async (req: Request<{ id: string }, {}, RespondToSeriesRequest>, res: Response) => {
+    const { id } = req.params;
+    const { accept } = req.body;
+
+    const { series, currentGame } = await seriesService.respondToChallenge(id, req.player!.id, accept);
+
+    const response: SeriesResponse = {
+      series,
+      currentGame,
+      message: accept ? 'Series accepted; the first game has started' : 'Series declined'
+    };
+    res.status(200).json(response);
+  })
+);
+
+/**
+ * GET /series
+ * List a player's series, newest first
+ */
+router.get('/', validationMiddleware.validateListSeries, asyncHandler(async (req: Request<{}, {}, {}, ListSeriesQuery>, res: Response) => {
+  const { playerId } = req.query;
+
+  const response: ListSeriesResponse = {
+    series: await seriesService.getSeriesForPlayer(playerId)
+  };
+  res.status(200).json(response);
+}));
+
+/**
+ * GET /series/:id
+ * Get a series with its score and the game in play
+ */
+router.get('/:id', asyncHandler(async (req: Request<{ id: string }>, res: Response) => {
+  const { id } = req.params;
+
+  const response: SeriesResponse = await seriesService.getSeries(id);
+  res.status(200).json(response);
+}));
+
+export { router as seriesRoutes };
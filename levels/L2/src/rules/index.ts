@@ -0,0 +1,24 @@
+import { GameVariant } from '../types';
+import { MisereRules, NotaktoRules, RuleEngine, StandardRules, WildRules } from './ruleEngine';
+import { UltimateRules } from './ultimate';
+
+export { MoveOutcome, RuleEngine } from './ruleEngine';
+export { SUB_BOARD_SIZE, ULTIMATE_BOARD } from './ultimate';
+
+export const GAME_VARIANTS: [GameVariant, ...GameVariant[]] = ['standard', 'misere', 'wild', 'notakto', 'ultimate'];
+
+// Engines hold no state, so one of each is shared
+const ruleEngines: Record<GameVariant, RuleEngine> = {
+  standard: new StandardRules(),
+  misere: new MisereRules(),
+  wild: new WildRules(),
+  notakto: new NotaktoRules(),
+  ultimate: new UltimateRules(),
+};
+
+/**
+ * Get the rules a game is played by
+ */
+export function getRuleEngine(variant: GameVariant): RuleEngine {
+  return ruleEngines[variant];
+}
@@ -0,0 +1,104 @@
+import { BoardOptions, Game, Move, MoveSymbol, WinResult } from '../types';
+import { CellPosition, findWinningLine, getEmptyCells, isBoardFull } from '../utils/board';
+import { ValidationError } from '../errors';
+
+// How a game stands once a move is on the board
+export type MoveOutcome =
+  | { status: 'active' }
+  | { status: 'completed'; winResult: WinResult }
+  | { status: 'draw' };
+
+/**
+ * The rules of one variant; GameModel handles turns, clocks and storage and
+ * asks the engine what a move puts on the board and what it decides
+ */
+export interface RuleEngine {
+  // Set when every game of the variant is played on the same board
+  readonly fixedBoard?: BoardOptions;
+  // Set up any variant state on a newly created game
+  initialize(game: Game): void;
+  // Refuse a move to an empty cell that the variant does not allow, or move input it has no use for
+  validateMove(game: Game, row: number, col: number, symbol: MoveSymbol | undefined): void;
+  // The cells the player on move may choose from
+  getValidMoves(game: Game): CellPosition[];
+  // What the move leaves in its cell
+  markFor(move: Move): string;
+  // Called with the move already on the board and in the move list
+  evaluate(game: Game, move: Move): MoveOutcome;
+  // Called once a taken-back move is off the board and out of the move list
+  undo(game: Game): void;
+}
+
+/**
+ * Standard tic-tac-toe: each player has their own mark, and the first to
+ * complete a line of winLength wins. A full board is a draw.
+ */
+export class StandardRules implements RuleEngine {
+  initialize(game: Game): void {}
+
+  validateMove(game: Game, row: number, col: number, symbol: MoveSymbol | undefined): void {
+    if (symbol !== undefined) {
+      throw new ValidationError('Only wild games take a symbol', 'SYMBOL_NOT_ALLOWED');
+    }
+  }
+
+  getValidMoves(game: Game): CellPosition[] {
+    return getEmptyCells(game.board);
+  }
+
+  markFor(move: Move): string {
+    return move.playerId;
+  }
+
+  evaluate(game: Game, move: Move): MoveOutcome {
+    const line = findWinningLine(game.board, move.row, move.col, game.winLength);
+    if (line) {
+      return { status: 'completed', winResult: { winnerId: move.playerId, ...line } };
+    }
+
+    return isBoardFull(game.board) ? { status: 'draw' } : { status: 'active' };
+  }
+
+  undo(game: Game): void {}
+}
+
+/**
+ * Misère: completing a line loses, so the opponent wins. The result still
+ * carries the line, so clients can show how the game was lost.
+ */
+export class MisereRules extends StandardRules {
+  evaluate(game: Game, move: Move): MoveOutcome {
+    const outcome = super.evaluate(game, move);
+    if (outcome.status !== 'completed') {
+      return outcome;
+    }
+
+    const opponent = game.players.find(p => p.id !== move.playerId)!;
+    return { status: 'completed', winResult: { ...outcome.winResult, winnerId: opponent.id } };
+  }
+}
+
+/**
+ * Wild tic-tac-toe: on each turn the player picks X or O, and whoever
+ * completes a line of either symbol wins
+ */
+export class WildRules extends StandardRules {
+  validateMove(game: Game, row: number, col: number, symbol: MoveSymbol | undefined): void {
+    if (symbol === undefined) {
+      throw new ValidationError('Wild games need a symbol (X or O) with every move', 'SYMBOL_REQUIRED');
+    }
+  }
+
+  markFor(move: Move): string {
+    return move.symbol!;
+  }
+}
+
+/**
+ * Notakto: both players play X, and whoever completes a line loses
+ */
+export class NotaktoRules extends MisereRules {
+  markFor(): string {
+    return 'X';
+  }
+}
@@ -0,0 +1,132 @@
+import { BoardOptions, Game, GameBoard, Move, MoveSymbol } from '../types';
+import { CellPosition, createEmptyBoard, findWinningLine, getEmptyCells } from '../utils/board';
+import { BadRequestError } from '../errors';
+import { MoveOutcome, StandardRules } from './ruleEngine';
+
+// Each sub-board, and the grid of sub-boards, is 3x3
+export const SUB_BOARD_SIZE = 3;
+
+export const ULTIMATE_BOARD: BoardOptions = {
+  rows: SUB_BOARD_SIZE * SUB_BOARD_SIZE,
+  cols: SUB_BOARD_SIZE * SUB_BOARD_SIZE,
+  winLength: SUB_BOARD_SIZE,
+};
+
+/**
+ * The sub-board a cell of the 9x9 board belongs to
+ */
+function subBoardOf(row: number, col: number): CellPosition {
+  return { row: Math.floor(row / SUB_BOARD_SIZE), col: Math.floor(col / SUB_BOARD_SIZE) };
+}
+
+/**
+ * Ultimate tic-tac-toe: the 9x9 board is nine 3x3 sub-boards. A line in a
+ * sub-board wins it, and three won sub-boards in a line win the game.
+ *
+ * Where a player moves inside a sub-board sends the opponent to the matching
+ * sub-board; if that one is already won or full, they may play in any open
+ * sub-board. A won sub-board takes no more moves.
+ */
+export class UltimateRules extends StandardRules {
+  readonly fixedBoard = ULTIMATE_BOARD;
+
+  initialize(game: Game): void {
+    this.track(game);
+  }
+
+  validateMove(game: Game, row: number, col: number, symbol: MoveSymbol | undefined): void {
+    super.validateMove(game, row, col, symbol);
+
+    const subBoard = subBoardOf(row, col);
+    const { forcedSubBoard } = game.ultimate!;
+
+    if (forcedSubBoard && (forcedSubBoard.row !== subBoard.row || forcedSubBoard.col !== subBoard.col)) {
+      throw new BadRequestError(
+        `Move must be in sub-board (${forcedSubBoard.row}, ${forcedSubBoard.col})`,
+        'WRONG_SUB_BOARD'
+      );
+    }
+
+    if (game.ultimate!.subBoardWinners[subBoard.row][subBoard.col] !== null) {
+      throw new BadRequestError('That sub-board has already been won', 'SUB_BOARD_CLOSED');
+    }
+  }
+
+  getValidMoves(game: Game): CellPosition[] {
+    const { forcedSubBoard, subBoardWinners } = game.ultimate!;
+
+    return getEmptyCells(game.board).filter(cell => {
+      const subBoard = subBoardOf(cell.row, cell.col);
+      if (forcedSubBoard) {
+        return subBoard.row === forcedSubBoard.row && subBoard.col === forcedSubBoard.col;
+      }
+      return subBoardWinners[subBoard.row][subBoard.col] === null;
+    });
+  }
+
+  evaluate(game: Game, move: Move): MoveOutcome {
+    this.track(game);
+
+    // Only the sub-board just played in can have been won, so only lines through it are new
+    const subBoard = subBoardOf(move.row, move.col);
+    const line = findWinningLine(game.ultimate!.subBoardWinners, subBoard.row, subBoard.col, SUB_BOARD_SIZE);
+    if (line) {
+      return { status: 'completed', winResult: { winnerId: move.playerId, ...line } };
+    }
+
+    return this.getValidMoves(game).length === 0 ? { status: 'draw' } : { status: 'active' };
+  }
+
+  undo(game: Game): void {
+    this.track(game);
+  }
+
+  /**
+   * Work out who holds each sub-board and where the next move must go; both
+   * follow from the board and the last move, so a takeback just reruns this
+   */
+  private track(game: Game): void {
+    const subBoardWinners = createEmptyBoard(SUB_BOARD_SIZE, SUB_BOARD_SIZE);
+    for (let row = 0; row < SUB_BOARD_SIZE; row++) {
+      for (let col = 0; col < SUB_BOARD_SIZE; col++) {
+        subBoardWinners[row][col] = this.findSubBoardWinner(game.board, row, col);
+      }
+    }
+
+    const lastMove = game.moves[game.moves.length - 1];
+    let forcedSubBoard: CellPosition | null = null;
+    if (lastMove) {
+      const target = { row: lastMove.row % SUB_BOARD_SIZE, col: lastMove.col % SUB_BOARD_SIZE };
+      const isOpen =
+        subBoardWinners[target.row][target.col] === null &&
+        getEmptyCells(this.getSubBoard(game.board, target.row, target.col)).length > 0;
+      forcedSubBoard = isOpen ? target : null;
+    }
+
+    game.ultimate = { subBoardWinners, forcedSubBoard };
+  }
+
+  /**
+   * The player with a line in a sub-board, if any; a won sub-board takes no
+   * more moves, so there is at most one
+   */
+  private findSubBoardWinner(board: GameBoard, subRow: number, subCol: number): string | null {
+    const subBoard = this.getSubBoard(board, subRow, subCol);
+
+    for (let row = 0; row < SUB_BOARD_SIZE; row++) {
+      for (let col = 0; col < SUB_BOARD_SIZE; col++) {
+        if (findWinningLine(subBoard, row, col, SUB_BOARD_SIZE)) {
+          return subBoard[row][col];
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private getSubBoard(board: GameBoard, subRow: number, subCol: number): GameBoard {
+    const top = subRow * SUB_BOARD_SIZE;
+    const left = subCol * SUB_BOARD_SIZE;
+    return board.slice(top, top + SUB_BOARD_SIZE).map(cells => cells.slice(left, left + SUB_BOARD_SIZE));
+  }
+}
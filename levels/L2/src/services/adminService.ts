@@ -0,0 +1,135 @@
+import { AuditLogEntry, Game, Player, PlayerRole } from '../types';
+import { PlayerModel } from '../models/player';
+import { AuditLogModel } from '../models/auditLog';
+import { GameService } from './gameService';
+import { MatchmakingService, matchmakingService } from './matchmakingService';
+import { BadRequestError } from '../errors';
+
+/**
+ * Moderation actions for admins. Each successful action is written to the audit log.
+ */
+export class AdminService {
+  private gameService: GameService;
+  private matchmakingService: MatchmakingService;
+  private playerModel: PlayerModel;
+  private auditLog: AuditLogModel;
+
+  constructor(gameService: GameService = new GameService(), matchmaking: MatchmakingService = matchmakingService) {
+    this.gameService = gameService;
+    this.matchmakingService = matchmaking;
+    this.playerModel = new PlayerModel();
+    this.auditLog = new AuditLogModel();
+  }
+
+  /**
+   * End an active game with the given winner, or as a draw when winnerId is null
+   */
+  async endGame(adminId: string, gameId: string, winnerId: string | null, reason: string | null = null): Promise<Game> {
+    const game = await this.gameService.forceEndGame(gameId, winnerId, adminId);
+    await this.auditLog.record(adminId, 'end_game', { targetType: 'game', targetId: gameId }, reason, { winnerId });
+
+    return game;
+  }
+
+  /**
+   * Void a game, reverting any stats and ratings it produced
+   */
+  async voidGame(adminId: string, gameId: string, reason: string | null = null): Promise<Game> {
+    const game = await this.gameService.voidGame(gameId, adminId);
+    await this.auditLog.record(adminId, 'void_game', { targetType: 'game', targetId: gameId }, reason);
+
+    return game;
+  }
+
+  /**
+   * Delete (archive) a game that is not in progress
+   */
+  async deleteGame(adminId: string, gameId: string, reason: string | null = null): Promise<void> {
+    await this.gameService.deleteGame(gameId, adminId);
+    await this.auditLog.record(adminId, 'delete_game', { targetType: 'game', targetId: gameId }, reason);
+  }
+
+  /**
+   * Ban a player from joining games
+   */
+  async banPlayer(adminId: string, playerId: string, reason: string): Promise<Player> {
+    if (adminId === playerId) {
+      throw new BadRequestError('Admins cannot ban themselves', 'CANNOT_TARGET_SELF');
+    }
+
+    const player = await this.playerModel.banPlayer(playerId, reason);
+    await this.matchmakingService.removePlayer(playerId);
+    await this.auditLog.record(adminId, 'ban_player', { targetType: 'player', targetId: playerId }, player.banReason);
+    console.log(`🔨 Player ${playerId} banned by ${adminId}`);
+
+    return player;
+  }
+
+  /**
+   * Lift a player's ban
+   */
+  async unbanPlayer(adminId: string, playerId: string, reason: string | null = null): Promise<Player> {
+    const player = await this.playerModel.unbanPlayer(playerId);
+    await this.auditLog.record(adminId, 'unban_player', { targetType: 'player', targetId: playerId }, reason);
+    console.log(`🔓 Player ${playerId} unbanned by ${adminId}`);
+
+    return player;
+  }
+
+  /**
+   * Dismiss a flag after review
+   */
+  async clearFlag(adminId: string, playerId: string, reason: string | null = null): Promise<Player> {
+    const flagReason = (await this.playerModel.getPlayerById(playerId))?.flagReason ?? null;
+    const player = await this.playerModel.clearFlag(playerId);
+    await this.auditLog.record(adminId, 'clear_flag', { targetType: 'player', targetId: playerId }, reason, {
+      flagReason,
+    });
+
+    return player;
+  }
+
+  /**
+   * Delete any player
+   */
+  async deletePlayer(adminId: string, playerId: string, reason: string | null = null): Promise<void> {
+    if (adminId === playerId) {
+      throw new BadRequestError('Admins cannot delete themselves here; use DELETE /players/:id', 'CANNOT_TARGET_SELF');
+    }
+
+    await this.gameService.deletePlayer(playerId);
+    await this.auditLog.record(adminId, 'delete_player', { targetType: 'player', targetId: playerId }, reason);
+  }
+
+  /**
+   * Promote a player to admin or demote them
+   */
+  async setRole(adminId: string, playerId: string, role: PlayerRole): Promise<Player> {
+    if (adminId === playerId) {
+      throw new BadRequestError('Admins cannot change their own role', 'CANNOT_TARGET_SELF');
+    }
+
+    const previousRole = (await this.playerModel.getPlayerById(playerId))?.role ?? null;
+    const player = await this.playerModel.setRole(playerId, role);
+    await this.auditLog.record(adminId, 'set_role', { targetType: 'player', targetId: playerId }, null, {
+      from: previousRole,
+      to: role,
+    });
+
+    return player;
+  }
+
+  /**
+   * Players flagged for review, oldest flag first
+   */
+  async getFlaggedPlayers(): Promise<Player[]> {
+    return this.playerModel.getFlaggedPlayers();
+  }
+
+  /**
+   * Most recent admin actions, newest first
+   */
+  async getAuditLog(limit?: number): Promise<AuditLogEntry[]> {
+    return this.auditLog.getRecentEntries(limit);
+  }
+}
@@ -0,0 +1,95 @@
+import { Player } from '../types';
+import { PlayerModel } from '../models/player';
+import { generateApiKey, hashSecret, verifySecret } from '../utils/secrets';
+import { getTokenSecret, getTokenTtlSeconds, signToken, verifyToken } from '../utils/token';
+import { UnauthorizedError, ValidationError } from '../errors';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Player registration, login and bearer token checks.
+ *
+ * A player registers with a password, or without one and gets an API key;
+ * either can be exchanged for a signed token at login. Everyone registers as
+ * a plain player, since the email is never verified; admins are promoted with
+ * scripts/promote-admin.ts or by another admin.
+ */
+export class AuthService {
+  private playerModel: PlayerModel;
+
+  constructor() {
+    this.playerModel = new PlayerModel();
+  }
+
+  /**
+   * Create a player with credentials; the API key is only ever returned here
+   */
+  async register(name: string, email: string, password?: string): Promise<{ player: Player; apiKey: string | null }> {
+    console.log(`🔐 Registering player: ${email}`);
+
+    if (password !== undefined && (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH)) {
+      throw new ValidationError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+
+    const player = await this.playerModel.createPlayer(name, email);
+    const apiKey = password === undefined ? generateApiKey() : null;
+
+    try {
+      await this.playerModel.setCredentials(player.id, {
+        passwordHash: password !== undefined ? await hashSecret(password) : null,
+        apiKeyHash: apiKey ? await hashSecret(apiKey) : null,
+      });
+    } catch (error) {
+      // A player nobody can log in as is no use to anyone
+      await this.playerModel.deletePlayer(player.id);
+      throw error;
+    }
+
+    console.log(`✅ Player registered: ${player.id} (${apiKey ? 'API key' : 'password'})`);
+    return { player, apiKey };
+  }
+
+  /**
+   * Exchange an email and password or API key for a signed token
+   */
+  async login(
+    email: string,
+    secrets: { password?: string; apiKey?: string }
+  ): Promise<{ token: string; expiresAt: Date; player: Player }> {
+    const secret = secrets.password ?? secrets.apiKey;
+    if (!email || typeof email !== 'string' || !secret || typeof secret !== 'string') {
+      throw new ValidationError('Email and a password or API key are required');
+    }
+
+    const player = await this.playerModel.getPlayerByEmail(email);
+    const credentials = player ? await this.playerModel.getCredentials(player.id) : null;
+    const storedHash = secrets.password !== undefined ? credentials?.passwordHash : credentials?.apiKeyHash;
+
+    if (!player || !storedHash || !(await verifySecret(secret, storedHash))) {
+      throw new UnauthorizedError('Invalid email or credentials', 'INVALID_CREDENTIALS');
+    }
+
+    const { token, expiresAt } = signToken(player.id, getTokenSecret(), getTokenTtlSeconds());
+    console.log(`✅ Player logged in: ${player.id}`);
+
+    return { token, expiresAt, player };
+  }
+
+  /**
+   * Resolve a bearer token to the player it was issued to
+   */
+  async authenticate(token: string): Promise<Player> {
+    const payload = verifyToken(token, getTokenSecret());
+    if (!payload) {
+      throw new UnauthorizedError('Invalid or expired token', 'INVALID_TOKEN');
+    }
+
+    // Tokens outlive deleted players, so the player must still exist
+    const player = await this.playerModel.getPlayerById(payload.sub);
+    if (!player) {
+      throw new UnauthorizedError('Invalid or expired token', 'INVALID_TOKEN');
+    }
+
+    return player;
+  }
+}
@@ -0,0 +1,257 @@
+import { BotDifficulty, Game, GameBoard } from '../types';
+import { CellPosition, LINE_DIRECTIONS, getEmptyCells, isWinningMove } from '../utils/board';
+
+export const BOT_DIFFICULTIES: BotDifficulty[] = ['easy', 'medium', 'hard'];
+
+// Scores outside the range any heuristic evaluation can reach
+const WIN_SCORE = 1_000_000_000;
+
+// Boards with at most this many empty cells are searched to the end
+const FULL_SEARCH_MAX_EMPTY_CELLS = 10;
+
+interface SearchContext {
+  botId: string;
+  opponentId: string;
+  winLength: number;
+}
+
+/**
+ * Chooses moves for bot players
+ */
+export class BotService {
+  constructor(private random: () => number = Math.random) {}
+
+  /**
+   * Pick the bot's next move for the game's current position
+   */
+  chooseMove(game: Game, botId: string, difficulty: BotDifficulty): CellPosition {
+    const moves = getEmptyCells(game.board);
+    if (moves.length === 0) {
+      throw new Error('No valid moves available');
+    }
+
+    const context: SearchContext = {
+      botId,
+      opponentId: game.players.find(p => p.id !== botId)?.id ?? 'opponent',
+      winLength: game.winLength,
+    };
+
+    switch (difficulty) {
+      case 'easy':
+        return this.pickRandom(moves);
+      case 'medium':
+        return this.chooseHeuristicMove(game.board, moves, context);
+      case 'hard':
+        return this.chooseMinimaxMove(game.board, moves, context);
+      default:
+        throw new Error(`Unknown bot difficulty: ${difficulty}`);
+    }
+  }
+
+  /**
+   * Win if possible, otherwise block, otherwise play as close to the centre as possible
+   */
+  private chooseHeuristicMove(board: GameBoard, moves: CellPosition[], context: SearchContext): CellPosition {
+    const scratch = board.map(row => [...row]);
+
+    const winningMove = this.findWinningMove(scratch, moves, context.botId, context.winLength);
+    if (winningMove) {
+      return winningMove;
+    }
+
+    const blockingMove = this.findWinningMove(scratch, moves, context.opponentId, context.winLength);
+    if (blockingMove) {
+      return blockingMove;
+    }
+
+    const centreRow = (board.length - 1) / 2;
+    const centreCol = (board[0].length - 1) / 2;
+    const distance = (move: CellPosition) => Math.abs(move.row - centreRow) + Math.abs(move.col - centreCol);
+    const closest = Math.min(...moves.map(distance));
+
+    return this.pickRandom(moves.filter(move => distance(move) === closest));
+  }
+
+  /**
+   * Minimax with alpha-beta pruning.
+   *
+   * Small boards are searched exhaustively, which makes the bot unbeatable on 3x3;
+   * larger boards fall back to a depth-limited search scored by open lines.
+   */
+  private chooseMinimaxMove(board: GameBoard, moves: CellPosition[], context: SearchContext): CellPosition {
+    const scratch = board.map(row => [...row]);
+    const depth = this.getSearchDepth(moves.length);
+
+    let bestMoves: CellPosition[] = [];
+    let bestScore = -Infinity;
+
+    for (const move of this.getCandidateMoves(scratch, moves.length)) {
+      scratch[move.row][move.col] = context.botId;
+      // Searching with alpha just below the best score keeps ties exact, so equal moves can be randomised
+      const score = isWinningMove(scratch, move.row, move.col, context.winLength)
+        ? WIN_SCORE
+        : this.minimax(scratch, depth - 1, bestScore - 1, Infinity, false, context, 1);
+      scratch[move.row][move.col] = null;
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestMoves = [move];
+      } else if (score === bestScore) {
+        bestMoves.push(move);
+      }
+    }
+
+    return this.pickRandom(bestMoves);
+  }
+
+  private minimax(
+    board: GameBoard,
+    depth: number,
+    alpha: number,
+    beta: number,
+    maximizing: boolean,
+    context: SearchContext,
+    ply: number
+  ): number {
+    const emptyCells = getEmptyCells(board);
+    if (emptyCells.length === 0) {
+      return 0;
+    }
+
+    if (depth <= 0) {
+      return this.evaluate(board, context);
+    }
+
+    const playerId = maximizing ? context.botId : context.opponentId;
+    let best = maximizing ? -Infinity : Infinity;
+
+    for (const move of this.getCandidateMoves(board, emptyCells.length)) {
+      board[move.row][move.col] = playerId;
+
+      let score: number;
+      if (isWinningMove(board, move.row, move.col, context.winLength)) {
+        // Prefer quicker wins and slower losses
+        score = maximizing ? WIN_SCORE - ply : -WIN_SCORE + ply;
+      } else {
+        score = this.minimax(board, depth - 1, alpha, beta, !maximizing, context, ply + 1);
+      }
+
+      board[move.row][move.col] = null;
+
+      if (maximizing) {
+        best = Math.max(best, score);
+        alpha = Math.max(alpha, score);
+      } else {
+        best = Math.min(best, score);
+        beta = Math.min(beta, score);
+      }
+
+      if (alpha >= beta) {
+        break;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * How many plies to look ahead, trading strength for response time on big boards
+   */
+  private getSearchDepth(emptyCount: number): number {
+    if (emptyCount <= FULL_SEARCH_MAX_EMPTY_CELLS) {
+      return emptyCount;
+    }
+    return emptyCount <= 16 ? 4 : 2;
+  }
+
+  /**
+   * Moves worth searching: every empty cell on small boards, otherwise cells next to existing marks
+   */
+  private getCandidateMoves(board: GameBoard, emptyCount: number): CellPosition[] {
+    const emptyCells = getEmptyCells(board);
+    if (emptyCount <= FULL_SEARCH_MAX_EMPTY_CELLS) {
+      return emptyCells;
+    }
+
+    const nearby = emptyCells.filter(({ row, col }) => {
+      for (let dRow = -1; dRow <= 1; dRow++) {
+        for (let dCol = -1; dCol <= 1; dCol++) {
+          if (board[row + dRow]?.[col + dCol]) {
+            return true;
+          }
+        }
+      }
+      return false;
+    });
+
+    if (nearby.length > 0) {
+      return nearby;
+    }
+
+    return [{ row: Math.floor(board.length / 2), col: Math.floor(board[0].length / 2) }];
+  }
+
+  /**
+   * Score a position by the lines each side can still complete, weighted by how full they are
+   */
+  private evaluate(board: GameBoard, context: SearchContext): number {
+    let score = 0;
+
+    for (let row = 0; row < board.length; row++) {
+      for (let col = 0; col < board[row].length; col++) {
+        for (const { dRow, dCol } of LINE_DIRECTIONS) {
+          const endRow = row + dRow * (context.winLength - 1);
+          const endCol = col + dCol * (context.winLength - 1);
+          if (board[endRow]?.[endCol] === undefined) {
+            continue;
+          }
+
+          let botMarks = 0;
+          let opponentMarks = 0;
+          for (let step = 0; step < context.winLength; step++) {
+            const cell = board[row + dRow * step][col + dCol * step];
+            if (cell === context.botId) {
+              botMarks++;
+            } else if (cell !== null) {
+              opponentMarks++;
+            }
+          }
+
+          if (botMarks > 0 && opponentMarks === 0) {
+            score += 10 ** botMarks;
+          } else if (opponentMarks > 0 && botMarks === 0) {
+            score -= 10 ** opponentMarks;
+          }
+        }
+      }
+    }
+
+    return score;
+  }
+
+  /**
+   * Find a move that completes a line for the given player
+   */
+  private findWinningMove(
+    board: GameBoard,
+    moves: CellPosition[],
+    playerId: string,
+    winLength: number
+  ): CellPosition | null {
+    for (const move of moves) {
+      board[move.row][move.col] = playerId;
+      const wins = isWinningMove(board, move.row, move.col, winLength);
+      board[move.row][move.col] = null;
+
+      if (wins) {
+        return move;
+      }
+    }
+
+    return null;
+  }
+
+  private pickRandom<T>(items: T[]): T {
+    return items[Math.floor(this.random() * items.length)];
+  }
+}
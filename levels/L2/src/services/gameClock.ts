@@ -0,0 +1,52 @@
+/**
+ * One pending timeout per game, fired when the player to move runs out of time
+ */
+export class GameClockScheduler {
+  private timers = new Map<string, NodeJS.Timeout>();
+
+  /**
+   * Run onExpire at the deadline, replacing any timeout already set for the game
+   */
+  schedule(gameId: string, deadline: Date, onExpire: () => void): void {
+    this.cancel(gameId);
+
+    const timer = setTimeout(() => {
+      this.timers.delete(gameId);
+      onExpire();
+    }, Math.max(0, deadline.getTime() - Date.now()));
+
+    // Pending clocks should not keep the process alive on shutdown
+    timer.unref();
+    this.timers.set(gameId, timer);
+  }
+
+  /**
+   * Drop the game's pending timeout, if any
+   */
+  cancel(gameId: string): void {
+    const timer = this.timers.get(gameId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(gameId);
+    }
+  }
+
+  /**
+   * Drop every pending timeout
+   */
+  cancelAll(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  /**
+   * Check whether a timeout is pending for the game
+   */
+  isScheduled(gameId: string): boolean {
+    return this.timers.has(gameId);
+  }
+}
+
+export const gameClockScheduler = new GameClockScheduler();
@@ -0,0 +1,42 @@
+import { EventEmitter } from 'events';
+import { GameEvent } from '../types';
+
+export type GameEventListener = (event: GameEvent) => void;
+
+/**
+ * In-process pub/sub for game events, keyed by game ID
+ */
+export class GameEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open stream, so the default cap of 10 is far too low
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Publish an event to everyone subscribed to its game
+   */
+  publish(event: GameEvent): void {
+    this.emitter.emit(event.gameId, event);
+  }
+
+  /**
+   * Subscribe to a game's events; returns an unsubscribe function
+   */
+  subscribe(gameId: string, listener: GameEventListener): () => void {
+    this.emitter.on(gameId, listener);
+    return () => {
+      this.emitter.off(gameId, listener);
+    };
+  }
+
+  /**
+   * Number of subscribers for a game
+   */
+  subscriberCount(gameId: string): number {
+    return this.emitter.listenerCount(gameId);
+  }
+}
+
+export const gameEventBus = new GameEventBus();
@@ -1,28 +1,85 @@
-import { Game, Player, Move, GameStatus } from '../types';
-import { GameModel } from '../models/game';
+import {
+  Game,
+  Player,
+  Move,
+  MoveSymbol,
+  GameStatus,
+  GameStatusSummary,
+  BoardOptions,
+  GameEventType,
+  GameLogEvent,
+  GameVariant,
+  BotDifficulty,
+  DrawOffer,
+  GameResult,
+  GameReplay,
+  ReplayFrame,
+  Series,
+  Spectator,
+  Takeback,
+  TimeControl,
+} from '../types';
+import { GameModel, MIN_PLAYERS } from '../models/game';
 import { PlayerModel } from '../models/player';
+import { SeriesModel } from '../models/series';
+import { GameEventBus, GameEventListener, gameEventBus } from './gameEvents';
+import { BotService, BOT_DIFFICULTIES } from './botService';
+import { GameClockScheduler, gameClockScheduler } from './gameClock';
+import { getTurnDeadline } from '../utils/clock';
+import { KeyedLock, playerJoinLock } from '../utils/keyedLock';
+import { calculateRating } from '../utils/rating';
+import {
+  BadRequestError,
+  GameNotActiveError,
+  GameNotFoundError,
+  PlayerBannedError,
+  PlayerBusyError,
+  PlayerInUnfinishedGameError,
+  PlayerNotFoundError,
+  PlayerNotInGameError,
+  ValidationError,
+} from '../errors';
 
 export class GameService {
   private gameModel: GameModel;
   private playerModel: PlayerModel;
+  private seriesModel: SeriesModel;
+  private eventBus: GameEventBus;
+  private botService: BotService;
+  private clockScheduler: GameClockScheduler;
+  private joinLock: KeyedLock;
 
   constructor() {
     this.gameModel = new GameModel();
     this.playerModel = new PlayerModel();
+    this.seriesModel = new SeriesModel();
+    this.eventBus = gameEventBus;
+    this.botService = new BotService();
+    this.clockScheduler = gameClockScheduler;
+    this.joinLock = playerJoinLock;
   }
 
   /**
    * Create a new game
    */
-  async createGame(name?: string): Promise<Game> {
+  async createGame(
+    name?: string,
+    options: Partial<BoardOptions> = {},
+    timeControl: Partial<TimeControl> | null = null,
+    variant: GameVariant = 'standard',
+    maxPlayers: number = MIN_PLAYERS
+  ): Promise<Game> {
     console.log(`🎮 Creating new game: ${name || 'Unnamed'}`);
     
     if (name && name.trim().length > 100) {
-      throw new Error('Game name must be 100 characters or less');
+      throw new ValidationError('Game name must be 100 characters or less');
     }
     
-    const game = await this.gameModel.createGame(name);
-    console.log(`✅ Game created: ${game.id}`);
+    const game = await this.gameModel.createGame(name, options, timeControl, variant, maxPlayers);
+    console.log(
+      `✅ Game created: ${game.id} (${game.rows}x${game.cols}, ${game.winLength} in a row` +
+        `${variant !== 'standard' ? `, ${variant}` : ''}${maxPlayers > MIN_PLAYERS ? `, ${maxPlayers} players` : ''})`
+    );
     
     return game;
   }
@@ -32,7 +89,7 @@ export class GameService {
    */
   async getGameById(gameId: string): Promise<Game | null> {
     if (!gameId || typeof gameId !== 'string') {
-      throw new Error('Game ID must be a valid string');
+      throw new ValidationError('Game ID must be a valid string');
     }
     
     console.log(`🔍 Fetching game: ${gameId}`);
@@ -48,56 +105,329 @@ export class GameService {
   }
 
   /**
-   * Join a game
+   * Join a game, optionally only if it is still at `expectedVersion`
    */
-  async joinGame(gameId: string, player: Player): Promise<Game> {
+  async joinGame(gameId: string, player: Player, expectedVersion?: number): Promise<Game> {
     console.log(`👤 Player ${player.name} (${player.id}) joining game: ${gameId}`);
     
     // Validate player exists in database
     const existingPlayer = await this.playerModel.getPlayerById(player.id);
     if (!existingPlayer) {
-      throw new Error('Player not found in database');
+      throw new PlayerNotFoundError('Player not found in database');
     }
     
-    // Check if player is already in another active game
-    const activeGames = await this.gameModel.listGames('active');
-    const playerInActiveGame = activeGames.find(game => 
-      game.players.some(p => p.id === player.id)
-    );
-    
-    if (playerInActiveGame) {
-      throw new Error('Player is already in an active game');
+    if (existingPlayer.bannedAt) {
+      throw new PlayerBannedError();
     }
     
-    const game = await this.gameModel.joinGame(gameId, player);
+    // One join per player at a time, so two joins can't both pass the busy check
+    const game = await this.joinLock.run(player.id, async () => {
+      // Check if player is already in another active game (bots play any number of games at once)
+      if (player.type !== 'bot') {
+        const activeGames = await this.gameModel.listGames('active');
+        const playerInActiveGame = activeGames.find(game => 
+          game.players.some(p => p.id === player.id)
+        );
+        
+        if (playerInActiveGame) {
+          throw new PlayerBusyError();
+        }
+      }
+      
+      return this.gameModel.joinGame(gameId, player, expectedVersion);
+    });
     console.log(`✅ Player ${player.name} joined game: ${gameId}`);
     
+    this.publish('player_joined', gameId, game, { playerId: player.id });
+    this.syncClock(game);
+    
+    // A bot seated first opens the game as soon as it starts
+    const botResult = await this.playBotTurn(game);
+    
+    return botResult ? botResult.game : game;
+  }
+
+  /**
+   * Add a bot opponent to a game, at the request of a player already seated in it
+   */
+  async addBot(gameId: string, difficulty: BotDifficulty, requestedBy: string): Promise<Game> {
+    console.log(`🤖 Adding ${difficulty} bot to game: ${gameId}`);
+    
+    if (!BOT_DIFFICULTIES.includes(difficulty)) {
+      throw new ValidationError(`Bot difficulty must be one of: ${BOT_DIFFICULTIES.join(', ')}`);
+    }
+    
+    const game = await this.gameModel.getGameById(gameId);
+    if (!game) {
+      throw new GameNotFoundError();
+    }
+    
+    if (!game.players.some(p => p.id === requestedBy)) {
+      throw new PlayerNotInGameError();
+    }
+    
+    const bot = await this.playerModel.getOrCreateBotPlayer(difficulty);
+    return this.joinGame(gameId, bot);
+  }
+
+  /**
+   * Follow a game as a spectator; moves reach them through the game's event stream
+   */
+  async spectateGame(gameId: string, playerId: string): Promise<{ game: Game; spectator: Spectator }> {
+    console.log(`👀 Player ${playerId} spectating game: ${gameId}`);
+    
+    const player = await this.playerModel.getPlayerById(playerId);
+    if (!player) {
+      throw new PlayerNotFoundError('Player not found in database');
+    }
+    
+    const result = await this.gameModel.spectateGame(gameId, playerId);
+    console.log(`✅ Player ${player.name} is spectating game: ${gameId} (${result.game.spectators.length} watching)`);
+    
+    this.publish('spectator_joined', gameId, result.game, { playerId });
+    
+    return result;
+  }
+
+  /**
+   * Stop spectating a game
+   */
+  async leaveSpectating(gameId: string, playerId: string): Promise<Game> {
+    console.log(`👀 Player ${playerId} leaving spectators of game: ${gameId}`);
+    
+    const game = await this.gameModel.leaveSpectating(gameId, playerId);
+    console.log(`✅ Player ${playerId} stopped spectating game: ${gameId}`);
+    
+    this.publish('spectator_left', gameId, game, { playerId });
+    
     return game;
   }
 
   /**
    * Make a move in the game
    */
-  async makeMove(gameId: string, playerId: string, row: number, col: number): Promise<{ game: Game; move: Move }> {
+  async makeMove(
+    gameId: string,
+    playerId: string,
+    row: number,
+    col: number,
+    expectedVersion?: number,
+    symbol?: MoveSymbol
+  ): Promise<{ game: Game; move: Move; botMove?: Move }> {
     console.log(`🎯 Player ${playerId} making move at (${row}, ${col}) in game: ${gameId}`);
     
-    // Validate move coordinates
-    if (row < 0 || row > 2 || col < 0 || col > 2) {
-      throw new Error('Move coordinates must be between 0 and 2');
+    // Board bounds depend on the game's size and are checked by the model
+    if (!Number.isInteger(row) || !Number.isInteger(col) || row < 0 || col < 0) {
+      throw new ValidationError('Move coordinates must be non-negative integers', 'INVALID_COORDINATES');
     }
     
-    const result = await this.gameModel.makeMove(gameId, playerId, row, col);
+    const result = await this.applyMove(gameId, playerId, row, col, expectedVersion, symbol);
     
-    console.log(`✅ Move made: ${result.move.id} at (${row}, ${col})`);
+    // Bots reply straight away, so the caller gets the position after both moves
+    const botResult = await this.playBotTurn(result.game);
+    if (botResult) {
+      return { game: botResult.game, move: result.move, botMove: botResult.move };
+    }
     
-    // Update player stats if game is completed
-    if (result.game.status === 'completed' || result.game.status === 'draw') {
-      await this.updatePlayerStats(result.game);
+    return result;
+  }
+
+  /**
+   * Ask the opponent to undo the player's last move
+   */
+  async requestTakeback(
+    gameId: string,
+    playerId: string,
+    expectedVersion?: number
+  ): Promise<{ game: Game; takeback: Takeback }> {
+    console.log(`↩️  Player ${playerId} requesting a takeback in game: ${gameId}`);
+    
+    const result = await this.gameModel.requestTakeback(gameId, playerId, expectedVersion);
+    console.log(`✅ Takeback requested: ${result.takeback.id}`);
+    
+    this.publish('takeback_requested', gameId, result.game, { playerId, takeback: result.takeback });
+    
+    return result;
+  }
+
+  /**
+   * Accept or decline the pending takeback request
+   */
+  async respondToTakeback(
+    gameId: string,
+    playerId: string,
+    accept: boolean,
+    expectedVersion?: number
+  ): Promise<{ game: Game; takeback: Takeback }> {
+    console.log(`↩️  Player ${playerId} ${accept ? 'accepting' : 'declining'} takeback in game: ${gameId}`);
+    
+    if (typeof accept !== 'boolean') {
+      throw new ValidationError('Takeback response must include accept as a boolean');
+    }
+    
+    const { game, takeback, undoneMove } = await this.gameModel.respondToTakeback(gameId, playerId, accept, expectedVersion);
+    console.log(`✅ Takeback ${takeback.status}: ${takeback.id}`);
+    
+    this.publish(accept ? 'takeback_accepted' : 'takeback_declined', gameId, game, {
+      playerId,
+      takeback,
+      ...(undoneMove ? { move: undoneMove } : {}),
+    });
+    this.syncClock(game);
+    
+    return { game, takeback };
+  }
+
+  /**
+   * Resign a game, handing the win to the opponent; with three or more players
+   * left, the others play on
+   */
+  async resign(gameId: string, playerId: string, expectedVersion?: number): Promise<Game> {
+    console.log(`🏳️  Player ${playerId} resigning game: ${gameId}`);
+    
+    const game = await this.gameModel.resign(gameId, playerId, expectedVersion);
+    this.syncClock(game);
+    
+    if (game.status === 'active') {
+      console.log(`✅ Player ${playerId} resigned and is out, ${game.currentPlayerId} to move`);
+      this.publish('player_eliminated', gameId, game, { playerId });
+      return game;
+    }
+    
+    console.log(`✅ Player ${playerId} resigned, winner: ${game.winnerId}`);
+    await this.completeGame(game);
+    
+    return game;
+  }
+
+  /**
+   * Offer the opponent a draw
+   */
+  async offerDraw(
+    gameId: string,
+    playerId: string,
+    expectedVersion?: number
+  ): Promise<{ game: Game; drawOffer: DrawOffer }> {
+    console.log(`🤝 Player ${playerId} offering a draw in game: ${gameId}`);
+    
+    const result = await this.gameModel.offerDraw(gameId, playerId, expectedVersion);
+    console.log(`✅ Draw offered: ${result.drawOffer.id}`);
+    
+    this.publish('draw_offered', gameId, result.game, { playerId, drawOffer: result.drawOffer });
+    
+    return result;
+  }
+
+  /**
+   * Accept or decline the pending draw offer
+   */
+  async respondToDrawOffer(
+    gameId: string,
+    playerId: string,
+    accept: boolean,
+    expectedVersion?: number
+  ): Promise<{ game: Game; drawOffer: DrawOffer }> {
+    console.log(`🤝 Player ${playerId} ${accept ? 'accepting' : 'declining'} draw offer in game: ${gameId}`);
+    
+    if (typeof accept !== 'boolean') {
+      throw new ValidationError('Draw offer response must include accept as a boolean');
+    }
+    
+    const result = await this.gameModel.respondToDrawOffer(gameId, playerId, accept, expectedVersion);
+    console.log(`✅ Draw offer ${result.drawOffer.status}: ${result.drawOffer.id}`);
+    
+    if (accept) {
+      this.syncClock(result.game);
+      await this.completeGame(result.game);
+    } else {
+      this.publish('draw_declined', gameId, result.game, { playerId, drawOffer: result.drawOffer });
     }
     
     return result;
   }
 
+  /**
+   * End an active game by admin decision; stats and ratings are settled as usual
+   */
+  async forceEndGame(gameId: string, winnerId: string | null, adminId: string | null = null): Promise<Game> {
+    console.log(`🛑 Force-ending game: ${gameId} (winner: ${winnerId || 'none'})`);
+    
+    const game = await this.gameModel.forceEndGame(gameId, winnerId, adminId);
+    
+    this.syncClock(game);
+    await this.completeGame(game);
+    
+    return game;
+  }
+
+  /**
+   * Void a game by admin decision, taking back any stats and ratings it produced
+   */
+  async voidGame(gameId: string, adminId: string | null = null): Promise<Game> {
+    console.log(`🚫 Voiding game: ${gameId}`);
+    
+    const { game, previousResult } = await this.gameModel.voidGame(gameId, adminId);
+    
+    this.syncClock(game);
+    if (previousResult) {
+      await this.revertPlayerStats(game, previousResult);
+    }
+    
+    this.publish('game_voided', gameId, game);
+    
+    // A series game voided mid-play is replayed; one that had finished comes off the series score
+    if (previousResult) {
+      await this.revertSeries(game, previousResult);
+    } else {
+      await this.advanceSeries(game);
+    }
+    
+    return game;
+  }
+
+  /**
+   * Forfeit the game if the player to move has run out of time
+   */
+  async handleTimeout(gameId: string): Promise<Game | null> {
+    const game = await this.gameModel.claimTimeout(gameId);
+    
+    if (!game) {
+      // Moved just in time, or the game is over; re-arm the clock if it is still running
+      const current = await this.gameModel.getGameById(gameId);
+      if (current) {
+        this.syncClock(current);
+      }
+      return null;
+    }
+    
+    if (game.status === 'active') {
+      // Others are still playing, so the next turn's clock starts now
+      console.log(`⏰ A player ran out of time and is out of game: ${gameId}`);
+      this.publish('player_eliminated', gameId, game);
+      this.syncClock(game);
+      return game;
+    }
+    
+    console.log(`⏰ Player ${game.currentPlayerId} ran out of time in game: ${gameId}`);
+    
+    await this.completeGame(game);
+    
+    return game;
+  }
+
+  /**
+   * Re-arm clocks for timed games still in progress, e.g. after a restart
+   */
+  async resumeClocks(): Promise<number> {
+    const activeGames = await this.gameModel.listGames('active');
+    const timedGames = activeGames.filter(game => game.timeControl);
+    
+    timedGames.forEach(game => this.syncClock(game));
+    console.log(`⏱️  Resumed clocks for ${timedGames.length} games`);
+    
+    return timedGames.length;
+  }
+
   /**
    * Get all games
    */
@@ -123,7 +453,7 @@ export class GameService {
    */
   async getGamesByPlayerId(playerId: string): Promise<Game[]> {
     if (!playerId || typeof playerId !== 'string') {
-      throw new Error('Player ID must be a valid string');
+      throw new ValidationError('Player ID must be a valid string');
     }
     
     console.log(`📋 Fetching games for player: ${playerId}`);
@@ -138,18 +468,36 @@ export class GameService {
     return playerGames;
   }
 
+  /**
+   * Delete a player who is not seated in or watching a waiting or active game.
+   * Finished games keep them as they were seated; unfinished ones could not go on without them.
+   */
+  async deletePlayer(playerId: string): Promise<void> {
+    console.log(`🗑️  Deleting player: ${playerId}`);
+
+    // Under the join lock, so the player can't join a game between the check and the delete
+    await this.joinLock.run(playerId, async () => {
+      const unfinishedGames = [
+        ...(await this.gameModel.listGames('waiting')),
+        ...(await this.gameModel.listGames('active')),
+      ];
+      const stillInGame = unfinishedGames.some(game =>
+        game.players.some(p => p.id === playerId) || game.spectators.some(s => s.playerId === playerId)
+      );
+
+      if (stillInGame) {
+        throw new PlayerInUnfinishedGameError();
+      }
+
+      await this.playerModel.deletePlayer(playerId);
+    });
+    console.log(`✅ Player deleted: ${playerId}`);
+  }
+
   /**
    * Get game status
    */
-  async getGameStatus(gameId: string): Promise<{
-    id: string;
-    status: GameStatus;
-    board: any;
-    currentPlayerId: string | null;
-    winnerId: string | null;
-    players: Player[];
-    moves: Move[];
-  }> {
+  async getGameStatus(gameId: string): Promise<GameStatusSummary> {
     console.log(`📊 Fetching status for game: ${gameId}`);
     const status = await this.gameModel.getGameStatus(gameId);
     console.log(`✅ Game ${gameId} status: ${status.status}`);
@@ -159,21 +507,65 @@ export class GameService {
   /**
    * Delete a game
    */
-  async deleteGame(gameId: string): Promise<void> {
+  async deleteGame(gameId: string, adminId: string | null = null): Promise<void> {
     console.log(`🗑️  Deleting game: ${gameId}`);
     
     const game = await this.gameModel.getGameById(gameId);
     if (!game) {
-      throw new Error('Game not found');
+      throw new GameNotFoundError();
     }
     
     // Only allow deletion of completed or waiting games
     if (game.status === 'active') {
-      throw new Error('Cannot delete an active game');
+      throw new BadRequestError('Cannot delete an active game', 'GAME_IN_PROGRESS');
     }
     
-    await this.gameModel.deleteGame(gameId);
+    await this.gameModel.deleteGame(gameId, adminId);
     console.log(`✅ Game deleted: ${gameId}`);
+    
+    this.publish('game_deleted', gameId, null);
+  }
+
+  /**
+   * Get a move-by-move replay of a game, including deleted (archived) games
+   */
+  async getReplay(gameId: string): Promise<GameReplay> {
+    console.log(`🎞️  Fetching replay for game: ${gameId}`);
+    const replay = await this.gameModel.getReplay(gameId);
+    console.log(`✅ Replay for game ${gameId}: ${replay.totalPlies} plies`);
+    return replay;
+  }
+
+  /**
+   * Get the board of a game after a specific ply
+   */
+  async getReplayFrame(gameId: string, ply: number): Promise<{ gameId: string; totalPlies: number; frame: ReplayFrame }> {
+    console.log(`🎞️  Fetching ply ${ply} of game: ${gameId}`);
+    return this.gameModel.getReplayFrame(gameId, ply);
+  }
+
+  /**
+   * Get a page of a game's event log, including deleted (archived) games
+   */
+  async getEventHistory(gameId: string, after?: number, limit?: number): Promise<{ events: GameLogEvent[]; hasMore: boolean }> {
+    console.log(`📜 Fetching event history for game: ${gameId} (after: ${after ?? 0})`);
+    return this.gameModel.getEventHistory(gameId, after, limit);
+  }
+
+  /**
+   * Rebuild a game as it stood at a given version from its event log
+   */
+  async getGameVersion(gameId: string, version: number): Promise<Game> {
+    console.log(`📜 Rebuilding game ${gameId} at version ${version}`);
+    return this.gameModel.rebuildGame(gameId, version);
+  }
+
+  /**
+   * Subscribe to real-time events for a game; returns an unsubscribe function
+   */
+  subscribeToGame(gameId: string, listener: GameEventListener): () => void {
+    console.log(`📡 Subscribing to events for game: ${gameId}`);
+    return this.eventBus.subscribe(gameId, listener);
   }
 
   /**
@@ -198,14 +590,14 @@ export class GameService {
     
     const game = await this.gameModel.getGameById(gameId);
     if (!game) {
-      throw new Error('Game not found');
+      throw new GameNotFoundError();
     }
     
     if (game.status !== 'active') {
-      throw new Error('Game is not active');
+      throw new GameNotActiveError();
     }
     
-    const validMoves = this.gameModel.getValidMoves(game.board);
+    const validMoves = this.gameModel.getValidMoves(game);
     console.log(`✅ Found ${validMoves.length} valid moves for game: ${gameId}`);
     return validMoves;
   }
@@ -225,22 +617,271 @@ export class GameService {
     for (const player of game.players) {
       const playerMoves = game.moves.filter(move => move.playerId === player.id).length;
       
-      let result: 'win' | 'loss' | 'draw';
-      if (game.status === 'draw') {
-        result = 'draw';
-      } else if (game.winnerId === player.id) {
-        result = 'win';
-      } else {
-        result = 'loss';
-      }
+      const result = this.getResultFor(game, player.id);
       
       try {
-        await this.playerModel.recordGameResult(player.id, result, playerMoves);
+        await this.playerModel.recordGameResult(player.id, result, playerMoves, this.getPlacementFor(game, player.id));
         console.log(`✅ Updated stats for player ${player.name}: ${result}`);
       } catch (error) {
         console.error(`❌ Failed to update stats for player ${player.name}:`, error);
       }
     }
+    
+    await this.updateRatings(game);
+  }
+
+  /**
+   * Re-rate both players from their ratings going into the game
+   */
+  private async updateRatings(game: Game): Promise<void> {
+    if (game.players.length !== 2) {
+      return;
+    }
+    
+    const players = await Promise.all(game.players.map(p => this.playerModel.getPlayerById(p.id)));
+    if (players.some(player => !player)) {
+      console.error(`❌ Skipping rating update for game ${game.id}: player not found`);
+      return;
+    }
+    
+    const [first, second] = players as Player[];
+    const scores: Record<GameResult, number> = { win: 1, draw: 0.5, loss: 0 };
+    
+    // Work out both new ratings before saving either, so each side is rated against the other's old rating
+    const changes = [[first, second], [second, first]].map(([player, opponent]) => {
+      const result = this.getResultFor(game, player.id);
+      return {
+        player,
+        previousRating: player.rating.rating,
+        change: {
+          gameId: game.id,
+          opponentId: opponent.id,
+          result,
+          rating: calculateRating(player.rating, [{ opponent: opponent.rating, score: scores[result] }]),
+        },
+      };
+    });
+    
+    for (const { player, previousRating, change } of changes) {
+      try {
+        await this.playerModel.recordRatingChange(player.id, change);
+        console.log(`✅ Updated rating for player ${player.name}: ${Math.round(previousRating)} → ${Math.round(change.rating.rating)}`);
+      } catch (error) {
+        console.error(`❌ Failed to update rating for player ${player.name}:`, error);
+      }
+    }
+  }
+
+  /**
+   * A player's result in a finished game; a player knocked out before a draw lost
+   */
+  private getResultFor(game: Pick<Game, 'status' | 'winnerId' | 'placements'>, playerId: string): GameResult {
+    if (game.status === 'draw') {
+      return game.placements[playerId] > 1 ? 'loss' : 'draw';
+    }
+    return game.winnerId === playerId ? 'win' : 'loss';
+  }
+
+  /**
+   * A player's finishing place, kept in their stats for games of three or more players only
+   */
+  private getPlacementFor(game: Pick<Game, 'players' | 'placements'>, playerId: string): number | undefined {
+    return game.players.length > MIN_PLAYERS ? game.placements[playerId] : undefined;
+  }
+
+  /**
+   * Take back the stats and rating changes a finished game produced
+   */
+  private async revertPlayerStats(game: Game, previousResult: Pick<Game, 'status' | 'winnerId' | 'placements'>): Promise<void> {
+    console.log(`📊 Reverting player stats for voided game: ${game.id}`);
+    
+    for (const player of game.players) {
+      const playerMoves = game.moves.filter(move => move.playerId === player.id).length;
+      const result = this.getResultFor(previousResult, player.id);
+      
+      try {
+        const placement = this.getPlacementFor({ players: game.players, placements: previousResult.placements }, player.id);
+        await this.playerModel.revertGameResult(player.id, result, playerMoves, placement);
+        await this.playerModel.revertRatingChange(player.id, game.id);
+        console.log(`✅ Reverted ${result} for player ${player.name}`);
+      } catch (error) {
+        console.error(`❌ Failed to revert stats for player ${player.name}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Create the next game of a series with both players seated, the opener first
+   */
+  async startSeriesGame(series: Series): Promise<Game> {
+    const opener = this.seriesModel.getNextOpener(series);
+    const seatedIds = series.playerIds[0] === opener ? series.playerIds : [series.playerIds[1], series.playerIds[0]];
+    
+    const players: Player[] = [];
+    for (const playerId of seatedIds) {
+      const player = await this.playerModel.getPlayerById(playerId);
+      if (!player) {
+        throw new PlayerNotFoundError();
+      }
+      players.push(player);
+    }
+    
+    const gameNumber = series.gameIds.length + 1;
+    const name = `${players[0].name} vs ${players[1].name}, game ${gameNumber}`.slice(0, 100);
+    let game = await this.gameModel.createGame(name, series.boardOptions, null, 'standard', MIN_PLAYERS, series.id);
+    
+    try {
+      for (const player of players) {
+        game = await this.joinGame(game.id, player);
+      }
+    } catch (error) {
+      await this.gameModel.discardGame(game.id).catch(() => undefined);
+      throw error;
+    }
+    
+    await this.seriesModel.addGame(series, game.id);
+    console.log(`✅ Series ${series.id} game ${gameNumber} started: ${game.id} (${opener} opens)`);
+    
+    return game;
+  }
+
+  /**
+   * Settle player stats for a finished game and tell subscribers it is over
+   */
+  private async completeGame(game: Game): Promise<void> {
+    await this.updatePlayerStats(game);
+    this.publish('game_completed', game.id, game);
+    await this.advanceSeries(game);
+  }
+
+  /**
+   * Count a finished series game, then start the next game or, once the
+   * series is decided, record its result for both players
+   */
+  private async advanceSeries(game: Game): Promise<void> {
+    const series = await this.seriesModel.recordGame(game);
+    if (!series) {
+      return;
+    }
+    
+    if (series.status === 'active') {
+      try {
+        await this.startSeriesGame(series);
+      } catch (error) {
+        console.error(`❌ Failed to start the next game of series ${series.id}:`, error);
+      }
+      return;
+    }
+    
+    console.log(`🏆 Series ${series.id} won by ${series.winnerId} (${series.playerIds.map(id => series.scores[id]).join('-')})`);
+    for (const playerId of series.playerIds) {
+      try {
+        await this.playerModel.recordSeriesResult(playerId, playerId === series.winnerId);
+      } catch (error) {
+        console.error(`❌ Failed to record series result for player ${playerId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Take a voided game off its series score; if that undoes the series result,
+   * revert it for both players and play on
+   */
+  private async revertSeries(game: Game, previousResult: Pick<Game, 'status' | 'winnerId'>): Promise<void> {
+    const reverted = await this.seriesModel.revertGame(game, previousResult);
+    if (!reverted?.formerWinnerId) {
+      return;
+    }
+    
+    const { series, formerWinnerId } = reverted;
+    console.log(`↩️  Series ${series.id} reopened after voiding game ${game.id}`);
+    for (const playerId of series.playerIds) {
+      try {
+        await this.playerModel.revertSeriesResult(playerId, playerId === formerWinnerId);
+      } catch (error) {
+        console.error(`❌ Failed to revert series result for player ${playerId}:`, error);
+      }
+    }
+    
+    try {
+      await this.startSeriesGame(series);
+    } catch (error) {
+      console.error(`❌ Failed to start the next game of series ${series.id}:`, error);
+    }
+  }
+
+  /**
+   * Record a move, notify subscribers and settle stats if it ended the game
+   */
+  private async applyMove(
+    gameId: string,
+    playerId: string,
+    row: number,
+    col: number,
+    expectedVersion?: number,
+    symbol?: MoveSymbol
+  ): Promise<{ game: Game; move: Move }> {
+    const result = await this.gameModel.makeMove(gameId, playerId, row, col, expectedVersion, symbol);
+    
+    console.log(`✅ Move made: ${result.move.id} at (${row}, ${col})`);
+    
+    this.publish('move_made', gameId, result.game, { playerId, move: result.move });
+    this.syncClock(result.game);
+    
+    // Update player stats if game is completed
+    if (result.game.status === 'completed' || result.game.status === 'draw') {
+      await this.completeGame(result.game);
+    }
+    
+    return result;
+  }
+
+  /**
+   * Play the bot's move if it is a bot's turn
+   */
+  private async playBotTurn(game: Game): Promise<{ game: Game; move: Move } | null> {
+    if (game.status !== 'active') {
+      return null;
+    }
+    
+    const bot = game.players.find(p => p.id === game.currentPlayerId && p.type === 'bot');
+    if (!bot) {
+      return null;
+    }
+    
+    const { row, col } = this.botService.chooseMove(game, bot.id, bot.botDifficulty || 'medium');
+    console.log(`🤖 ${bot.name} playing (${row}, ${col}) in game: ${game.id}`);
+    
+    return this.applyMove(game.id, bot.id, row, col);
+  }
+
+  /**
+   * Schedule the forfeit for the player now on move, or clear it once nothing is ticking
+   */
+  private syncClock(game: Game): void {
+    const deadline = getTurnDeadline(game);
+    if (!deadline) {
+      this.clockScheduler.cancel(game.id);
+      return;
+    }
+    
+    this.clockScheduler.schedule(game.id, deadline, () => {
+      this.handleTimeout(game.id).catch(error => {
+        console.error(`❌ Failed to process timeout for game ${game.id}:`, error);
+      });
+    });
+  }
+
+  /**
+   * Publish a game event to live subscribers
+   */
+  private publish(
+    type: GameEventType,
+    gameId: string,
+    game: Game | null,
+    details: { playerId?: string; move?: Move; takeback?: Takeback; drawOffer?: DrawOffer } = {}
+  ): void {
+    this.eventBus.publish({ type, gameId, game, ...details, timestamp: new Date() });
   }
 
   /**
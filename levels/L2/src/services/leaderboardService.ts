@@ -0,0 +1,178 @@
+import { Game, LeaderboardEntry, LeaderboardPeriod, LeaderboardType, Player } from '../types';
+import { GameModel } from '../models/game';
+import { PlayerModel } from '../models/player';
+import { TtlCache, leaderboardCache } from '../utils/cache';
+import { ValidationError } from '../errors';
+
+export const LEADERBOARD_TYPES: LeaderboardType[] = ['wins', 'efficiency', 'winRate', 'streak', 'rating'];
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['daily', 'weekly', 'all'];
+
+const PERIOD_LENGTH_MS: Record<Exclude<LeaderboardPeriod, 'all'>, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Best first; ties fall back to player ID so pages are stable
+const RANKINGS: Record<LeaderboardType, (a: LeaderboardEntry, b: LeaderboardEntry) => number> = {
+  wins: (a, b) => b.wins - a.wins || b.winRate - a.winRate,
+  efficiency: (a, b) => b.efficiency - a.efficiency || b.wins - a.wins,
+  winRate: (a, b) => b.winRate - a.winRate || b.gamesPlayed - a.gamesPlayed,
+  streak: (a, b) => b.currentStreak - a.currentStreak || b.wins - a.wins,
+  rating: (a, b) => b.rating - a.rating || a.ratingDeviation - b.ratingDeviation,
+};
+
+interface PeriodTally {
+  gamesPlayed: number;
+  wins: number;
+  totalMoves: number;
+  currentStreak: number;
+}
+
+/**
+ * Player rankings over all time or a recent window, cached until a result or
+ * rating changes (or the cache entry expires, since windows slide)
+ */
+export class LeaderboardService {
+  private gameModel: GameModel;
+  private playerModel: PlayerModel;
+  private cache: TtlCache<LeaderboardEntry[]>;
+
+  constructor() {
+    this.gameModel = new GameModel();
+    this.playerModel = new PlayerModel();
+    this.cache = leaderboardCache;
+  }
+
+  /**
+   * Get one page of a leaderboard, plus how many players are ranked on it
+   */
+  async getLeaderboard(
+    type: LeaderboardType,
+    period: LeaderboardPeriod = 'all',
+    page: { limit?: number; offset?: number } = {}
+  ): Promise<{ entries: LeaderboardEntry[]; total: number }> {
+    const { limit = 10, offset = 0 } = page;
+
+    if (!LEADERBOARD_TYPES.includes(type)) {
+      throw new ValidationError(`Leaderboard type must be one of: ${LEADERBOARD_TYPES.join(', ')}`);
+    }
+    if (!LEADERBOARD_PERIODS.includes(period)) {
+      throw new ValidationError(`Period must be one of: ${LEADERBOARD_PERIODS.join(', ')}`);
+    }
+    if (type === 'rating' && period !== 'all') {
+      throw new ValidationError('The rating leaderboard is only available for all time');
+    }
+    if (limit < 1 || limit > 100) {
+      throw new ValidationError('Limit must be between 1 and 100');
+    }
+    if (offset < 0) {
+      throw new ValidationError('Offset must be non-negative');
+    }
+
+    const key = `${type}:${period}`;
+    let ranked = this.cache.get(key);
+    if (!ranked) {
+      ranked = await this.buildLeaderboard(type, period);
+      this.cache.set(key, ranked);
+      console.log(`🏆 Built ${period} ${type} leaderboard: ${ranked.length} players`);
+    }
+
+    return { entries: ranked.slice(offset, offset + limit), total: ranked.length };
+  }
+
+  /**
+   * Rank every player with at least one game in the period
+   */
+  private async buildLeaderboard(type: LeaderboardType, period: LeaderboardPeriod): Promise<LeaderboardEntry[]> {
+    const since = period === 'all' ? null : new Date(Date.now() - PERIOD_LENGTH_MS[period]);
+
+    const [players, games] = await Promise.all([
+      this.playerModel.getAllPlayers(),
+      this.getFinishedGames(since),
+    ]);
+    const tallies = this.tallyGames(games);
+
+    const entries = players.flatMap(player => {
+      const tally = tallies.get(player.id);
+      // All-time totals come from the player's stats, which outlive deleted games
+      const entry = since
+        ? tally && this.toEntry(player, tally)
+        : this.toEntry(player, {
+            gamesPlayed: player.stats.gamesPlayed,
+            wins: player.stats.gamesWon,
+            totalMoves: player.stats.totalMoves,
+            currentStreak: tally?.currentStreak ?? 0,
+          });
+
+      return entry && entry.gamesPlayed > 0 ? [entry] : [];
+    });
+
+    return entries
+      .filter(entry => type !== 'streak' || entry.currentStreak > 0)
+      .sort((a, b) => RANKINGS[type](a, b) || a.playerId.localeCompare(b.playerId))
+      .map((entry, index) => ({ ...entry, rank: index + 1 }));
+  }
+
+  /**
+   * Completed and drawn games that ended in the period, oldest first
+   */
+  private async getFinishedGames(since: Date | null): Promise<Game[]> {
+    const [completed, drawn] = await Promise.all([
+      this.gameModel.listGames('completed'),
+      this.gameModel.listGames('draw'),
+    ]);
+
+    return [...completed, ...drawn]
+      .filter(game => !since || new Date(game.updatedAt) >= since)
+      // Games can end in the same millisecond; the one started first ended first
+      .sort((a, b) =>
+        new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime() ||
+        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+      );
+  }
+
+  /**
+   * Count each player's games, wins and moves; the streak resets on any loss or draw
+   */
+  private tallyGames(games: Game[]): Map<string, PeriodTally> {
+    const tallies = new Map<string, PeriodTally>();
+
+    for (const game of games) {
+      for (const player of game.players) {
+        const tally = tallies.get(player.id) ?? { gamesPlayed: 0, wins: 0, totalMoves: 0, currentStreak: 0 };
+
+        tally.gamesPlayed++;
+        tally.totalMoves += game.moves.filter(move => move.playerId === player.id).length;
+
+        if (game.status === 'completed' && game.winnerId === player.id) {
+          tally.wins++;
+          tally.currentStreak++;
+        } else {
+          tally.currentStreak = 0;
+        }
+
+        tallies.set(player.id, tally);
+      }
+    }
+
+    return tallies;
+  }
+
+  /**
+   * Build an unranked entry; win rate and efficiency use the same formulas as PlayerStats
+   */
+  private toEntry(player: Player, tally: PeriodTally): LeaderboardEntry {
+    return {
+      rank: 0,
+      playerId: player.id,
+      playerName: player.name,
+      gamesPlayed: tally.gamesPlayed,
+      wins: tally.wins,
+      efficiency: tally.totalMoves === 0 ? 0 : tally.wins / tally.totalMoves,
+      winRate: tally.gamesPlayed === 0 ? 0 : (tally.wins / tally.gamesPlayed) * 100,
+      currentStreak: tally.currentStreak,
+      rating: Math.round(player.rating.rating),
+      ratingDeviation: Math.round(player.rating.deviation),
+    };
+  }
+}
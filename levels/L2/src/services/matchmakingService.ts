@@ -0,0 +1,321 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BoardOptions, Game, MatchmakingTicket, Player } from '../types';
+import { GameModel } from '../models/game';
+import { PlayerModel } from '../models/player';
+import { GameService } from './gameService';
+import {
+  AppError,
+  BadRequestError,
+  NotFoundError,
+  PlayerBannedError,
+  PlayerBusyError,
+  PlayerNotFoundError,
+} from '../errors';
+
+// Players start out matched within this many rating points of each other
+const BASE_RATING_TOLERANCE = 100;
+
+// The window widens by this many points for every WIDEN_INTERVAL_MS a ticket has waited
+const RATING_TOLERANCE_STEP = 50;
+const WIDEN_INTERVAL_MS = 10000;
+
+/**
+ * Pairs queued players into new games.
+ *
+ * The queue lives in memory, so it is per process and empties on restart.
+ */
+export class MatchmakingService {
+  private gameService: GameService;
+  private gameModel: GameModel;
+  private playerModel: PlayerModel;
+
+  // Waiting tickets, oldest first
+  private queue: MatchmakingTicket[] = [];
+
+  // Latest ticket per player, kept after a match so the player can find their game
+  private tickets = new Map<string, MatchmakingTicket>();
+
+  // Queue changes run one at a time so a player can never be paired twice
+  private queueLock: Promise<void> = Promise.resolve();
+
+  constructor(gameService: GameService = new GameService()) {
+    this.gameService = gameService;
+    this.gameModel = new GameModel();
+    this.playerModel = new PlayerModel();
+  }
+
+  /**
+   * Add a player to the queue, pairing them straight away if a suitable opponent is waiting
+   */
+  async enqueue(playerId: string, options: Partial<BoardOptions> = {}): Promise<{ ticket: MatchmakingTicket; game: Game | null }> {
+    console.log(`🎲 Player ${playerId} joining the matchmaking queue`);
+
+    return this.withQueueLock(async () => {
+      const player = await this.playerModel.getPlayerById(playerId);
+      if (!player) {
+        throw new PlayerNotFoundError();
+      }
+
+      if (player.type === 'bot') {
+        throw new BadRequestError('Bots cannot join the matchmaking queue', 'BOT_NOT_ALLOWED');
+      }
+
+      if (player.bannedAt) {
+        throw new PlayerBannedError();
+      }
+
+      if (this.queue.some(ticket => ticket.playerId === playerId)) {
+        throw new BadRequestError('Player is already in the matchmaking queue', 'ALREADY_QUEUED');
+      }
+
+      const busyPlayerIds = await this.getPlayersInActiveGames();
+      if (busyPlayerIds.has(playerId)) {
+        throw new PlayerBusyError();
+      }
+
+      const ticket: MatchmakingTicket = {
+        id: uuidv4(),
+        playerId,
+        status: 'queued',
+        boardOptions: this.gameModel.resolveBoardOptions(options),
+        rating: player.rating.rating,
+        enqueuedAt: new Date(),
+        matchedAt: null,
+        gameId: null,
+      };
+
+      this.tickets.set(playerId, ticket);
+      this.queue.push(ticket);
+
+      let game: Game | null;
+      try {
+        game = await this.tryMatch(ticket, player, busyPlayerIds);
+      } catch (error) {
+        this.removeFromQueue(ticket);
+        this.tickets.delete(playerId);
+        throw error;
+      }
+      console.log(game ? `✅ Player ${playerId} matched into game: ${game.id}` : `⏳ Player ${playerId} is waiting for an opponent`);
+
+      return { ticket, game };
+    });
+  }
+
+  /**
+   * Get the player's latest ticket, retrying the match for players still waiting
+   */
+  async getStatus(playerId: string): Promise<MatchmakingTicket> {
+    return this.withQueueLock(async () => {
+      const ticket = this.tickets.get(playerId);
+      if (!ticket) {
+        throw new NotFoundError('Player has no matchmaking ticket', 'TICKET_NOT_FOUND');
+      }
+
+      if (ticket.status === 'queued') {
+        // The longer a ticket waits, the wider its window, so a retry can now succeed
+        const player = await this.playerModel.getPlayerById(playerId);
+        if (player) {
+          await this.tryMatch(ticket, player, await this.getPlayersInActiveGames());
+        }
+      }
+
+      return ticket;
+    });
+  }
+
+  /**
+   * Take a waiting player out of the queue
+   */
+  async cancel(playerId: string): Promise<MatchmakingTicket> {
+    console.log(`🚫 Player ${playerId} leaving the matchmaking queue`);
+
+    return this.withQueueLock(async () => {
+      const ticket = this.queue.find(queued => queued.playerId === playerId);
+      if (!ticket) {
+        throw new NotFoundError('Player is not in the matchmaking queue', 'NOT_QUEUED');
+      }
+
+      this.cancelTicket(ticket);
+
+      return ticket;
+    });
+  }
+
+  /**
+   * Take a player out of the queue without them asking, e.g. when they are banned
+   */
+  async removePlayer(playerId: string): Promise<MatchmakingTicket | null> {
+    return this.withQueueLock(async () => {
+      const ticket = this.queue.find(queued => queued.playerId === playerId);
+      if (!ticket) {
+        return null;
+      }
+
+      this.cancelTicket(ticket);
+      console.log(`🚫 Player ${playerId} removed from the matchmaking queue`);
+
+      return ticket;
+    });
+  }
+
+  /**
+   * Number of players waiting for a match
+   */
+  getQueueSize(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Pair the ticket with the closest waiting opponent who can still play, creating the game with both players seated.
+   *
+   * Opponents who can't be seated lose their place; if anything else fails the game is removed and both players
+   * keep their place in the queue.
+   */
+  private async tryMatch(ticket: MatchmakingTicket, player: Player, busyPlayerIds: Set<string>): Promise<Game | null> {
+    // Players who started a game some other way can no longer be matched
+    for (const stale of this.queue.filter(queued => busyPlayerIds.has(queued.playerId))) {
+      this.cancelTicket(stale);
+    }
+
+    if (ticket.status !== 'queued') {
+      return null;
+    }
+
+    let opponentTicket: MatchmakingTicket | null;
+    while ((opponentTicket = this.findOpponent(ticket, new Date()))) {
+      const opponent = await this.playerModel.getPlayerById(opponentTicket.playerId);
+      if (!opponent || opponent.bannedAt) {
+        this.cancelTicket(opponentTicket);
+        continue;
+      }
+
+      const game = await this.startMatch(ticket, player, opponentTicket, opponent);
+      if (game) {
+        return game;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Create the game and seat both players, or return null if the opponent turned out not to be seatable
+   */
+  private async startMatch(
+    ticket: MatchmakingTicket,
+    player: Player,
+    opponentTicket: MatchmakingTicket,
+    opponent: Player
+  ): Promise<Game | null> {
+    const queueBeforeMatch = [...this.queue];
+    this.removeFromQueue(opponentTicket);
+    this.removeFromQueue(ticket);
+
+    let game: Game | null = null;
+    try {
+      game = await this.gameService.createGame(`${opponent.name} vs ${player.name}`.slice(0, 100), ticket.boardOptions);
+      // Whoever waited longer moves first
+      await this.gameService.joinGame(game.id, opponent);
+    } catch (error) {
+      if (game) {
+        await this.gameModel.discardGame(game.id).catch(() => undefined);
+      }
+      this.queue = queueBeforeMatch;
+      if (!game || !(error instanceof AppError)) {
+        throw error;
+      }
+
+      // The opponent's own problem (e.g. a ban) is not this player's to hear about
+      console.log(`🚫 Dropping ${opponent.id} from the matchmaking queue: ${error.message}`);
+      this.cancelTicket(opponentTicket);
+      return null;
+    }
+
+    try {
+      game = await this.gameService.joinGame(game.id, player);
+    } catch (error) {
+      await this.gameModel.discardGame(game.id).catch(() => undefined);
+      this.queue = queueBeforeMatch;
+      throw error;
+    }
+
+    const matchedAt = new Date();
+    for (const matched of [ticket, opponentTicket]) {
+      matched.status = 'matched';
+      matched.matchedAt = matchedAt;
+      matched.gameId = game.id;
+    }
+
+    return game;
+  }
+
+  /**
+   * Closest rating within tolerance on the same board; ties go to whoever has waited longest
+   */
+  private findOpponent(ticket: MatchmakingTicket, now: Date): MatchmakingTicket | null {
+    let best: MatchmakingTicket | null = null;
+    let bestGap = Infinity;
+
+    for (const candidate of this.queue) {
+      if (candidate.playerId === ticket.playerId || !this.sameBoard(candidate.boardOptions, ticket.boardOptions)) {
+        continue;
+      }
+
+      const gap = Math.abs(candidate.rating - ticket.rating);
+      const tolerance = Math.max(this.getRatingTolerance(candidate, now), this.getRatingTolerance(ticket, now));
+      if (gap <= tolerance && gap < bestGap) {
+        best = candidate;
+        bestGap = gap;
+      }
+    }
+
+    return best;
+  }
+
+  private getRatingTolerance(ticket: MatchmakingTicket, now: Date): number {
+    const waited = now.getTime() - ticket.enqueuedAt.getTime();
+    return BASE_RATING_TOLERANCE + Math.floor(waited / WIDEN_INTERVAL_MS) * RATING_TOLERANCE_STEP;
+  }
+
+  private sameBoard(a: BoardOptions, b: BoardOptions): boolean {
+    return a.rows === b.rows && a.cols === b.cols && a.winLength === b.winLength;
+  }
+
+  private removeFromQueue(ticket: MatchmakingTicket): void {
+    const index = this.queue.indexOf(ticket);
+    if (index !== -1) {
+      this.queue.splice(index, 1);
+    }
+  }
+
+  private cancelTicket(ticket: MatchmakingTicket): void {
+    this.removeFromQueue(ticket);
+    ticket.status = 'cancelled';
+  }
+
+  private async getPlayersInActiveGames(): Promise<Set<string>> {
+    const activeGames = await this.gameModel.listGames('active');
+    return new Set(activeGames.flatMap(game => game.players.map(p => p.id)));
+  }
+
+  /**
+   * Run work once every earlier queue operation has finished
+   */
+  private async withQueueLock<T>(work: () => Promise<T>): Promise<T> {
+    const previous = this.queueLock;
+    let release: () => void = () => undefined;
+    this.queueLock = new Promise(resolve => {
+      release = resolve;
+    });
+    await previous;
+
+    try {
+      return await work();
+    } finally {
+      release();
+    }
+  }
+}
+
+// The queue the API serves, shared so moderation can take banned players out of it
+export const matchmakingService = new MatchmakingService();
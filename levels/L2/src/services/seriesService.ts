@@ -0,0 +1,104 @@
+import { BoardOptions, Game, Series } from '../types';
+import { GameModel } from '../models/game';
+import { PlayerModel } from '../models/player';
+import { SeriesModel } from '../models/series';
+import { GameService } from './gameService';
+import { BadRequestError, PlayerNotFoundError, SeriesNotFoundError } from '../errors';
+
+/**
+ * Best-of-N series between two players. A series starts once the challenged
+ * player accepts; GameService then plays each game and, as one finishes,
+ * scores it and starts the next, so this service only handles challenges and
+ * looks up series.
+ */
+export class SeriesService {
+  private gameService: GameService;
+  private gameModel: GameModel;
+  private playerModel: PlayerModel;
+  private seriesModel: SeriesModel;
+
+  constructor(gameService: GameService = new GameService()) {
+    this.gameService = gameService;
+    this.gameModel = new GameModel();
+    this.playerModel = new PlayerModel();
+    this.seriesModel = new SeriesModel();
+  }
+
+  /**
+   * Challenge an opponent to a series; nothing is played until they accept
+   */
+  async createSeries(
+    playerId: string,
+    opponentId: string,
+    bestOf: number,
+    options: Partial<BoardOptions> = {}
+  ): Promise<Series> {
+    console.log(`🏁 Player ${playerId} challenging ${opponentId} to a best-of-${bestOf} series`);
+
+    const opponent = await this.playerModel.getPlayerById(opponentId);
+    if (!opponent) {
+      throw new PlayerNotFoundError('Opponent not found');
+    }
+
+    if (opponent.type === 'bot') {
+      throw new BadRequestError('Series are played between two human players', 'BOT_NOT_ALLOWED');
+    }
+
+    const boardOptions = this.gameModel.resolveBoardOptions(options);
+    const series = await this.seriesModel.createSeries([playerId, opponentId], bestOf, boardOptions);
+    console.log(`✅ Series challenge created: ${series.id}`);
+
+    return series;
+  }
+
+  /**
+   * Accept or decline a challenge as the challenged player; accepting starts
+   * the first game straight away, opened by the challenger
+   */
+  async respondToChallenge(
+    seriesId: string,
+    playerId: string,
+    accept: boolean
+  ): Promise<{ series: Series; currentGame: Game | null }> {
+    console.log(`🏁 Player ${playerId} ${accept ? 'accepting' : 'declining'} series: ${seriesId}`);
+
+    const series = await this.seriesModel.answerChallenge(seriesId, playerId, accept);
+    if (!accept) {
+      return { series, currentGame: null };
+    }
+
+    // If either player can't be seated yet (e.g. they are in another game), the challenge stays open
+    let currentGame: Game;
+    try {
+      currentGame = await this.gameService.startSeriesGame(series);
+    } catch (error) {
+      await this.seriesModel.reopenChallenge(series).catch(() => undefined);
+      throw error;
+    }
+    console.log(`✅ Series started: ${series.id}`);
+
+    return { series, currentGame };
+  }
+
+  /**
+   * Get a series along with the game now in play, if it is still going
+   */
+  async getSeries(seriesId: string): Promise<{ series: Series; currentGame: Game | null }> {
+    const series = await this.seriesModel.getSeriesById(seriesId);
+    if (!series) {
+      throw new SeriesNotFoundError();
+    }
+
+    const currentGameId = series.gameIds[series.gameIds.length - 1];
+    const currentGame = series.status === 'active' && currentGameId ? await this.gameService.getGameById(currentGameId) : null;
+
+    return { series, currentGame };
+  }
+
+  /**
+   * Get every series a player has taken part in, newest first
+   */
+  async getSeriesForPlayer(playerId: string): Promise<Series[]> {
+    return this.seriesModel.getSeriesForPlayer(playerId);
+  }
+}
@@ -1,19 +1,125 @@
 // Game-related types
 export interface Game {
   id: string;
+  name: string;
   status: GameStatus;
   board: GameBoard;
-  players: Player[];
+  rows: number;
+  cols: number;
+  winLength: number; // marks in a row needed to win
+  players: PublicPlayer[];
   currentPlayerId: string | null;
   winnerId: string | null;
   createdAt: Date;
   updatedAt: Date;
   moves: Move[];
+  takebacks: Takeback[]; // every takeback request made in this game, oldest first
+  drawOffers: DrawOffer[]; // every draw offer made in this game, oldest first
+  timeControl: TimeControl | null; // null = untimed
+  clocks: Record<string, number>; // total time left per player ID, as of turnStartedAt
+  turnStartedAt: Date | null; // when the current player's turn began, while the game is active
+  endReason: GameEndReason | null;
+  spectators: Spectator[]; // read-only watchers, never seated
+  version: number; // bumped on every save; clients send it back as If-Match
+  winResult: WinResult | null; // the line that won the game, for games won on the board
+  variant: GameVariant; // which rules the game is played by, see src/rules
+  ultimate: UltimateState | null; // ultimate games only
+  maxPlayers: number; // seats; the game starts once they are all taken
+  symbols: Record<string, string>; // the symbol each player ID is shown with, by seat
+  placements: Record<string, number>; // finishing place per player ID, 1 = best; filled as players finish
+  seriesId: string | null; // set for games played as part of a series
+}
+
+export type GameStatus = 'waiting' | 'active' | 'completed' | 'draw' | 'voided';
+
+export type GameBoard = (string | null)[][]; // rows x cols grid, null = empty, string = player ID (the symbol in wild, X in notakto)
+
+// 'misere' = completing a line loses; 'wild' = each move is X or O and any line wins;
+// 'notakto' = everyone plays X and completing a line loses; 'ultimate' = nine 3x3 sub-boards on a 9x9 board
+export type GameVariant = 'standard' | 'misere' | 'wild' | 'notakto' | 'ultimate';
+
+// Sub-boards are addressed by { row, col } from 0 to 2; board cell (r, c) lies in sub-board (r / 3, c / 3)
+export interface UltimateState {
+  subBoardWinners: (string | null)[][]; // 3x3; the player who won each sub-board
+  forcedSubBoard: { row: number; col: number } | null; // where the next move must go; null = any open sub-board
+}
+
+export type MoveSymbol = 'X' | 'O';
+
+// 'admin' = force-ended by an admin, 'voided' = annulled by an admin, with no result
+export type GameEndReason = 'line' | 'board_full' | 'timeout' | 'resignation' | 'agreed_draw' | 'admin' | 'voided';
+
+export interface BoardOptions {
+  rows: number;
+  cols: number;
+  winLength: number;
+}
+
+// Either limit can be used on its own; with both, whichever runs out first forfeits the game
+export interface TimeControl {
+  moveTimeLimitMs: number | null; // thinking time allowed for each move
+  initialTimeMs: number | null; // chess-style total clock per player
+  incrementMs: number; // added to the mover's total clock after each move
+}
+
+export interface ClockSummary {
+  timeControl: TimeControl;
+  turnStartedAt: Date | null;
+  moveTimeRemainingMs: number | null; // current player's time left for this move
+  remainingTimeMs: Record<string, number> | null; // total clock per player ID
+}
+
+export type TakebackStatus = 'pending' | 'accepted' | 'declined' | 'cancelled';
+
+export interface Takeback {
+  id: string;
+  moveId: string; // the move that would be undone
+  requestedBy: string;
+  requestedAt: Date;
+  status: TakebackStatus;
+  respondedBy: string | null;
+  respondedAt: Date | null;
+}
+
+// Draw offers follow the same lifecycle as takebacks
+export type DrawOfferStatus = TakebackStatus;
+
+export interface DrawOffer {
+  id: string;
+  offeredBy: string;
+  offeredAt: Date;
+  status: DrawOfferStatus;
+  respondedBy: string | null;
+  respondedAt: Date | null;
 }
 
-export type GameStatus = 'waiting' | 'active' | 'completed' | 'draw';
+export interface Spectator {
+  playerId: string;
+  joinedAt: Date;
+}
 
-export type GameBoard = (number | null)[][]; // 3x3 grid, null = empty, number = player ID
+export interface GameStatusSummary {
+  id: string;
+  status: GameStatus;
+  board: GameBoard;
+  rows: number;
+  cols: number;
+  winLength: number;
+  currentPlayerId: string | null;
+  winnerId: string | null;
+  endReason: GameEndReason | null;
+  winResult: WinResult | null;
+  variant: GameVariant;
+  ultimate: UltimateState | null;
+  maxPlayers: number;
+  symbols: Record<string, string>;
+  placements: Record<string, number>;
+  seriesId: string | null;
+  clock: ClockSummary | null; // null for untimed games
+  players: PublicPlayer[];
+  spectatorCount: number;
+  moves: Move[];
+}
 
 export interface Move {
   id: string;
@@ -21,19 +127,188 @@ export interface Move {
   playerId: string;
   row: number;
   col: number;
+  symbol?: MoveSymbol; // wild games only
+  timestamp: Date;
+}
+
+// Replays are rebuilt from the move list, one frame per ply
+export interface ReplayFrame {
+  ply: number; // moves played so far; 0 is the empty board
+  move: Move | null; // the move that produced this board
+  board: GameBoard;
+  nextPlayerId: string | null; // who moves next, null once the game is over
+}
+
+export interface GameReplay {
+  gameId: string;
+  name: string;
+  status: GameStatus;
+  rows: number;
+  cols: number;
+  winLength: number;
+  players: PublicPlayer[];
+  winnerId: string | null;
+  endReason: GameEndReason | null;
+  archived: boolean; // true once the game has been deleted
+  totalPlies: number;
+  frames: ReplayFrame[];
+}
+
+// Real-time game events (pushed to subscribers of GET /games/:id/events)
+export type GameEventType =
+  | 'player_joined'
+  | 'move_made'
+  | 'player_eliminated'
+  | 'game_completed'
+  | 'game_deleted'
+  | 'takeback_requested'
+  | 'takeback_accepted'
+  | 'takeback_declined'
+  | 'draw_offered'
+  | 'draw_declined'
+  | 'spectator_joined'
+  | 'spectator_left'
+  | 'game_voided';
+
+export interface GameEvent {
+  type: GameEventType;
+  gameId: string;
+  game: Game | null; // null once the game has been deleted
+  playerId?: string;
+  move?: Move;
+  takeback?: Takeback;
+  drawOffer?: DrawOffer;
   timestamp: Date;
 }
 
+// Persisted, append-only log of every change to a game (GET /games/:id/events/history).
+// Events hold what was decided, and replaying them in order rebuilds the game.
+export interface GameLogEventData {
+  game_created: { game: Game }; // the game as first saved
+  player_joined: { player: PublicPlayer };
+  move_made: { move: Move };
+  takeback_requested: { takeback: Takeback };
+  takeback_answered: { takebackId: string; accepted: boolean };
+  draw_offered: { drawOffer: DrawOffer };
+  draw_answered: { drawOfferId: string; accepted: boolean };
+  game_resigned: Record<string, never>;
+  game_timed_out: Record<string, never>; // the player on move forfeits
+  game_force_ended: { winnerId: string | null }; // null = draw
+  game_voided: Record<string, never>;
+  spectator_joined: { spectator: Spectator };
+  spectator_left: Record<string, never>;
+  game_deleted: Record<string, never>;
+}
+
+export type GameLogEventType = keyof GameLogEventData;
+
+export type GameLogEvent = {
+  [T in GameLogEventType]: {
+    id: string;
+    gameId: string;
+    sequence: number; // the game's version once this event is applied; game_created is 1
+    type: T;
+    actorId: string | null; // who made the change; null when the clock did
+    data: GameLogEventData[T];
+    occurredAt: Date;
+  };
+}[GameLogEventType];
+
+// Matchmaking types
+export type MatchmakingStatus = 'queued' | 'matched' | 'cancelled';
+
+export interface MatchmakingTicket {
+  id: string;
+  playerId: string;
+  status: MatchmakingStatus;
+  boardOptions: BoardOptions; // only players asking for the same board are paired
+  rating: number; // the player's rating when they joined the queue
+  enqueuedAt: Date;
+  matchedAt: Date | null;
+  gameId: string | null; // set once matched
+}
+
+// Series types
+// pending until the challenged player (playerIds[1]) answers; declined if they turn it down
+export type SeriesStatus = 'pending' | 'active' | 'completed' | 'declined';
+
+// Consecutive games between the same two players until one reaches winsNeeded; draws don't count
+export interface Series {
+  id: string;
+  playerIds: [string, string]; // the first game opens with playerIds[0], and the opener alternates after that
+  bestOf: number;
+  winsNeeded: number;
+  boardOptions: BoardOptions; // every game of the series is played on this board
+  gameIds: string[]; // oldest first, empty until accepted; while the series is active, the last one is in play
+  scores: Record<string, number>; // games won per player ID
+  draws: number;
+  status: SeriesStatus;
+  winnerId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // Player-related types
+export type PlayerType = 'human' | 'bot';
+
+// easy = random move, medium = win/block heuristic, hard = minimax with alpha-beta pruning
+export type BotDifficulty = 'easy' | 'medium' | 'hard';
+
+export type PlayerRole = 'player' | 'admin';
+
 export interface Player {
   id: string;
   name: string;
   email: string;
+  type: PlayerType;
+  role: PlayerRole;
+  botDifficulty?: BotDifficulty;
   stats: PlayerStats;
+  rating: PlayerRating;
+  bannedAt: Date | null; // banned players cannot join games
+  banReason: string | null;
+  flaggedAt: Date | null; // reported by another player, awaiting admin review
+  flagReason: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// A player as they see themselves (and as admins see anyone outside the admin routes); moderation details stay on the admin routes
+export type PlayerAccount = Omit<Player, 'bannedAt' | 'banReason' | 'flaggedAt' | 'flagReason'>;
+
+// What everyone else sees of a player, including everyone seated in a game
+export type PublicPlayer = Omit<PlayerAccount, 'email'>;
+
+// Glicko-2 rating; deviation shrinks as the rating becomes more certain
+export interface PlayerRating {
+  rating: number;
+  deviation: number;
+  volatility: number;
+}
+
+export type GameResult = 'win' | 'loss' | 'draw';
+
+export interface RatingHistoryEntry {
+  id: string;
+  playerId: string;
+  gameId: string;
+  opponentId: string;
+  result: GameResult;
+  rating: number; // after the game
+  deviation: number;
+  volatility: number;
+  ratingChange: number;
+  recordedAt: Date;
+}
+
+// Stored apart from Player so secrets never reach API responses
+export interface PlayerCredentials {
+  playerId: string;
+  passwordHash: string | null;
+  apiKeyHash: string | null; // set when the player registered without a password
+  updatedAt: Date;
+}
+
 export interface PlayerStats {
   gamesPlayed: number;
   gamesWon: number;
@@ -43,11 +318,21 @@ export interface PlayerStats {
   averageMovesPerWin: number;
   winRate: number;
   efficiency: number; // average moves per win (lower is better)
+  placements: number[]; // games of three or more players finished in each place; index 0 = first
+  seriesPlayed: number;
+  seriesWon: number;
+  seriesLost: number;
 }
 
 // API Request/Response types
 export interface CreateGameRequest {
   name?: string;
+  rows?: number;
+  cols?: number;
+  winLength?: number;
+  timeControl?: Partial<TimeControl>;
+  variant?: GameVariant;
+  maxPlayers?: number;
 }
 
 export interface CreateGameResponse {
@@ -55,8 +340,19 @@ export interface CreateGameResponse {
   message: string;
 }
 
+// Moves and joins act for the player in the bearer token; playerId, when sent, must match it
 export interface JoinGameRequest {
-  playerId: string;
+  playerId?: string;
+}
+
+export interface GetGameHistoryResponse {
+  gameId: string;
+  events: GameLogEvent[]; // oldest first
+  hasMore: boolean; // page on with after = the last event's sequence
+}
+
+export interface GetGameVersionResponse {
+  game: Game; // rebuilt from the event log as it stood at that version
 }
 
 export interface JoinGameResponse {
@@ -65,48 +361,261 @@ export interface JoinGameResponse {
 }
 
 export interface MakeMoveRequest {
-  playerId: string;
+  playerId?: string;
   row: number;
   col: number;
+  symbol?: MoveSymbol; // required in wild games, refused in the others
 }
 
 export interface MakeMoveResponse {
   game: Game;
   move: Move;
+  botMove?: Move; // reply played automatically when the opponent is a bot
+  message: string;
+}
+
+export interface RequestTakebackRequest {
+  playerId?: string;
+}
+
+export interface RespondToTakebackRequest {
+  playerId?: string;
+  accept: boolean;
+}
+
+export interface TakebackResponse {
+  game: Game;
+  takeback: Takeback;
+  message: string;
+}
+
+export interface ResignRequest {
+  playerId?: string;
+}
+
+export interface OfferDrawRequest {
+  playerId?: string;
+}
+
+export interface RespondToDrawOfferRequest {
+  playerId?: string;
+  accept: boolean;
+}
+
+export interface DrawOfferResponse {
+  game: Game;
+  drawOffer: DrawOffer;
+  message: string;
+}
+
+export interface SpectateGameRequest {
+  playerId?: string;
+}
+
+export interface SpectateGameResponse {
+  game: Game;
+  spectator: Spectator;
   message: string;
 }
 
+export interface JoinQueueRequest {
+  playerId?: string;
+  rows?: number;
+  cols?: number;
+  winLength?: number;
+}
+
+export interface JoinQueueResponse {
+  ticket: MatchmakingTicket;
+  game: Game | null; // the new game when a match was found straight away
+  message: string;
+}
+
+export interface RespondToSeriesRequest {
+  playerId?: string;
+  accept: boolean;
+}
+
+export interface CreateSeriesRequest {
+  opponentId: string;
+  bestOf: number;
+  rows?: number;
+  cols?: number;
+  winLength?: number;
+}
+
+export interface SeriesResponse {
+  series: Series;
+  currentGame: Game | null; // the game in play; null before it is accepted and once it is over
+  message?: string;
+}
+
+export interface ListSeriesResponse {
+  series: Series[];
+}
+
+export interface AddBotRequest {
+  difficulty?: BotDifficulty; // medium when omitted
+}
+
 export interface GetGameResponse {
   game: Game;
 }
 
+export interface CreatePlayerRequest {
+  name: string;
+  email: string;
+  password?: string; // without one, an API key is issued instead
+}
+
+export interface CreatePlayerResponse {
+  player: PlayerAccount;
+  apiKey?: string; // only returned once, at registration
+  message: string;
+}
+
+export interface UpdatePlayerRequest {
+  name?: string;
+  email?: string;
+}
+
+export interface LoginRequest {
+  email: string;
+  password?: string;
+  apiKey?: string;
+}
+
+export interface LoginResponse {
+  token: string;
+  expiresAt: Date;
+  player: PlayerAccount;
+}
+
 export interface GetPlayerResponse {
-  player: Player;
+  player: PlayerAccount | PublicPlayer; // the account view for the player themselves or an admin
 }
 
 export interface GetPlayerStatsResponse {
   stats: PlayerStats;
 }
 
+export type PlayerSortField = 'name' | 'createdAt' | 'gamesWon' | 'winRate' | 'rating';
+export type SortOrder = 'asc' | 'desc';
+
+export interface ListPlayersOptions {
+  sortBy?: PlayerSortField;
+  order?: SortOrder;
+  limit?: number; // all remaining players when omitted
+  offset?: number;
+}
+
+export interface ListPlayersResponse {
+  players: Array<PlayerAccount | PublicPlayer>; // as for GetPlayerResponse
+  count: number;
+  total: number; // matching players before paging
+  offset: number;
+  limit: number | null;
+}
+
+export interface SearchPlayersResponse {
+  players: Array<PlayerAccount | PublicPlayer>; // as for GetPlayerResponse
+  count: number;
+  query: string;
+}
+
+export type LeaderboardType = 'wins' | 'efficiency' | 'winRate' | 'streak' | 'rating';
+export type LeaderboardPeriod = 'daily' | 'weekly' | 'all'; // daily/weekly are the last 24 hours / 7 days
+
 export interface LeaderboardEntry {
+  rank: number;
   playerId: string;
   playerName: string;
+  // wins to currentStreak cover the requested period only
+  gamesPlayed: number;
   wins: number;
   efficiency: number;
   winRate: number;
+  currentStreak: number; // consecutive wins up to the player's latest game
+  rating: number; // current rating, whatever the period
+  ratingDeviation: number;
 }
 
 export interface GetLeaderboardResponse {
   leaderboard: LeaderboardEntry[];
-  type: 'wins' | 'efficiency';
+  type: LeaderboardType;
+  period: LeaderboardPeriod;
+  total: number; // ranked players before paging
+  offset: number;
+  limit: number;
+}
+
+export interface GetRatingHistoryResponse {
+  playerId: string;
+  rating: PlayerRating;
+  history: RatingHistoryEntry[];
+}
+
+// Admin types
+export type AdminActionType =
+  | 'end_game'
+  | 'void_game'
+  | 'delete_game'
+  | 'ban_player'
+  | 'unban_player'
+  | 'clear_flag'
+  | 'delete_player'
+  | 'set_role';
+
+// Every admin action is recorded, successful ones only
+export interface AuditLogEntry {
+  id: string;
+  adminId: string;
+  action: AdminActionType;
+  targetType: 'game' | 'player';
+  targetId: string;
+  reason: string | null;
+  details: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export interface FlagPlayerRequest {
+  reason: string;
+}
+
+export interface EndGameRequest {
+  winnerId?: string | null; // omit or null to end the game as a draw
+  reason?: string;
+}
+
+export interface VoidGameRequest {
+  reason?: string;
+}
+
+export interface BanPlayerRequest {
+  reason: string;
+}
+
+export interface SetRoleRequest {
+  role: PlayerRole;
+}
+
+export interface GetAuditLogResponse {
+  entries: AuditLogEntry[];
 }
 
 // Error types
 export interface ApiError {
   error: string;
+  code: string; // stable, machine-readable, e.g. GAME_NOT_FOUND or NOT_YOUR_TURN
   message: string;
   statusCode: number;
   timestamp: string;
+  requestId?: string;
+  path?: string;
+  errors?: ValidationError[]; // one per invalid field when code is VALIDATION_ERROR
+  game?: Game; // the current state when code is VERSION_CONFLICT
+  stack?: string; // development only
+  category?: string; // development only
 }
 
 // Database types
@@ -129,9 +638,9 @@ export interface ValidationError {
 export type WinCondition = 'row' | 'column' | 'diagonal';
 
 export interface WinResult {
-  winner: Player;
+  winnerId: string;
   condition: WinCondition;
-  positions: Array<{ row: number; col: number }>;
+  positions: Array<{ row: number; col: number }>; // every cell of the line, end to end (sub-boards in ultimate)
 }
 
 // Utility types
@@ -146,5 +655,6 @@ export interface Environment {
   NODE_ENV: 'development' | 'production' | 'test';
   PORT: number;
   DATABASE_URL: string;
+  STORAGE_DRIVER: 'sqlite' | 'memory';
   LOG_LEVEL: 'debug' | 'info' | 'warn' | 'error';
 }
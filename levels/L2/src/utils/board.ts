@@ -0,0 +1,86 @@
+import { GameBoard, WinCondition } from '../types';
+
+export interface CellPosition {
+  row: number;
+  col: number;
+}
+
+// Directions scanned when looking for a line of marks
+export const LINE_DIRECTIONS: Array<{ dRow: number; dCol: number; condition: WinCondition }> = [
+  { dRow: 0, dCol: 1, condition: 'row' },
+  { dRow: 1, dCol: 0, condition: 'column' },
+  { dRow: 1, dCol: 1, condition: 'diagonal' },
+  { dRow: 1, dCol: -1, condition: 'diagonal' },
+];
+
+/**
+ * Create an empty rows x cols board
+ */
+export function createEmptyBoard(rows: number, cols: number): GameBoard {
+  return Array.from({ length: rows }, () => Array<string | null>(cols).fill(null));
+}
+
+/**
+ * List every empty cell, row by row
+ */
+export function getEmptyCells(board: GameBoard): CellPosition[] {
+  const cells: CellPosition[] = [];
+
+  for (let row = 0; row < board.length; row++) {
+    for (let col = 0; col < board[row].length; col++) {
+      if (board[row][col] === null) {
+        cells.push({ row, col });
+      }
+    }
+  }
+
+  return cells;
+}
+
+/**
+ * Check whether every cell is occupied
+ */
+export function isBoardFull(board: GameBoard): boolean {
+  return board.every(cells => cells.every(cell => cell !== null));
+}
+
+/**
+ * Find a line of at least winLength through the mark at (row, col), with all of its cells
+ */
+export function findWinningLine(
+  board: GameBoard,
+  row: number,
+  col: number,
+  winLength: number
+): { condition: WinCondition; positions: CellPosition[] } | null {
+  const mark = board[row][col];
+  if (mark === null) {
+    return null;
+  }
+
+  for (const { dRow, dCol, condition } of LINE_DIRECTIONS) {
+    // Back up to the start of the run, then walk to its end
+    let start = 0;
+    while (board[row - dRow * (start + 1)]?.[col - dCol * (start + 1)] === mark) {
+      start++;
+    }
+
+    const positions: CellPosition[] = [];
+    for (let step = -start; board[row + dRow * step]?.[col + dCol * step] === mark; step++) {
+      positions.push({ row: row + dRow * step, col: col + dCol * step });
+    }
+
+    if (positions.length >= winLength) {
+      return { condition, positions };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check whether the mark at (row, col) is part of a line of at least winLength
+ */
+export function isWinningMove(board: GameBoard, row: number, col: number, winLength: number): boolean {
+  return findWinningLine(board, row, col, winLength) !== null;
+}
@@ -0,0 +1,60 @@
+import { LeaderboardEntry } from '../types';
+
+/**
+ * Small in-process cache whose entries expire after a fixed time
+ */
+export class TtlCache<T> {
+  private entries: Map<string, { value: T; expiresAt: number }> = new Map();
+
+  constructor(private ttlMs: number) {}
+
+  get(key: string, now: number = Date.now()): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= now) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return entry.value;
+  }
+
+  set(key: string, value: T, now: number = Date.now()): void {
+    // Re-inserting keeps the map in expiry order, so expired entries sit at the front
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: now + this.ttlMs });
+    this.evictExpired(now);
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Drop every entry
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Drop expired entries that nobody asked for again
+   */
+  private evictExpired(now: number): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt > now) {
+        break;
+      }
+      this.entries.delete(key);
+    }
+  }
+}
+
+// Daily and weekly windows slide, so even untouched rankings go stale after a minute
+export const LEADERBOARD_CACHE_TTL_MS = 60 * 1000;
+
+// Shared by LeaderboardService and cleared by PlayerModel whenever stats or ratings change
+export const leaderboardCache = new TtlCache<LeaderboardEntry[]>(LEADERBOARD_CACHE_TTL_MS);
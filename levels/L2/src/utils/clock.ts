@@ -0,0 +1,56 @@
+import { ClockSummary, Game } from '../types';
+
+/**
+ * When the current player's time runs out, or null if nothing is ticking
+ */
+export function getTurnDeadline(game: Game): Date | null {
+  if (!game.timeControl || game.status !== 'active' || !game.turnStartedAt || !game.currentPlayerId) {
+    return null;
+  }
+
+  const { moveTimeLimitMs } = game.timeControl;
+  const clock = game.clocks[game.currentPlayerId];
+  const limits = [moveTimeLimitMs, clock].filter((limit): limit is number => typeof limit === 'number');
+  if (limits.length === 0) {
+    return null;
+  }
+
+  return new Date(game.turnStartedAt.getTime() + Math.min(...limits));
+}
+
+/**
+ * Check whether the current player has run out of time
+ */
+export function isTurnExpired(game: Game, now: Date = new Date()): boolean {
+  const deadline = getTurnDeadline(game);
+  return deadline !== null && now.getTime() >= deadline.getTime();
+}
+
+/**
+ * Time left on each clock at the given instant
+ */
+export function getClockSummary(game: Game, now: Date = new Date()): ClockSummary | null {
+  if (!game.timeControl) {
+    return null;
+  }
+
+  const ticking = game.status === 'active' && game.turnStartedAt !== null;
+  const elapsed = ticking ? Math.max(0, now.getTime() - game.turnStartedAt!.getTime()) : 0;
+
+  let remainingTimeMs: Record<string, number> | null = null;
+  if (game.timeControl.initialTimeMs !== null) {
+    remainingTimeMs = {};
+    for (const [playerId, clock] of Object.entries(game.clocks)) {
+      remainingTimeMs[playerId] = playerId === game.currentPlayerId ? Math.max(0, clock - elapsed) : clock;
+    }
+  }
+
+  const { moveTimeLimitMs } = game.timeControl;
+
+  return {
+    timeControl: game.timeControl,
+    turnStartedAt: game.turnStartedAt,
+    moveTimeRemainingMs: ticking && moveTimeLimitMs !== null ? Math.max(0, moveTimeLimitMs - elapsed) : null,
+    remainingTimeMs,
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * Runs async work one call at a time per key, so a check-then-act sequence
+ * cannot interleave with another one for the same key. Only holds within this
+ * process.
+ */
+export class KeyedLock {
+  private tails: Map<string, Promise<void>> = new Map();
+
+  async run<T>(key: string, work: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) || Promise.resolve();
+    let release: () => void = () => undefined;
+    const tail = previous.then(() => new Promise<void>(resolve => {
+      release = resolve;
+    }));
+    this.tails.set(key, tail);
+    await previous;
+
+    try {
+      return await work();
+    } finally {
+      release();
+      // Last one out drops the key so idle keys don't pile up
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    }
+  }
+}
+
+// Held while a player is checked for other active games and seated
+export const playerJoinLock = new KeyedLock();
@@ -0,0 +1,24 @@
+import { Player, PlayerAccount, PublicPlayer } from '../types';
+
+/**
+ * A player without their moderation details, for the player themselves and for admins outside the admin routes
+ */
+export function toPlayerAccount(player: PlayerAccount): PlayerAccount {
+  const { bannedAt, banReason, flaggedAt, flagReason, ...account } = player as Player;
+  return account;
+}
+
+/**
+ * A player as anyone else sees them: no moderation details and no email
+ */
+export function toPublicPlayer(player: PublicPlayer): PublicPlayer {
+  const { email, ...publicPlayer } = toPlayerAccount(player as PlayerAccount);
+  return publicPlayer;
+}
+
+/**
+ * The account view for the player themselves or an admin, the public view for anyone else
+ */
+export function viewPlayerAs(viewer: Player | undefined, player: Player): PlayerAccount | PublicPlayer {
+  return viewer && (viewer.id === player.id || viewer.role === 'admin') ? toPlayerAccount(player) : toPublicPlayer(player);
+}
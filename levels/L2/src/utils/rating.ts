@@ -0,0 +1,123 @@
+import { PlayerRating } from '../types';
+
+/**
+ * Glicko-2 rating calculation.
+ *
+ * See Glickman, "Example of the Glicko-2 system" (2013). Each finished game is
+ * treated as its own rating period.
+ */
+
+export const DEFAULT_RATING: PlayerRating = { rating: 1500, deviation: 350, volatility: 0.06 };
+
+// Constrains how much volatility can change between periods; 0.3-1.2 is typical
+const TAU = 0.5;
+
+// Converts between the Glicko and Glicko-2 scales
+const SCALE = 173.7178;
+
+const CONVERGENCE_TOLERANCE = 0.000001;
+
+export interface RatedResult {
+  opponent: PlayerRating;
+  score: number; // 1 = win, 0.5 = draw, 0 = loss
+}
+
+/**
+ * Create a fresh rating for a new player
+ */
+export function createInitialRating(): PlayerRating {
+  return { ...DEFAULT_RATING };
+}
+
+/**
+ * Rate a player after a period of games against opponents with the given (pre-game) ratings
+ */
+export function calculateRating(player: PlayerRating, results: RatedResult[]): PlayerRating {
+  const mu = (player.rating - DEFAULT_RATING.rating) / SCALE;
+  const phi = player.deviation / SCALE;
+  const sigma = player.volatility;
+
+  // Sitting out a period only makes the rating less certain
+  if (results.length === 0) {
+    return {
+      rating: player.rating,
+      deviation: Math.min(Math.sqrt(phi ** 2 + sigma ** 2) * SCALE, DEFAULT_RATING.deviation),
+      volatility: sigma,
+    };
+  }
+
+  let varianceInverse = 0;
+  let improvement = 0;
+  for (const { opponent, score } of results) {
+    const opponentMu = (opponent.rating - DEFAULT_RATING.rating) / SCALE;
+    const g = weight(opponent.deviation / SCALE);
+    const expected = 1 / (1 + Math.exp(-g * (mu - opponentMu)));
+
+    varianceInverse += g ** 2 * expected * (1 - expected);
+    improvement += g * (score - expected);
+  }
+
+  const variance = 1 / varianceInverse;
+  const delta = variance * improvement;
+  const newSigma = calculateVolatility(phi, sigma, variance, delta);
+
+  const phiStar = Math.sqrt(phi ** 2 + newSigma ** 2);
+  const newPhi = 1 / Math.sqrt(1 / phiStar ** 2 + 1 / variance);
+  const newMu = mu + newPhi ** 2 * improvement;
+
+  return {
+    rating: newMu * SCALE + DEFAULT_RATING.rating,
+    deviation: Math.min(newPhi * SCALE, DEFAULT_RATING.deviation),
+    volatility: newSigma,
+  };
+}
+
+/**
+ * Discount a result by how uncertain the opponent's rating is
+ */
+function weight(phi: number): number {
+  return 1 / Math.sqrt(1 + (3 * phi ** 2) / Math.PI ** 2);
+}
+
+/**
+ * Solve for the new volatility with the Illinois variant of regula falsi
+ */
+function calculateVolatility(phi: number, sigma: number, variance: number, delta: number): number {
+  const a = Math.log(sigma ** 2);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const denominator = phi ** 2 + variance + ex;
+    return (ex * (delta ** 2 - phi ** 2 - variance - ex)) / (2 * denominator ** 2) - (x - a) / TAU ** 2;
+  };
+
+  let lower = a;
+  let upper: number;
+  if (delta ** 2 > phi ** 2 + variance) {
+    upper = Math.log(delta ** 2 - phi ** 2 - variance);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) {
+      k++;
+    }
+    upper = a - k * TAU;
+  }
+
+  let fLower = f(lower);
+  let fUpper = f(upper);
+  while (Math.abs(upper - lower) > CONVERGENCE_TOLERANCE) {
+    const candidate = lower + ((lower - upper) * fLower) / (fUpper - fLower);
+    const fCandidate = f(candidate);
+
+    if (fCandidate * fUpper <= 0) {
+      lower = upper;
+      fLower = fUpper;
+    } else {
+      fLower /= 2;
+    }
+
+    upper = candidate;
+    fUpper = fCandidate;
+  }
+
+  return Math.exp(lower / 2);
+}
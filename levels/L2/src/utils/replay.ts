@@ -0,0 +1,51 @@
+import { Game, GameBoard, ReplayFrame } from '../types';
+import { createEmptyBoard } from './board';
+import { getRuleEngine } from '../rules';
+
+/**
+ * Rebuild the board after every ply, starting from the empty board
+ */
+export function buildReplayFrames(game: Game): ReplayFrame[] {
+  const rules = getRuleEngine(game.variant);
+  const board = createEmptyBoard(game.rows, game.cols);
+  const frames: ReplayFrame[] = [createFrame(game, board, 0)];
+
+  game.moves.forEach((move, index) => {
+    board[move.row][move.col] = rules.markFor(move);
+    frames.push(createFrame(game, board, index + 1));
+  });
+
+  return frames;
+}
+
+/**
+ * Rebuild the board as it stood after the given number of plies
+ */
+export function buildReplayFrame(game: Game, ply: number): ReplayFrame {
+  const rules = getRuleEngine(game.variant);
+  const board = createEmptyBoard(game.rows, game.cols);
+
+  for (const move of game.moves.slice(0, ply)) {
+    board[move.row][move.col] = rules.markFor(move);
+  }
+
+  return createFrame(game, board, ply);
+}
+
+function createFrame(game: Game, board: GameBoard, ply: number): ReplayFrame {
+  const isLastPly = ply === game.moves.length;
+
+  let nextPlayerId: string | null;
+  if (!isLastPly) {
+    nextPlayerId = game.moves[ply].playerId;
+  } else {
+    nextPlayerId = game.status === 'active' ? game.currentPlayerId : null;
+  }
+
+  return {
+    ply,
+    move: ply > 0 ? game.moves[ply - 1] : null,
+    board: board.map(row => [...row]),
+    nextPlayerId,
+  };
+}
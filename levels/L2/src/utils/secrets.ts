@@ -0,0 +1,50 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+/**
+ * Password and API key hashing with scrypt.
+ *
+ * Hashes are stored as `scrypt:<salt>:<key>` (hex) so the parameters can
+ * change later without breaking existing credentials.
+ */
+
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+const API_KEY_BYTES = 24;
+
+function deriveKey(secret: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(secret, salt, KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+/**
+ * Hash a password or API key with a fresh random salt
+ */
+export async function hashSecret(secret: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await deriveKey(secret, salt);
+
+  return `scrypt:${salt.toString('hex')}:${key.toString('hex')}`;
+}
+
+/**
+ * Check a password or API key against a stored hash in constant time
+ */
+export async function verifySecret(secret: string, storedHash: string): Promise<boolean> {
+  const [scheme, saltHex, keyHex] = storedHash.split(':');
+  if (scheme !== 'scrypt' || !saltHex || !keyHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(keyHex, 'hex');
+  const actual = await deriveKey(secret, Buffer.from(saltHex, 'hex'));
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Generate a random API key; only its hash is stored
+ */
+export function generateApiKey(): string {
+  return `ttt_${randomBytes(API_KEY_BYTES).toString('base64url')}`;
+}
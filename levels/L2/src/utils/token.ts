@@ -0,0 +1,91 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Signed bearer tokens: `<payload>.<signature>`, both base64url, where the
+ * signature is an HMAC-SHA256 of the payload.
+ */
+
+export const DEFAULT_TOKEN_TTL_SECONDS = 24 * 60 * 60;
+
+export interface TokenPayload {
+  sub: string; // player ID
+  iat: number; // issued at, seconds since the epoch
+  exp: number; // expires at, seconds since the epoch
+}
+
+let generatedSecret: string | null = null;
+
+/**
+ * Signing secret from AUTH_TOKEN_SECRET, or a per-process one for local runs
+ */
+export function getTokenSecret(): string {
+  if (process.env.AUTH_TOKEN_SECRET) {
+    return process.env.AUTH_TOKEN_SECRET;
+  }
+
+  if (!generatedSecret) {
+    generatedSecret = randomBytes(32).toString('hex');
+    console.warn('⚠️  AUTH_TOKEN_SECRET is not set; issued tokens will not survive a restart');
+  }
+  return generatedSecret;
+}
+
+/**
+ * Token lifetime from AUTH_TOKEN_TTL_SECONDS, defaulting to one day
+ */
+export function getTokenTtlSeconds(): number {
+  const ttl = Number(process.env.AUTH_TOKEN_TTL_SECONDS);
+  return Number.isInteger(ttl) && ttl > 0 ? ttl : DEFAULT_TOKEN_TTL_SECONDS;
+}
+
+/**
+ * Issue a token for a player
+ */
+export function signToken(
+  playerId: string,
+  secret: string,
+  ttlSeconds: number = DEFAULT_TOKEN_TTL_SECONDS,
+  now: Date = new Date()
+): { token: string; expiresAt: Date } {
+  const iat = Math.floor(now.getTime() / 1000);
+  const payload: TokenPayload = { sub: playerId, iat, exp: iat + ttlSeconds };
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+  return {
+    token: `${encodedPayload}.${sign(encodedPayload, secret)}`,
+    expiresAt: new Date(payload.exp * 1000),
+  };
+}
+
+/**
+ * Read a token's payload, or null if it is malformed, tampered with or expired
+ */
+export function verifyToken(token: string, secret: string, now: Date = new Date()): TokenPayload | null {
+  const [encodedPayload, signature, ...rest] = token.split('.');
+  if (!encodedPayload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(encodedPayload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  let payload: TokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+
+  if (typeof payload.sub !== 'string' || typeof payload.exp !== 'number') {
+    return null;
+  }
+
+  return payload.exp * 1000 > now.getTime() ? payload : null;
+}
+
+function sign(encodedPayload: string, secret: string): string {
+  return createHmac('sha256', secret).update(encodedPayload).digest('base64url');
+}
@@ -0,0 +1,153 @@
+import { EventEmitter } from 'events';
+import { NextFunction, Request, Response } from 'express';
+import { idempotent, idempotentWithReplay, idempotencyStore } from '../../../src/middleware/idempotency';
+import { AuthService } from '../../../src/services/authService';
+import { PlayerModel } from '../../../src/models/player';
+import { InMemoryPlayerRepository } from '../../../src/repositories';
+import { IdempotencyKeyInUseError, IdempotencyKeyReusedError } from '../../../src/errors';
+
+describe('idempotent', () => {
+  const mockConsoleLog = jest.spyOn(console, 'log').mockImplementation();
+
+  interface FakeResponse extends EventEmitter {
+    statusCode: number;
+    headers: Record<string, string>;
+    body?: string;
+    status(code: number): FakeResponse;
+    set(name: string, value: string): FakeResponse;
+    get(name: string): string | undefined;
+    type(type: string): FakeResponse;
+    send(body: string): FakeResponse;
+    json(body: unknown): FakeResponse;
+  }
+
+  const createResponse = (): FakeResponse => {
+    const res = new EventEmitter() as FakeResponse;
+    res.statusCode = 200;
+    res.headers = {};
+    res.status = code => {
+      res.statusCode = code;
+      return res;
+    };
+    res.set = (name, value) => {
+      res.headers[name] = value;
+      return res;
+    };
+    res.get = name => res.headers[name];
+    res.type = () => res;
+    res.send = body => {
+      res.body = body;
+      return res;
+    };
+    res.json = body => res.send(JSON.stringify(body));
+    return res;
+  };
+
+  const createRequest = (key: string, body: unknown, playerId = 'player-1'): Request =>
+    ({
+      method: 'POST',
+      originalUrl: '/games/game-1/moves',
+      body,
+      player: { id: playerId },
+      get: (name: string) => (name === 'Idempotency-Key' ? key : undefined),
+    }) as unknown as Request;
+
+  // Runs the middleware and, if it lets the request through, the handler
+  const send = (
+    req: Request,
+    handler: (res: FakeResponse) => void = () => undefined,
+    middleware: (req: Request, res: Response, next: NextFunction) => void = idempotent
+  ) => {
+    const res = createResponse();
+    const next = jest.fn((error?: unknown) => {
+      if (!error) {
+        handler(res);
+      }
+    });
+    middleware(req, res as unknown as Response, next);
+    return { res, next, error: next.mock.calls[0]?.[0] };
+  };
+
+  beforeEach(() => {
+    idempotencyStore.clear();
+    mockConsoleLog.mockClear();
+  });
+
+  it('should replay the first response for a retried request', () => {
+    const handler = jest.fn((res: FakeResponse) => res.set('ETag', '"4"').status(200).json({ move: { row: 1, col: 1 } }));
+
+    const first = send(createRequest('key-1', { row: 1, col: 1 }), handler);
+    const retry = send(createRequest('key-1', { row: 1, col: 1 }), handler);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(retry.next).not.toHaveBeenCalled();
+    expect(retry.res.statusCode).toBe(200);
+    expect(retry.res.body).toBe(first.res.body);
+    expect(retry.res.headers).toMatchObject({ ETag: '"4"', 'Idempotent-Replayed': 'true' });
+  });
+
+  it('should replay client errors too', () => {
+    send(createRequest('key-1', { row: 1, col: 1 }), res => res.status(400).json({ code: 'NOT_YOUR_TURN' }));
+    const retry = send(createRequest('key-1', { row: 1, col: 1 }));
+
+    expect(retry.res.statusCode).toBe(400);
+    expect(JSON.parse(retry.res.body!)).toEqual({ code: 'NOT_YOUR_TURN' });
+  });
+
+  it('should refuse a key reused for a different request', () => {
+    send(createRequest('key-1', { row: 1, col: 1 }), res => res.json({}));
+    const { error } = send(createRequest('key-1', { row: 2, col: 2 }));
+
+    expect(error).toBeInstanceOf(IdempotencyKeyReusedError);
+    expect(error).toMatchObject({ statusCode: 422, code: 'IDEMPOTENCY_KEY_REUSED' });
+  });
+
+  it('should refuse a duplicate while the first request is still running', () => {
+    send(createRequest('key-1', { row: 1, col: 1 }));
+    const { error } = send(createRequest('key-1', { row: 1, col: 1 }));
+
+    expect(error).toBeInstanceOf(IdempotencyKeyInUseError);
+    expect(error).toMatchObject({ statusCode: 409 });
+  });
+
+  it('should let a request run again after a server error or a dropped connection', () => {
+    send(createRequest('key-1', { row: 1, col: 1 }), res => res.status(500).json({}));
+    const afterError = send(createRequest('key-1', { row: 1, col: 1 }));
+    expect(afterError.error).toBeUndefined();
+
+    afterError.res.emit('close');
+    const afterClose = send(createRequest('key-1', { row: 1, col: 1 }));
+    expect(afterClose.error).toBeUndefined();
+  });
+
+  it('should replay a retried registration without its API key instead of registering again', async () => {
+    const authService = new AuthService();
+    (authService as any).playerModel = new PlayerModel(new InMemoryPlayerRepository());
+    const register = idempotentWithReplay(body => {
+      const { apiKey, ...replay } = body as { apiKey?: string };
+      return replay;
+    });
+    const handler = jest.fn(async (res: FakeResponse) => {
+      const { player, apiKey } = await authService.register('Alice', 'alice@test.com');
+      res.status(201).json({ player: { id: player.id }, apiKey });
+    });
+
+    const first = send(createRequest('key-1', { name: 'Alice', email: 'alice@test.com' }), handler, register);
+    await handler.mock.results[0].value;
+    const retry = send(createRequest('key-1', { name: 'Alice', email: 'alice@test.com' }), handler, register);
+
+    const { player, apiKey } = JSON.parse(first.res.body!);
+    expect(apiKey).toMatch(/^ttt_/);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(retry.res.statusCode).toBe(201);
+    expect(retry.res.headers).toMatchObject({ 'Idempotent-Replayed': 'true' });
+    expect(JSON.parse(retry.res.body!)).toEqual({ player });
+  });
+
+  it('should keep keys apart per player', () => {
+    send(createRequest('key-1', { row: 1, col: 1 }, 'player-1'), res => res.json({}));
+    const other = send(createRequest('key-1', { row: 1, col: 1 }, 'player-2'));
+
+    expect(other.next).toHaveBeenCalledWith();
+  });
+});
@@ -0,0 +1,75 @@
+import { Request, Response } from 'express';
+import { validationMiddleware } from '../../../src/middleware/validation';
+import { RequestValidationError } from '../../../src/errors';
+
+describe('validationMiddleware', () => {
+  const run = (middleware: (req: Request, res: Response, next: (error?: unknown) => void) => void, req: Partial<Request>) => {
+    const next = jest.fn();
+    const request = req as Request;
+    middleware(request, {} as Response, next);
+    return { next, request, error: next.mock.calls[0][0] as RequestValidationError | undefined };
+  };
+
+  it('should pass a valid move through', () => {
+    const { error, request } = run(validationMiddleware.validateMakeMove, { body: { row: 1, col: 2 } });
+
+    expect(error).toBeUndefined();
+    expect(request.body).toEqual({ row: 1, col: 2 });
+  });
+
+  it('should list every invalid field of a move', () => {
+    const { error } = run(validationMiddleware.validateMakeMove, { body: { row: '1', col: -1 } });
+
+    expect(error).toBeInstanceOf(RequestValidationError);
+    expect(error?.statusCode).toBe(400);
+    expect(error?.errors).toEqual([
+      { field: 'row', message: 'row must be a number', value: '1' },
+      { field: 'col', message: 'col must be non-negative', value: -1 },
+    ]);
+  });
+
+  it('should reject out-of-range board sizes when creating a game', () => {
+    const { error } = run(validationMiddleware.validateCreateGame, { body: { rows: 2, timeControl: { incrementMs: 1.5 } } });
+
+    expect(error?.errors.map(e => e.field)).toEqual(['rows', 'timeControl.incrementMs']);
+  });
+
+  it('should not echo passwords back', () => {
+    const { error } = run(validationMiddleware.validateCreatePlayer, {
+      body: { name: 'Alice', email: 'alice@test.com', password: 'short' },
+    });
+
+    expect(error?.errors).toEqual([{ field: 'password', message: 'Password must be at least 8 characters' }]);
+  });
+
+  it('should require something to update', () => {
+    const { error } = run(validationMiddleware.validateUpdatePlayer, { body: {} });
+
+    expect(error?.errors).toEqual([{ field: 'body', message: 'Provide a name or email to update' }]);
+  });
+
+  it('should require a yes or no when answering a takeback or draw offer', () => {
+    const { error } = run(validationMiddleware.validateAnswer, { body: { accept: 'yes' } });
+
+    expect(error?.errors).toEqual([{ field: 'accept', message: 'accept must be true or false', value: 'yes' }]);
+  });
+
+  it('should check admin action bodies', () => {
+    const endGame = run(validationMiddleware.validateEndGame, { body: { winnerId: 42, reason: '  ' } });
+    const setRole = run(validationMiddleware.validateSetRole, { body: { role: 'owner' } });
+    const ban = run(validationMiddleware.validateBanPlayer, { body: {} });
+
+    expect(endGame.error?.errors.map(e => e.field)).toEqual(['winnerId', 'reason']);
+    expect(setRole.error?.errors).toEqual([{ field: 'role', message: 'role must be one of: player, admin', value: 'owner' }]);
+    expect(ban.error?.errors).toEqual([{ field: 'reason', message: 'Ban reason is required' }]);
+  });
+
+  it('should coerce and bound query strings', () => {
+    const valid = run(validationMiddleware.validateListGames, { query: { status: 'active', limit: '20', offset: '40' } });
+    const invalid = run(validationMiddleware.validateListGames, { query: { status: 'paused', limit: '500' } });
+
+    expect(valid.error).toBeUndefined();
+    expect(valid.request.query).toEqual({ status: 'active', limit: 20, offset: 40 });
+    expect(invalid.error?.errors.map(e => e.field)).toEqual(['limit', 'status']);
+  });
+});
@@ -0,0 +1,726 @@
+import { GameModel } from '../../../src/models/game';
+import { InMemoryGameRepository } from '../../../src/repositories';
+import { getRuleEngine } from '../../../src/rules';
+import {
+  CellOccupiedError,
+  GameNotFoundError,
+  GameNotJoinableError,
+  GameVersionConflictError,
+  NotYourTurnError,
+} from '../../../src/errors';
+import { Game, GameVariant, Player, TimeControl } from '../../../src/types';
+
+describe('GameModel', () => {
+  let gameModel: GameModel;
+
+  const createPlayer = (id: string): Player => ({
+    id,
+    name: `Player ${id}`,
+    email: `${id}@test.com`,
+    type: 'human',
+    role: 'player',
+    stats: {} as any,
+    rating: {} as any,
+    bannedAt: null,
+    banReason: null,
+    flaggedAt: null,
+    flagReason: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const player1 = createPlayer('player-1');
+  const player2 = createPlayer('player-2');
+
+  const startGame = async (options = {}, timeControl: Partial<TimeControl> | null = null): Promise<Game> => {
+    const game = await gameModel.createGame('Test Game', options, timeControl);
+    await gameModel.joinGame(game.id, player1);
+    return gameModel.joinGame(game.id, player2);
+  };
+
+  const playMoves = async (game: Game, moves: Array<[number, number]>): Promise<Game> => {
+    let current = game;
+    for (const [row, col] of moves) {
+      current = (await gameModel.makeMove(game.id, current.currentPlayerId!, row, col)).game;
+    }
+    return current;
+  };
+
+  beforeEach(() => {
+    gameModel = new GameModel(new InMemoryGameRepository());
+  });
+
+  describe('createGame', () => {
+    it('should default to a 3x3 board with three in a row', async () => {
+      const game = await gameModel.createGame();
+
+      expect(game.rows).toBe(3);
+      expect(game.cols).toBe(3);
+      expect(game.winLength).toBe(3);
+      expect(game.board).toEqual([[null, null, null], [null, null, null], [null, null, null]]);
+    });
+
+    it('should create a rectangular board', async () => {
+      const game = await gameModel.createGame('Wide', { rows: 4, cols: 6, winLength: 4 });
+
+      expect(game.board).toHaveLength(4);
+      expect(game.board.every(row => row.length === 6)).toBe(true);
+      expect(gameModel.getValidMoves(game)).toHaveLength(24);
+    });
+
+    it('should reject invalid board options', async () => {
+      await expect(gameModel.createGame('Tiny', { rows: 2 })).rejects.toThrow('Board rows must be an integer between 3 and 19');
+      await expect(gameModel.createGame('Huge', { cols: 20 })).rejects.toThrow('Board cols must be an integer between 3 and 19');
+      await expect(gameModel.createGame('Long', { rows: 3, cols: 4, winLength: 5 })).rejects.toThrow('Win length must be an integer between 3 and 4');
+    });
+  });
+
+  describe('joinGame', () => {
+    it('should seat players without their moderation details, in the game and its event log', async () => {
+      const flagged = { ...createPlayer('player-3'), flaggedAt: new Date(), flagReason: 'Stalling' };
+      const game = await gameModel.createGame();
+      const joined = await gameModel.joinGame(game.id, flagged);
+      const { events } = await gameModel.getEventHistory(game.id);
+
+      expect(joined.players[0]).not.toHaveProperty('flagReason');
+      expect(joined.players[0]).toMatchObject({ id: 'player-3', name: 'Player player-3' });
+      expect(events[1].data).not.toHaveProperty('player.flagReason');
+    });
+  });
+
+  describe('makeMove', () => {
+    it('should reject coordinates outside the board', async () => {
+      const game = await startGame({ rows: 4, cols: 5, winLength: 4 });
+
+      await expect(gameModel.makeMove(game.id, 'player-1', 4, 0)).rejects.toThrow('Move coordinates must be within the 4x5 board');
+      await expect(gameModel.makeMove(game.id, 'player-1', 0, 5)).rejects.toThrow('Move coordinates must be within the 4x5 board');
+    });
+
+    it('should throw typed errors with stable codes', async () => {
+      const game = await startGame();
+      await gameModel.makeMove(game.id, 'player-1', 0, 0);
+
+      await expect(gameModel.makeMove(game.id, 'player-1', 1, 1)).rejects.toBeInstanceOf(NotYourTurnError);
+      await expect(gameModel.makeMove(game.id, 'player-2', 0, 0)).rejects.toMatchObject({ code: 'CELL_OCCUPIED', statusCode: 400 });
+      await expect(gameModel.makeMove(game.id, 'player-2', 0, 0)).rejects.toBeInstanceOf(CellOccupiedError);
+      await expect(gameModel.joinGame(game.id, createPlayer('player-3'))).rejects.toBeInstanceOf(GameNotJoinableError);
+      await expect(gameModel.makeMove('missing', 'player-1', 0, 0)).rejects.toMatchObject({ code: 'GAME_NOT_FOUND', statusCode: 404 });
+      await expect(gameModel.makeMove('missing', 'player-1', 0, 0)).rejects.toBeInstanceOf(GameNotFoundError);
+    });
+
+    it('should detect a standard three-in-a-row win', async () => {
+      const game = await startGame();
+
+      const result = await playMoves(game, [[0, 0], [1, 0], [0, 1], [1, 1], [0, 2]]);
+
+      expect(result.status).toBe('completed');
+      expect(result.winnerId).toBe('player-1');
+      expect(result.winResult).toEqual({
+        winnerId: 'player-1',
+        condition: 'row',
+        positions: [{ row: 0, col: 0 }, { row: 0, col: 1 }, { row: 0, col: 2 }],
+      });
+      expect((await gameModel.getGameStatus(game.id)).winResult).toEqual(result.winResult);
+    });
+
+    it('should detect a five-in-a-row anti-diagonal on a 15x15 board', async () => {
+      const game = await startGame({ rows: 15, cols: 15, winLength: 5 });
+
+      const result = await playMoves(game, [
+        [4, 10], [0, 0],
+        [5, 9], [0, 1],
+        [6, 8], [0, 2],
+        [7, 7], [0, 3],
+        [8, 6],
+      ]);
+
+      expect(result.status).toBe('completed');
+      expect(result.winnerId).toBe('player-1');
+      expect(result.winResult!.condition).toBe('diagonal');
+      expect(result.winResult!.positions).toEqual([
+        { row: 4, col: 10 }, { row: 5, col: 9 }, { row: 6, col: 8 }, { row: 7, col: 7 }, { row: 8, col: 6 },
+      ]);
+    });
+
+    it('should report the whole line when a move joins two runs', async () => {
+      const game = await startGame({ rows: 7, cols: 7, winLength: 3 });
+
+      const result = await playMoves(game, [[3, 0], [0, 0], [3, 1], [0, 3], [3, 3], [0, 6], [3, 4], [6, 0], [3, 2]]);
+
+      expect(result.winResult).toMatchObject({ condition: 'row' });
+      expect(result.winResult!.positions.map(({ col }) => col)).toEqual([0, 1, 2, 3, 4]);
+    });
+
+    it('should not award a win for a line shorter than the win length', async () => {
+      const game = await startGame({ rows: 15, cols: 15, winLength: 5 });
+
+      const result = await playMoves(game, [[7, 0], [0, 0], [7, 1], [0, 1], [7, 2], [0, 2], [7, 3]]);
+
+      expect(result.status).toBe('active');
+      expect(result.currentPlayerId).toBe('player-2');
+    });
+
+    it('should declare a draw when a 3x4 board fills up without a line', async () => {
+      const game = await startGame({ rows: 3, cols: 4, winLength: 4 });
+
+      const result = await playMoves(game, [
+        [0, 0], [0, 1], [0, 2], [0, 3],
+        [1, 1], [1, 0], [1, 3], [1, 2],
+        [2, 0], [2, 1], [2, 2], [2, 3],
+      ]);
+
+      expect(result.status).toBe('draw');
+      expect(result.winnerId).toBeNull();
+      expect(result.winResult).toBeNull();
+    });
+  });
+
+  describe('variants', () => {
+    const startVariant = async (variant: GameVariant): Promise<Game> => {
+      const game = await gameModel.createGame('Variant Game', {}, null, variant);
+      await gameModel.joinGame(game.id, player1);
+      return gameModel.joinGame(game.id, player2);
+    };
+
+    it('should default to standard rules and refuse unknown variants', async () => {
+      expect((await gameModel.createGame()).variant).toBe('standard');
+      await expect(gameModel.createGame('Game', {}, null, 'gomoku' as GameVariant)).rejects.toMatchObject({ code: 'INVALID_VARIANT' });
+    });
+
+    it('should end a misere game against the player who completes a line', async () => {
+      const result = await playMoves(await startVariant('misere'), [[0, 0], [1, 0], [0, 1], [2, 2], [0, 2]]);
+
+      expect(result).toMatchObject({ status: 'completed', winnerId: 'player-2', endReason: 'line' });
+      expect(result.winResult).toMatchObject({ winnerId: 'player-2', condition: 'row' });
+    });
+
+    it('should put the chosen symbol on the board in a wild game', async () => {
+      const game = await startVariant('wild');
+
+      await expect(gameModel.makeMove(game.id, 'player-1', 0, 0)).rejects.toMatchObject({ code: 'SYMBOL_REQUIRED' });
+
+      await gameModel.makeMove(game.id, 'player-1', 0, 0, undefined, 'O');
+      await gameModel.makeMove(game.id, 'player-2', 1, 1, undefined, 'X');
+      await gameModel.makeMove(game.id, 'player-1', 0, 1, undefined, 'O');
+      const { game: result, move } = await gameModel.makeMove(game.id, 'player-2', 0, 2, undefined, 'O');
+
+      expect(move.symbol).toBe('O');
+      expect(result.board[0]).toEqual(['O', 'O', 'O']);
+      expect(result).toMatchObject({ status: 'completed', winnerId: 'player-2' });
+      expect((await gameModel.getReplayFrame(game.id, 2)).frame.board[1][1]).toBe('X');
+    });
+
+    it('should only take a symbol in wild games', async () => {
+      const game = await startGame();
+
+      await expect(gameModel.makeMove(game.id, 'player-1', 0, 0, undefined, 'X')).rejects.toMatchObject({ code: 'SYMBOL_NOT_ALLOWED' });
+    });
+
+    it('should mark every notakto move with X', async () => {
+      const result = await playMoves(await startVariant('notakto'), [[0, 0], [1, 1]]);
+
+      expect(result.board[0][0]).toBe('X');
+      expect(result.board[1][1]).toBe('X');
+      expect(result.currentPlayerId).toBe('player-1');
+    });
+
+    it('should keep bots out of variant games', async () => {
+      const game = await gameModel.createGame('Variant Game', {}, null, 'misere');
+      const bot: Player = { ...createPlayer('bot-1'), type: 'bot' };
+
+      await expect(gameModel.joinGame(game.id, bot)).rejects.toMatchObject({ code: 'NOT_AVAILABLE_FOR_VARIANT' });
+    });
+  });
+
+  describe('ultimate', () => {
+    let repository: InMemoryGameRepository;
+
+    const startUltimate = async (): Promise<Game> => {
+      const game = await gameModel.createGame('Ultimate Game', {}, null, 'ultimate');
+      await gameModel.joinGame(game.id, player1);
+      return gameModel.joinGame(game.id, player2);
+    };
+
+    // Lay out a position directly; the last mark decides where the next move must go
+    const setUpPosition = async (marks: Array<[string, number, number]>): Promise<Game> => {
+      const game = await startUltimate();
+      for (const [playerId, row, col] of marks) {
+        game.board[row][col] = playerId;
+        game.moves.push({ id: `move-${game.moves.length}`, gameId: game.id, playerId, row, col, timestamp: new Date() });
+      }
+      game.currentPlayerId = marks[marks.length - 1][0] === 'player-1' ? 'player-2' : 'player-1';
+      getRuleEngine('ultimate').initialize(game);
+
+      await repository.save(game);
+      return game;
+    };
+
+    beforeEach(() => {
+      repository = new InMemoryGameRepository();
+      gameModel = new GameModel(repository);
+    });
+
+    it('should always be played on a 9x9 board of 3x3 sub-boards', async () => {
+      const game = await gameModel.createGame('Ultimate Game', {}, null, 'ultimate');
+
+      expect(game).toMatchObject({ rows: 9, cols: 9, winLength: 3 });
+      expect(game.ultimate).toEqual({
+        subBoardWinners: [[null, null, null], [null, null, null], [null, null, null]],
+        forcedSubBoard: null,
+      });
+      await expect(gameModel.createGame('Ultimate Game', { rows: 5 }, null, 'ultimate')).rejects.toMatchObject({ code: 'INVALID_BOARD' });
+    });
+
+    it('should send the opponent to the sub-board matching the move, until it is taken back', async () => {
+      const game = await startUltimate();
+
+      const { game: afterFirst } = await gameModel.makeMove(game.id, 'player-1', 0, 4);
+      expect(afterFirst.ultimate!.forcedSubBoard).toEqual({ row: 0, col: 1 });
+      const validMoves = gameModel.getValidMoves(afterFirst);
+      expect(validMoves).toHaveLength(8);
+      expect(validMoves.every(({ row, col }) => row < 3 && col >= 3 && col < 6)).toBe(true);
+
+      await expect(gameModel.makeMove(game.id, 'player-2', 4, 4)).rejects.toMatchObject({ code: 'WRONG_SUB_BOARD' });
+      const { game: afterSecond } = await gameModel.makeMove(game.id, 'player-2', 1, 3);
+      expect(afterSecond.ultimate!.forcedSubBoard).toEqual({ row: 1, col: 0 });
+
+      await gameModel.requestTakeback(game.id, 'player-2');
+      const { game: afterTakeback } = await gameModel.respondToTakeback(game.id, 'player-1', true);
+      expect(afterTakeback.ultimate!.forcedSubBoard).toEqual({ row: 0, col: 1 });
+    });
+
+    it('should track sub-board wins and free the choice when sent to a decided sub-board', async () => {
+      const game = await setUpPosition([['player-1', 0, 0], ['player-2', 4, 3], ['player-1', 0, 1], ['player-2', 3, 3]]);
+
+      const { game: afterWin } = await gameModel.makeMove(game.id, 'player-1', 0, 2);
+      expect(afterWin.ultimate!.subBoardWinners[0][0]).toBe('player-1');
+      expect(afterWin.ultimate!.forcedSubBoard).toEqual({ row: 0, col: 2 });
+
+      // (0, 6) is the top-left cell of its sub-board, which sends player 1 back to the won one
+      const { game: afterSend } = await gameModel.makeMove(game.id, 'player-2', 0, 6);
+      expect(afterSend.ultimate!.forcedSubBoard).toBeNull();
+      expect(gameModel.getValidMoves(afterSend).some(({ row, col }) => row < 3 && col < 3)).toBe(false);
+      await expect(gameModel.makeMove(game.id, 'player-1', 1, 1)).rejects.toMatchObject({ code: 'SUB_BOARD_CLOSED' });
+      await gameModel.makeMove(game.id, 'player-1', 8, 8);
+    });
+
+    it('should be won with three sub-boards in a line', async () => {
+      const game = await setUpPosition([
+        ['player-1', 0, 0], ['player-1', 0, 1], ['player-1', 0, 2],
+        ['player-1', 0, 3], ['player-1', 0, 4], ['player-1', 0, 5],
+        ['player-1', 0, 6], ['player-1', 0, 7],
+        ['player-2', 4, 4], ['player-2', 5, 5], ['player-2', 7, 1], ['player-2', 3, 2],
+      ]);
+
+      const { game: result } = await gameModel.makeMove(game.id, 'player-1', 0, 8);
+
+      expect(result).toMatchObject({ status: 'completed', winnerId: 'player-1', endReason: 'line' });
+      expect(result.winResult).toEqual({
+        winnerId: 'player-1',
+        condition: 'row',
+        positions: [{ row: 0, col: 0 }, { row: 0, col: 1 }, { row: 0, col: 2 }],
+      });
+    });
+  });
+
+  describe('multi-player', () => {
+    const player3 = createPlayer('player-3');
+
+    const startThreePlayerGame = async (): Promise<Game> => {
+      const game = await gameModel.createGame('Three Players', { rows: 4, cols: 4 }, null, 'standard', 3);
+      await gameModel.joinGame(game.id, player1);
+      await gameModel.joinGame(game.id, player2);
+      return gameModel.joinGame(game.id, player3);
+    };
+
+    it('should only allow three or four players on a standard game with room for them', async () => {
+      await expect(gameModel.createGame('Game', { rows: 5, cols: 5 }, null, 'standard', 5)).rejects.toMatchObject({ code: 'INVALID_MAX_PLAYERS' });
+      await expect(gameModel.createGame('Game', {}, null, 'standard', 3)).rejects.toThrow('A 3-player game needs a board of at least 4x4');
+      await expect(gameModel.createGame('Game', { rows: 4, cols: 4 }, null, 'misere', 3)).rejects.toThrow('Only standard games can have more than two players');
+    });
+
+    it('should start once every seat is taken, with a symbol per seat', async () => {
+      const game = await gameModel.createGame('Three Players', { rows: 4, cols: 4 }, null, 'standard', 3);
+      await gameModel.joinGame(game.id, player1);
+      const waiting = await gameModel.joinGame(game.id, player2);
+      expect(waiting.status).toBe('waiting');
+      await expect(gameModel.joinGame(game.id, { ...createPlayer('bot-1'), type: 'bot' })).rejects.toMatchObject({ code: 'NOT_AVAILABLE_FOR_MULTIPLAYER' });
+
+      const started = await gameModel.joinGame(game.id, player3);
+
+      expect(started.status).toBe('active');
+      expect(started.currentPlayerId).toBe('player-1');
+      expect(started.symbols).toEqual({ 'player-1': 'X', 'player-2': 'O', 'player-3': 'Y' });
+      await expect(gameModel.joinGame(game.id, createPlayer('player-4'))).rejects.toBeInstanceOf(GameNotJoinableError);
+      await expect(gameModel.offerDraw(game.id, 'player-1')).rejects.toMatchObject({ code: 'NOT_AVAILABLE_FOR_MULTIPLAYER' });
+    });
+
+    it('should rotate turns through every player and place the rest behind the winner', async () => {
+      const game = await startThreePlayerGame();
+
+      const result = await playMoves(game, [[0, 0], [1, 0], [2, 0], [0, 1], [1, 1], [2, 1], [0, 2]]);
+
+      expect(result.moves.map(move => move.playerId)).toEqual(['player-1', 'player-2', 'player-3', 'player-1', 'player-2', 'player-3', 'player-1']);
+      expect(result.status).toBe('completed');
+      expect(result.winnerId).toBe('player-1');
+      expect(result.placements).toEqual({ 'player-1': 1, 'player-2': 2, 'player-3': 2 });
+    });
+
+    it('should play on without a player who resigns until one player is left', async () => {
+      const game = await startThreePlayerGame();
+      await playMoves(game, [[0, 0]]);
+
+      const afterFirstResignation = await gameModel.resign(game.id, 'player-3');
+      expect(afterFirstResignation.status).toBe('active');
+      expect(afterFirstResignation.placements).toEqual({ 'player-3': 3 });
+      await expect(gameModel.resign(game.id, 'player-3')).rejects.toMatchObject({ code: 'PLAYER_ELIMINATED' });
+
+      const afterMoves = await playMoves(afterFirstResignation, [[1, 1], [2, 2]]);
+      expect(afterMoves.moves.map(move => move.playerId)).toEqual(['player-1', 'player-2', 'player-1']);
+      expect(afterMoves.currentPlayerId).toBe('player-2');
+
+      const result = await gameModel.resign(game.id, 'player-2');
+      expect(result.status).toBe('completed');
+      expect(result.winnerId).toBe('player-1');
+      expect(result.placements).toEqual({ 'player-1': 1, 'player-2': 2, 'player-3': 3 });
+    });
+  });
+
+  describe('versions', () => {
+    it('should bump the version on every change', async () => {
+      const created = await gameModel.createGame('Test Game');
+      expect(created.version).toBe(1);
+
+      const game = await startGame();
+      expect(game.version).toBe(3);
+
+      const afterMove = await playMoves(game, [[0, 0]]);
+      expect(afterMove.version).toBe(4);
+      expect((await gameModel.getGameById(game.id))!.version).toBe(4);
+    });
+
+    it('should refuse to act on a stale version and report the current game', async () => {
+      const game = await startGame();
+      await gameModel.makeMove(game.id, 'player-1', 0, 0, game.version);
+
+      const error = await gameModel.makeMove(game.id, 'player-2', 1, 1, game.version).catch(e => e);
+
+      expect(error).toBeInstanceOf(GameVersionConflictError);
+      expect(error).toMatchObject({ statusCode: 409, code: 'VERSION_CONFLICT' });
+      expect(error.game.version).toBe(game.version + 1);
+      expect(error.game.moves).toHaveLength(1);
+    });
+
+    it('should let only one of two racing moves through', async () => {
+      const game = await startGame();
+
+      const results = await Promise.allSettled([
+        gameModel.makeMove(game.id, 'player-1', 0, 0),
+        gameModel.makeMove(game.id, 'player-1', 2, 2),
+      ]);
+
+      expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+      expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(GameVersionConflictError);
+
+      const current = await gameModel.getGameById(game.id);
+      expect(current!.moves).toHaveLength(1);
+      expect(current!.board[2][2]).toBeNull();
+    });
+  });
+
+  describe('takebacks', () => {
+    it('should undo the last move when the opponent accepts', async () => {
+      const game = await playMoves(await startGame(), [[0, 0], [1, 1]]);
+
+      await gameModel.requestTakeback(game.id, 'player-2');
+      const result = await gameModel.respondToTakeback(game.id, 'player-1', true);
+
+      expect(result.takeback.status).toBe('accepted');
+      expect(result.undoneMove).toMatchObject({ playerId: 'player-2', row: 1, col: 1 });
+      expect(result.game.board[1][1]).toBeNull();
+      expect(result.game.moves).toHaveLength(1);
+      expect(result.game.currentPlayerId).toBe('player-2');
+    });
+
+    it('should leave the board alone when the opponent declines', async () => {
+      const game = await playMoves(await startGame(), [[0, 0]]);
+
+      await gameModel.requestTakeback(game.id, 'player-1');
+      const result = await gameModel.respondToTakeback(game.id, 'player-2', false);
+
+      expect(result.takeback.status).toBe('declined');
+      expect(result.undoneMove).toBeNull();
+      expect(result.game.board[0][0]).toBe('player-1');
+      expect(result.game.currentPlayerId).toBe('player-2');
+    });
+
+    it('should only allow taking back your own last move, once at a time', async () => {
+      const game = await playMoves(await startGame(), [[0, 0]]);
+
+      await expect(gameModel.requestTakeback(game.id, 'player-2')).rejects.toThrow('You can only take back your own last move');
+
+      await gameModel.requestTakeback(game.id, 'player-1');
+
+      await expect(gameModel.requestTakeback(game.id, 'player-1')).rejects.toThrow('A takeback request is already pending');
+      await expect(gameModel.respondToTakeback(game.id, 'player-1', true)).rejects.toThrow('Only the opponent can respond to a takeback request');
+    });
+
+    it('should cancel a pending request when the opponent plays on', async () => {
+      const game = await playMoves(await startGame(), [[0, 0]]);
+      await gameModel.requestTakeback(game.id, 'player-1');
+
+      const { game: updated } = await gameModel.makeMove(game.id, 'player-2', 1, 1);
+
+      expect(updated.takebacks[0].status).toBe('cancelled');
+      await expect(gameModel.respondToTakeback(game.id, 'player-2', true)).rejects.toThrow('No pending takeback request');
+    });
+  });
+
+  describe('time controls', () => {
+    const start = new Date('2024-01-01T00:00:00.000Z');
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: start });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    const advance = (ms: number) => jest.setSystemTime(Date.now() + ms);
+
+    it('should reject time controls without a limit', async () => {
+      await expect(gameModel.createGame('Timed', {}, {})).rejects.toThrow('Time control must set moveTimeLimitMs, initialTimeMs or both');
+      await expect(gameModel.createGame('Timed', {}, { moveTimeLimitMs: 10 })).rejects.toThrow('Time control moveTimeLimitMs must be an integer between 1000 and 86400000');
+      await expect(gameModel.createGame('Timed', {}, { moveTimeLimitMs: 5000, incrementMs: 1000 })).rejects.toThrow('Time control incrementMs requires initialTimeMs');
+    });
+
+    it('should deduct thinking time and add the increment after each move', async () => {
+      const game = await startGame({}, { initialTimeMs: 60000, incrementMs: 2000 });
+
+      advance(10000);
+      await gameModel.makeMove(game.id, 'player-1', 0, 0);
+      advance(5000);
+
+      const status = await gameModel.getGameStatus(game.id);
+
+      expect(status.clock?.remainingTimeMs).toEqual({ 'player-1': 52000, 'player-2': 55000 });
+      expect(status.clock?.moveTimeRemainingMs).toBeNull();
+    });
+
+    it('should refuse moves after the per-move limit', async () => {
+      const game = await startGame({}, { moveTimeLimitMs: 5000 });
+
+      advance(5000);
+
+      await expect(gameModel.makeMove(game.id, 'player-1', 0, 0)).rejects.toThrow('Time has run out for this move');
+    });
+
+    it('should forfeit the player whose clock runs out', async () => {
+      const game = await startGame({}, { moveTimeLimitMs: 30000, initialTimeMs: 20000 });
+
+      advance(19999);
+      expect(await gameModel.claimTimeout(game.id)).toBeNull();
+
+      advance(1);
+      const result = await gameModel.claimTimeout(game.id);
+
+      expect(result?.status).toBe('completed');
+      expect(result?.winnerId).toBe('player-2');
+      expect(result?.endReason).toBe('timeout');
+      expect(result?.clocks['player-1']).toBe(0);
+      expect(await gameModel.claimTimeout(game.id)).toBeNull();
+    });
+  });
+
+  describe('resign and draw offers', () => {
+    it('should hand the win to the opponent on resignation', async () => {
+      const game = await playMoves(await startGame(), [[0, 0]]);
+
+      const result = await gameModel.resign(game.id, 'player-1');
+
+      expect(result.status).toBe('completed');
+      expect(result.winnerId).toBe('player-2');
+      expect(result.endReason).toBe('resignation');
+      await expect(gameModel.resign(game.id, 'player-2')).rejects.toThrow('Game is not active');
+    });
+
+    it('should end the game as a draw when the offer is accepted', async () => {
+      const game = await startGame();
+
+      await gameModel.offerDraw(game.id, 'player-1');
+
+      await expect(gameModel.offerDraw(game.id, 'player-2')).rejects.toThrow('A draw offer is already pending');
+      await expect(gameModel.respondToDrawOffer(game.id, 'player-1', true)).rejects.toThrow('Only the opponent can respond to a draw offer');
+
+      const result = await gameModel.respondToDrawOffer(game.id, 'player-2', true);
+
+      expect(result.drawOffer.status).toBe('accepted');
+      expect(result.game.status).toBe('draw');
+      expect(result.game.endReason).toBe('agreed_draw');
+    });
+
+    it('should treat a move by the opponent as declining the offer', async () => {
+      const game = await startGame();
+      await gameModel.offerDraw(game.id, 'player-2');
+
+      const afterOwnMove = await playMoves(game, [[0, 0]]);
+      expect(afterOwnMove.drawOffers[0].status).toBe('cancelled');
+
+      await gameModel.offerDraw(game.id, 'player-2');
+      const afterOffererMove = await playMoves(afterOwnMove, [[1, 1]]);
+      expect(afterOffererMove.drawOffers[1].status).toBe('pending');
+    });
+  });
+
+  describe('admin moderation', () => {
+    it('should force-end an active game with the chosen winner', async () => {
+      const game = await startGame();
+
+      await expect(gameModel.forceEndGame(game.id, 'player-3')).rejects.toThrow('Winner must be a player in this game');
+
+      const ended = await gameModel.forceEndGame(game.id, 'player-2');
+
+      expect(ended.status).toBe('completed');
+      expect(ended.winnerId).toBe('player-2');
+      expect(ended.endReason).toBe('admin');
+    });
+
+    it('should void finished games and report the result they had', async () => {
+      const game = await playMoves(await startGame(), [[0, 0], [1, 0], [0, 1], [1, 1], [0, 2]]);
+
+      const { game: voided, previousResult } = await gameModel.voidGame(game.id);
+
+      expect(previousResult).toEqual({ status: 'completed', winnerId: 'player-1', placements: { 'player-1': 1, 'player-2': 2 } });
+      expect(voided.status).toBe('voided');
+      expect(voided.winnerId).toBeNull();
+      await expect(gameModel.voidGame(game.id)).rejects.toThrow('Game is already voided');
+    });
+  });
+
+  describe('spectators', () => {
+    it('should let others watch without taking a seat or moving', async () => {
+      const game = await startGame();
+
+      const { spectator } = await gameModel.spectateGame(game.id, 'player-3');
+
+      expect(spectator.playerId).toBe('player-3');
+      expect((await gameModel.getGameStatus(game.id)).spectatorCount).toBe(1);
+      await expect(gameModel.makeMove(game.id, 'player-3', 0, 0)).rejects.toThrow('Spectators cannot make moves');
+      await expect(gameModel.spectateGame(game.id, 'player-3')).rejects.toThrow('Player is already spectating this game');
+      await expect(gameModel.spectateGame(game.id, 'player-1')).rejects.toThrow('Players cannot spectate their own game');
+
+      const afterLeaving = await gameModel.leaveSpectating(game.id, 'player-3');
+      expect(afterLeaving.spectators).toHaveLength(0);
+      await expect(gameModel.leaveSpectating(game.id, 'player-3')).rejects.toThrow('Player is not spectating this game');
+    });
+
+    it('should drop a spectator who takes the open seat', async () => {
+      const game = await gameModel.createGame('Test Game');
+      await gameModel.joinGame(game.id, player1);
+      await gameModel.spectateGame(game.id, 'player-2');
+
+      const joined = await gameModel.joinGame(game.id, player2);
+
+      expect(joined.status).toBe('active');
+      expect(joined.spectators).toHaveLength(0);
+    });
+  });
+
+  describe('replay', () => {
+    it('should rebuild the board after every ply', async () => {
+      const game = await playMoves(await startGame(), [[0, 0], [1, 1], [0, 1]]);
+
+      const replay = await gameModel.getReplay(game.id);
+
+      expect(replay.totalPlies).toBe(3);
+      expect(replay.frames).toHaveLength(4);
+      expect(replay.frames[0]).toMatchObject({ ply: 0, move: null, nextPlayerId: 'player-1' });
+      expect(replay.frames[0].board).toEqual([[null, null, null], [null, null, null], [null, null, null]]);
+      expect(replay.frames[2].board).toEqual([['player-1', null, null], [null, 'player-2', null], [null, null, null]]);
+      expect(replay.frames[3]).toMatchObject({ ply: 3, nextPlayerId: 'player-2' });
+    });
+
+    it('should return a single ply and reject plies past the end', async () => {
+      const game = await playMoves(await startGame(), [[0, 0], [1, 1]]);
+
+      const { frame } = await gameModel.getReplayFrame(game.id, 1);
+
+      expect(frame.board[0][0]).toBe('player-1');
+      expect(frame.board[1][1]).toBeNull();
+      expect(frame.move).toMatchObject({ row: 0, col: 0 });
+      await expect(gameModel.getReplayFrame(game.id, 3)).rejects.toThrow('Ply must be an integer between 0 and 2');
+    });
+
+    it('should keep deleted games available for replay', async () => {
+      const game = await playMoves(await startGame(), [[0, 0], [1, 0], [0, 1], [1, 1], [0, 2]]);
+
+      await gameModel.deleteGame(game.id);
+
+      expect(await gameModel.getGameById(game.id)).toBeNull();
+      const replay = await gameModel.getReplay(game.id);
+      expect(replay.archived).toBe(true);
+      expect(replay.endReason).toBe('line');
+      expect(replay.frames[5].nextPlayerId).toBeNull();
+    });
+  });
+
+  describe('event log', () => {
+    it('should rebuild the current game from its events', async () => {
+      const game = await playMoves(await startGame({}, { initialTimeMs: 60000, incrementMs: 1000 }), [[0, 0], [1, 1]]);
+      await gameModel.spectateGame(game.id, 'player-3');
+      await gameModel.requestTakeback(game.id, 'player-2');
+      await gameModel.respondToTakeback(game.id, 'player-1', true);
+      await gameModel.offerDraw(game.id, 'player-2');
+      const { game: afterDecline } = await gameModel.respondToDrawOffer(game.id, 'player-1', false);
+      await playMoves(afterDecline, [[2, 2], [0, 1], [1, 0], [0, 2]]);
+
+      const current = await gameModel.getGameById(game.id);
+      const rebuilt = await gameModel.rebuildGame(game.id);
+
+      expect(current!.status).toBe('completed');
+      expect(rebuilt).toEqual(current);
+    });
+
+    it('should rebuild a game as it was at an earlier version', async () => {
+      const game = await playMoves(await startGame(), [[0, 0], [1, 1]]);
+
+      const atStart = await gameModel.rebuildGame(game.id, 3);
+      expect(atStart).toMatchObject({ status: 'active', version: 3, currentPlayerId: 'player-1' });
+      expect(atStart.moves).toHaveLength(0);
+
+      await expect(gameModel.rebuildGame(game.id, 6)).rejects.toMatchObject({ statusCode: 404, code: 'GAME_VERSION_NOT_FOUND' });
+      await expect(gameModel.rebuildGame('missing-game')).rejects.toThrow(GameNotFoundError);
+    });
+
+    it('should start rebuilding from the latest snapshot', async () => {
+      const repository = new InMemoryGameRepository();
+      gameModel = new GameModel(repository);
+      const game = await startGame({ rows: 7, cols: 7, winLength: 7 });
+      // 3 versions to start, then 18 moves: a snapshot is taken at version 20
+      await playMoves(game, Array.from({ length: 18 }, (_, i): [number, number] => [Math.floor(i / 7), i % 7]));
+      const findEvents = jest.spyOn(repository, 'findEvents');
+
+      const rebuilt = await gameModel.rebuildGame(game.id);
+
+      expect(rebuilt).toEqual(await gameModel.getGameById(game.id));
+      expect(rebuilt.version).toBe(21);
+      expect(findEvents).toHaveBeenCalledWith(game.id, { after: 20, upTo: undefined });
+    });
+
+    it('should page through the history of a game, also once it is deleted', async () => {
+      const game = await playMoves(await startGame(), [[0, 0], [1, 0], [0, 1], [1, 1], [0, 2]]);
+      await gameModel.deleteGame(game.id, 'admin-1');
+
+      const firstPage = await gameModel.getEventHistory(game.id, 0, 3);
+      expect(firstPage.hasMore).toBe(true);
+      expect(firstPage.events.map(event => event.type)).toEqual(['game_created', 'player_joined', 'player_joined']);
+
+      const lastPage = await gameModel.getEventHistory(game.id, 3, 10);
+      expect(lastPage.hasMore).toBe(false);
+      expect(lastPage.events.map(event => event.sequence)).toEqual([4, 5, 6, 7, 8, 9]);
+      expect(lastPage.events[5]).toMatchObject({ type: 'game_deleted', actorId: 'admin-1' });
+      expect(lastPage.events[0]).toMatchObject({ type: 'move_made', actorId: 'player-1', data: { move: { row: 0, col: 0 } } });
+    });
+  });
+});
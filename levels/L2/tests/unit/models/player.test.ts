@@ -0,0 +1,83 @@
+import { PlayerModel } from '../../../src/models/player';
+import { InMemoryPlayerRepository } from '../../../src/repositories';
+import { EmailInUseError, ReservedEmailError } from '../../../src/errors';
+
+describe('PlayerModel', () => {
+  let playerModel: PlayerModel;
+
+  beforeEach(() => {
+    playerModel = new PlayerModel(new InMemoryPlayerRepository());
+  });
+
+  describe('listPlayers', () => {
+    const createPlayers = async () => {
+      jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00.000Z') });
+      try {
+        const carol = await playerModel.createPlayer('Carol', 'carol@test.com');
+        jest.setSystemTime(new Date('2024-01-02T00:00:00.000Z'));
+        const alice = await playerModel.createPlayer('Alice', 'alice@test.com');
+        jest.setSystemTime(new Date('2024-01-03T00:00:00.000Z'));
+        const bob = await playerModel.createPlayer('Bob', 'bob@test.com');
+        return { alice, bob, carol };
+      } finally {
+        jest.useRealTimers();
+      }
+    };
+
+    it('should list the newest players first by default', async () => {
+      const { alice, bob, carol } = await createPlayers();
+
+      const { players, total } = await playerModel.listPlayers();
+
+      expect(players.map(p => p.id)).toEqual([bob.id, alice.id, carol.id]);
+      expect(total).toBe(3);
+    });
+
+    it('should sort by the requested field and page with limit and offset', async () => {
+      const { bob, carol } = await createPlayers();
+
+      const { players, total } = await playerModel.listPlayers({ sortBy: 'name', order: 'asc', limit: 2, offset: 1 });
+
+      expect(players.map(p => p.id)).toEqual([bob.id, carol.id]);
+      expect(total).toBe(3);
+    });
+
+    it('should reject unknown sort fields', async () => {
+      await expect(playerModel.listPlayers({ sortBy: 'email' as any })).rejects.toThrow('Sort field must be one of');
+    });
+  });
+
+  it('should reject a duplicate email regardless of case', async () => {
+    await playerModel.createPlayer('Alice', 'alice@test.com');
+
+    await expect(playerModel.createPlayer('Alice Again', 'ALICE@test.com')).rejects.toBeInstanceOf(EmailInUseError);
+  });
+
+  it('should keep the bot email domain for bots', async () => {
+    const alice = await playerModel.createPlayer('Alice', 'alice@test.com');
+
+    await expect(playerModel.createPlayer('Mallory', 'Bot-Hard@Bots.local')).rejects.toBeInstanceOf(ReservedEmailError);
+    await expect(playerModel.updatePlayer(alice.id, { email: 'bot-easy@bots.local' })).rejects.toBeInstanceOf(ReservedEmailError);
+  });
+
+  it('should create one bot per difficulty, even when asked for it concurrently', async () => {
+    const [first, second] = await Promise.all([
+      playerModel.getOrCreateBotPlayer('hard'),
+      playerModel.getOrCreateBotPlayer('hard'),
+    ]);
+
+    expect(first).toMatchObject({ type: 'bot', botDifficulty: 'hard' });
+    expect(second.id).toBe(first.id);
+    expect((await playerModel.getOrCreateBotPlayer('easy')).id).not.toBe(first.id);
+  });
+
+  it('should search players by name', async () => {
+    await playerModel.createPlayer('Alice', 'alice@test.com');
+    await playerModel.createPlayer('Malice', 'malice@test.com');
+    await playerModel.createPlayer('Bob', 'bob@test.com');
+
+    const players = await playerModel.searchPlayersByName('ALIC');
+
+    expect(players.map(p => p.name).sort()).toEqual(['Alice', 'Malice']);
+  });
+});
@@ -0,0 +1,432 @@
+import { Database } from '../../../src/database/connection';
+import { SqliteGameRepository } from '../../../src/repositories/sqliteGameRepository';
+import { SqlitePlayerRepository } from '../../../src/repositories/sqlitePlayerRepository';
+import { Game, GameLogEvent, Player } from '../../../src/types';
+import { toPublicPlayer } from '../../../src/utils/player';
+
+describe('SqliteGameRepository', () => {
+  let db: Database;
+  let gameRepository: SqliteGameRepository;
+  let playerRepository: SqlitePlayerRepository;
+
+  const createPlayer = (id: string): Player => ({
+    id,
+    name: `Player ${id}`,
+    email: `${id}@test.com`,
+    type: 'human',
+    role: 'player',
+    stats: {
+      gamesPlayed: 0,
+      gamesWon: 0,
+      gamesLost: 0,
+      gamesDrawn: 0,
+      totalMoves: 0,
+      averageMovesPerWin: 0,
+      winRate: 0,
+      efficiency: 0,
+      placements: [],
+      seriesPlayed: 0,
+      seriesWon: 0,
+      seriesLost: 0,
+    },
+    rating: { rating: 1500, deviation: 350, volatility: 0.06 },
+    bannedAt: null,
+    banReason: null,
+    flaggedAt: null,
+    flagReason: null,
+    createdAt: new Date('2024-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2024-01-01T00:00:00.000Z'),
+  });
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    await db.initialize();
+    gameRepository = new SqliteGameRepository(db);
+    playerRepository = new SqlitePlayerRepository(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should round-trip a game with its players, moves, takebacks, draw offers and spectators', async () => {
+    const player1 = createPlayer('player-1');
+    const player2 = createPlayer('player-2');
+    await playerRepository.save(player1);
+    await playerRepository.save(player2);
+    await playerRepository.save(createPlayer('player-3'));
+
+    const game: Game = {
+      id: 'game-1',
+      name: 'Persisted Game',
+      status: 'active',
+      board: [['player-1', null, null], [null, 'player-2', null], [null, null, null]],
+      rows: 3,
+      cols: 3,
+      winLength: 3,
+      players: [player1, player2].map(toPublicPlayer),
+      currentPlayerId: 'player-1',
+      winnerId: null,
+      createdAt: new Date('2024-01-01T00:00:00.000Z'),
+      updatedAt: new Date('2024-01-01T00:01:00.000Z'),
+      moves: [
+        { id: 'move-1', gameId: 'game-1', playerId: 'player-1', row: 0, col: 0, timestamp: new Date('2024-01-01T00:00:30.000Z') },
+        { id: 'move-2', gameId: 'game-1', playerId: 'player-2', row: 1, col: 1, timestamp: new Date('2024-01-01T00:01:00.000Z') },
+      ],
+      takebacks: [
+        {
+          id: 'takeback-1',
+          moveId: 'move-2',
+          requestedBy: 'player-2',
+          requestedAt: new Date('2024-01-01T00:01:10.000Z'),
+          status: 'declined',
+          respondedBy: 'player-1',
+          respondedAt: new Date('2024-01-01T00:01:20.000Z'),
+        },
+      ],
+      drawOffers: [
+        {
+          id: 'draw-offer-1',
+          offeredBy: 'player-1',
+          offeredAt: new Date('2024-01-01T00:01:30.000Z'),
+          status: 'pending',
+          respondedBy: null,
+          respondedAt: null,
+        },
+      ],
+      timeControl: { moveTimeLimitMs: 30000, initialTimeMs: 300000, incrementMs: 2000 },
+      clocks: { 'player-1': 290000, 'player-2': 280000 },
+      turnStartedAt: new Date('2024-01-01T00:01:00.000Z'),
+      endReason: null,
+      spectators: [{ playerId: 'player-3', joinedAt: new Date('2024-01-01T00:00:45.000Z') }],
+      version: 1,
+      winResult: null,
+      variant: 'standard',
+      ultimate: null,
+      maxPlayers: 2,
+      symbols: { 'player-1': 'X', 'player-2': 'O' },
+      placements: {},
+      seriesId: null,
+    };
+
+    await gameRepository.save(game);
+
+    const loaded = await gameRepository.findById('game-1');
+
+    expect(loaded).toEqual(game);
+  });
+
+  it('should replace moves on subsequent saves and filter by status', async () => {
+    const player1 = createPlayer('player-1');
+    await playerRepository.save(player1);
+
+    const game: Game = {
+      id: 'game-1',
+      name: 'Game',
+      status: 'waiting',
+      board: [[null, null, null], [null, null, null], [null, null, null]],
+      rows: 3,
+      cols: 3,
+      winLength: 3,
+      players: [player1],
+      currentPlayerId: null,
+      winnerId: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      moves: [],
+      takebacks: [],
+      drawOffers: [],
+      timeControl: null,
+      clocks: {},
+      turnStartedAt: null,
+      endReason: null,
+      spectators: [],
+      version: 1,
+      winResult: null,
+      variant: 'standard',
+      ultimate: null,
+      maxPlayers: 2,
+      symbols: {},
+      placements: {},
+      seriesId: null,
+    };
+
+    await gameRepository.save(game);
+    await gameRepository.save({ ...game, status: 'active' });
+
+    expect(await gameRepository.findAll('waiting')).toHaveLength(0);
+    expect(await gameRepository.findAll('active')).toHaveLength(1);
+
+    await gameRepository.delete('game-1');
+    expect(await gameRepository.findById('game-1')).toBeNull();
+  });
+
+  it('should keep a finished game\'s players as seated, even once they change or are deleted', async () => {
+    const player1 = createPlayer('player-1');
+    const player2 = createPlayer('player-2');
+    await playerRepository.save(player1);
+    await playerRepository.save(player2);
+    await playerRepository.save(createPlayer('player-3'));
+
+    const game: Game = {
+      id: 'game-1',
+      name: 'Finished Game',
+      status: 'completed',
+      board: [['player-1', 'player-1', 'player-1'], ['player-2', 'player-2', null], [null, null, null]],
+      rows: 3,
+      cols: 3,
+      winLength: 3,
+      players: [player1, player2],
+      currentPlayerId: null,
+      winnerId: 'player-1',
+      createdAt: new Date('2024-01-01T00:00:00.000Z'),
+      updatedAt: new Date('2024-01-01T00:01:00.000Z'),
+      moves: [],
+      takebacks: [],
+      drawOffers: [],
+      timeControl: null,
+      clocks: {},
+      turnStartedAt: null,
+      endReason: 'line',
+      spectators: [{ playerId: 'player-3', joinedAt: new Date('2024-01-01T00:00:10.000Z') }],
+      version: 6,
+      winResult: null,
+      variant: 'standard',
+      ultimate: null,
+      maxPlayers: 2,
+      symbols: {},
+      placements: {},
+      seriesId: null,
+    };
+    await gameRepository.save(game);
+
+    await playerRepository.save({ ...player1, name: 'Renamed', updatedAt: new Date('2024-02-01T00:00:00.000Z') });
+    await playerRepository.delete('player-2');
+    await playerRepository.delete('player-3');
+
+    const loaded = await gameRepository.findById('game-1');
+    expect(loaded?.players).toEqual([player1, player2].map(toPublicPlayer));
+    expect(loaded?.spectators).toEqual(game.spectators);
+  });
+
+  it('should hide archived games from live lookups but keep them readable', async () => {
+    const player1 = createPlayer('player-1');
+    await playerRepository.save(player1);
+
+    const game: Game = {
+      id: 'game-1',
+      name: 'Archived Game',
+      status: 'completed',
+      board: [['player-1', null, null], [null, 'player-1', null], [null, null, 'player-1']],
+      rows: 3,
+      cols: 3,
+      winLength: 3,
+      players: [toPublicPlayer(player1)],
+      currentPlayerId: null,
+      winnerId: 'player-1',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      moves: [],
+      takebacks: [],
+      drawOffers: [],
+      timeControl: null,
+      clocks: {},
+      turnStartedAt: null,
+      endReason: 'line',
+      spectators: [],
+      version: 1,
+      winResult: {
+        winnerId: 'player-1',
+        condition: 'diagonal',
+        positions: [{ row: 0, col: 0 }, { row: 1, col: 1 }, { row: 2, col: 2 }],
+      },
+      variant: 'standard',
+      ultimate: null,
+      maxPlayers: 2,
+      symbols: { 'player-1': 'X' },
+      placements: { 'player-1': 1 },
+      seriesId: null,
+    };
+
+    await gameRepository.save(game);
+    await gameRepository.archive('game-1');
+
+    expect(await gameRepository.findById('game-1')).toBeNull();
+    expect(await gameRepository.findAll()).toHaveLength(0);
+    expect(await gameRepository.findArchivedById('game-1')).toEqual(game);
+  });
+
+  it('should only save over the version the caller loaded', async () => {
+    await playerRepository.save(createPlayer('player-1'));
+
+    const game: Game = {
+      id: 'game-1',
+      name: 'Versioned Game',
+      status: 'waiting',
+      board: [[null, null, null], [null, null, null], [null, null, null]],
+      rows: 3,
+      cols: 3,
+      winLength: 3,
+      players: [],
+      currentPlayerId: null,
+      winnerId: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      moves: [],
+      takebacks: [],
+      drawOffers: [],
+      timeControl: null,
+      clocks: {},
+      turnStartedAt: null,
+      endReason: null,
+      spectators: [],
+      version: 1,
+      winResult: null,
+      variant: 'standard',
+      ultimate: null,
+      maxPlayers: 2,
+      symbols: {},
+      placements: {},
+      seriesId: null,
+    };
+    await gameRepository.save(game);
+
+    const joined = (id: string): GameLogEvent => ({
+      id,
+      gameId: 'game-1',
+      sequence: 2,
+      type: 'player_joined',
+      actorId: 'player-1',
+      data: { player: createPlayer('player-1') },
+      occurredAt: new Date(),
+    });
+
+    expect(await gameRepository.saveIfVersion({ ...game, name: 'First', version: 2 }, 1, joined('event-1'))).toBe(true);
+    expect(await gameRepository.saveIfVersion({ ...game, name: 'Second', version: 2 }, 1, joined('event-2'))).toBe(false);
+
+    const stored = await gameRepository.findById('game-1');
+    expect(stored).toMatchObject({ name: 'First', version: 2 });
+    expect((await gameRepository.findEvents('game-1')).map(event => event.id)).toEqual(['event-1']);
+  });
+
+  it('should keep a game\'s events and snapshots, with dates intact, after it is archived', async () => {
+    const player = createPlayer('player-1');
+    await playerRepository.save(player);
+
+    const game: Game = {
+      id: 'game-1',
+      name: 'Logged Game',
+      status: 'waiting',
+      board: [[null, null, null], [null, null, null], [null, null, null]],
+      rows: 3,
+      cols: 3,
+      winLength: 3,
+      players: [],
+      currentPlayerId: null,
+      winnerId: null,
+      createdAt: new Date('2024-01-01T00:00:00.000Z'),
+      updatedAt: new Date('2024-01-01T00:00:00.000Z'),
+      moves: [],
+      takebacks: [],
+      drawOffers: [],
+      timeControl: null,
+      clocks: {},
+      turnStartedAt: null,
+      endReason: null,
+      spectators: [],
+      version: 1,
+      winResult: null,
+      variant: 'standard',
+      ultimate: null,
+      maxPlayers: 2,
+      symbols: {},
+      placements: {},
+      seriesId: null,
+    };
+    const joinedAt = new Date('2024-01-01T00:01:00.000Z');
+
+    await gameRepository.saveIfVersion(game, 0, {
+      id: 'event-1',
+      gameId: 'game-1',
+      sequence: 1,
+      type: 'game_created',
+      actorId: null,
+      data: { game },
+      occurredAt: game.createdAt,
+    });
+    const withPlayer = { ...game, players: [player], updatedAt: joinedAt, version: 2 };
+    await gameRepository.saveIfVersion(withPlayer, 1, {
+      id: 'event-2',
+      gameId: 'game-1',
+      sequence: 2,
+      type: 'player_joined',
+      actorId: 'player-1',
+      data: { player },
+      occurredAt: joinedAt,
+    });
+    await gameRepository.saveSnapshot(withPlayer);
+    await gameRepository.archive('game-1');
+
+    const events = await gameRepository.findEvents('game-1', { after: 1 });
+    expect(events).toEqual([
+      { id: 'event-2', gameId: 'game-1', sequence: 2, type: 'player_joined', actorId: 'player-1', data: { player }, occurredAt: joinedAt },
+    ]);
+    expect(await gameRepository.findEvents('game-1', { upTo: 1 })).toHaveLength(1);
+    expect(await gameRepository.findSnapshot('game-1', 1)).toBeNull();
+    expect(await gameRepository.findSnapshot('game-1')).toEqual(withPlayer);
+  });
+
+  it('should find players by email and count them', async () => {
+    await playerRepository.save(createPlayer('player-1'));
+    await playerRepository.save(createPlayer('player-2'));
+
+    const found = await playerRepository.findByEmail('player-2@test.com');
+
+    expect(found?.id).toBe('player-2');
+    expect(await playerRepository.count()).toBe(2);
+  });
+
+  it('should store a player\'s rating and append to their rating history', async () => {
+    const player = createPlayer('player-1');
+    await playerRepository.save(player);
+    await playerRepository.save({ ...player, rating: { rating: 1662.31, deviation: 290.32, volatility: 0.059999 } });
+    await playerRepository.addRatingHistory({
+      id: 'history-1',
+      playerId: 'player-1',
+      gameId: 'game-1',
+      opponentId: 'player-2',
+      result: 'win',
+      rating: 1662.31,
+      deviation: 290.32,
+      volatility: 0.059999,
+      ratingChange: 162.31,
+      recordedAt: new Date('2024-01-01T00:05:00.000Z'),
+    });
+
+    expect((await playerRepository.findById('player-1'))?.rating).toEqual({ rating: 1662.31, deviation: 290.32, volatility: 0.059999 });
+    expect(await playerRepository.findRatingHistory('player-1')).toEqual([
+      expect.objectContaining({ id: 'history-1', gameId: 'game-1', result: 'win', ratingChange: 162.31 }),
+    ]);
+  });
+
+  it('should persist a player\'s role and moderation state', async () => {
+    const player = createPlayer('player-1');
+    await playerRepository.save(player);
+    await playerRepository.save({
+      ...player,
+      role: 'admin',
+      bannedAt: new Date('2024-01-02T00:00:00.000Z'),
+      banReason: 'Abusive names',
+      flaggedAt: new Date('2024-01-01T12:00:00.000Z'),
+      flagReason: 'Offensive name',
+    });
+
+    expect(await playerRepository.findById('player-1')).toMatchObject({
+      role: 'admin',
+      bannedAt: new Date('2024-01-02T00:00:00.000Z'),
+      banReason: 'Abusive names',
+      flaggedAt: new Date('2024-01-01T12:00:00.000Z'),
+      flagReason: 'Offensive name',
+    });
+  });
+});
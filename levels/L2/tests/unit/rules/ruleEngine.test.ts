@@ -0,0 +1,102 @@
+import { getRuleEngine } from '../../../src/rules';
+import { Game, GameBoard, GameVariant, Move, MoveSymbol } from '../../../src/types';
+
+describe('rule engines', () => {
+  const players = [{ id: 'player-1' }, { id: 'player-2' }] as Game['players'];
+  const emptyGame = { board: [[null, null, null], [null, null, null], [null, null, null]], moves: [] } as unknown as Game;
+
+  // Put the move on the board the way GameModel does, then ask the engine how the game stands
+  const play = (variant: GameVariant, board: GameBoard, move: { playerId: string; row: number; col: number; symbol?: MoveSymbol }) => {
+    const rules = getRuleEngine(variant);
+    const game = { board: board.map(row => [...row]), winLength: 3, players, variant } as Game;
+    const fullMove = { id: 'move-1', gameId: 'game-1', timestamp: new Date(), ...move } as Move;
+
+    game.board[move.row][move.col] = rules.markFor(fullMove);
+    return { board: game.board, outcome: rules.evaluate(game, fullMove) };
+  };
+
+  const p1 = 'player-1';
+  const p2 = 'player-2';
+
+  describe('standard', () => {
+    it('should award the line to the player who completed it', () => {
+      const { outcome } = play('standard', [[p1, p1, null], [p2, p2, null], [null, null, null]], { playerId: p1, row: 0, col: 2 });
+
+      expect(outcome).toEqual({
+        status: 'completed',
+        winResult: { winnerId: p1, condition: 'row', positions: [{ row: 0, col: 0 }, { row: 0, col: 1 }, { row: 0, col: 2 }] },
+      });
+    });
+
+    it('should call a full board without a line a draw', () => {
+      const { outcome } = play('standard', [[p1, p2, p1], [p1, p2, p2], [p2, p1, null]], { playerId: p1, row: 2, col: 2 });
+
+      expect(outcome).toEqual({ status: 'draw' });
+    });
+
+    it('should refuse a symbol', () => {
+      expect(() => getRuleEngine('standard').validateMove(emptyGame, 0, 0, 'X')).toThrow('Only wild games take a symbol');
+    });
+  });
+
+  describe('misere', () => {
+    it('should give the game to the opponent of the player who completed a line', () => {
+      const { outcome } = play('misere', [[null, null, null], [p1, p1, null], [p2, p2, null]], { playerId: p1, row: 1, col: 2 });
+
+      expect(outcome).toMatchObject({ status: 'completed', winResult: { winnerId: p2, condition: 'row' } });
+    });
+
+    it('should keep playing while no line is complete', () => {
+      const { outcome } = play('misere', [[p1, null, null], [null, null, null], [null, null, p2]], { playerId: p1, row: 0, col: 2 });
+
+      expect(outcome).toEqual({ status: 'active' });
+    });
+  });
+
+  describe('wild', () => {
+    it('should place the chosen symbol and award a line of either symbol to whoever completed it', () => {
+      const { board, outcome } = play('wild', [['O', null, null], ['X', 'O', null], [null, null, null]], {
+        playerId: p2,
+        row: 2,
+        col: 2,
+        symbol: 'O',
+      });
+
+      expect(board[2][2]).toBe('O');
+      expect(outcome).toMatchObject({ status: 'completed', winResult: { winnerId: p2, condition: 'diagonal' } });
+    });
+
+    it('should not count a line of mixed symbols', () => {
+      const { outcome } = play('wild', [['X', 'O', null], [null, null, null], [null, null, null]], {
+        playerId: p1,
+        row: 0,
+        col: 2,
+        symbol: 'X',
+      });
+
+      expect(outcome).toEqual({ status: 'active' });
+    });
+
+    it('should require a symbol', () => {
+      expect(() => getRuleEngine('wild').validateMove(emptyGame, 0, 0, undefined)).toThrow('Wild games need a symbol (X or O) with every move');
+      expect(() => getRuleEngine('wild').validateMove(emptyGame, 0, 0, 'O')).not.toThrow();
+    });
+  });
+
+  describe('notakto', () => {
+    it('should have both players play X and make whoever completes a line lose', () => {
+      const { board, outcome } = play('notakto', [['X', null, null], [null, 'X', null], [null, null, null]], {
+        playerId: p2,
+        row: 2,
+        col: 2,
+      });
+
+      expect(board[2][2]).toBe('X');
+      expect(outcome).toMatchObject({ status: 'completed', winResult: { winnerId: p1, condition: 'diagonal' } });
+    });
+
+    it('should refuse a symbol', () => {
+      expect(() => getRuleEngine('notakto').validateMove(emptyGame, 0, 0, 'O')).toThrow('Only wild games take a symbol');
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { AdminService } from '../../../src/services/adminService';
+import { GameService } from '../../../src/services/gameService';
+import { GameEventBus } from '../../../src/services/gameEvents';
+import { MatchmakingService } from '../../../src/services/matchmakingService';
+import { GameModel } from '../../../src/models/game';
+import { PlayerModel } from '../../../src/models/player';
+import { AuditLogModel } from '../../../src/models/auditLog';
+import {
+  InMemoryAuditLogRepository,
+  InMemoryGameRepository,
+  InMemoryPlayerRepository,
+} from '../../../src/repositories';
+import { Game, Player } from '../../../src/types';
+
+jest.spyOn(console, 'log').mockImplementation();
+
+describe('AdminService', () => {
+  let adminService: AdminService;
+  let gameService: GameService;
+  let matchmakingService: MatchmakingService;
+  let gameModel: GameModel;
+  let playerModel: PlayerModel;
+  let admin: Player;
+  let alice: Player;
+  let bob: Player;
+
+  const playWonGame = async (): Promise<Game> => {
+    const game = await gameService.createGame('Admin Test');
+    await gameService.joinGame(game.id, alice);
+    await gameService.joinGame(game.id, bob);
+
+    const moves: Array<[string, number, number]> = [
+      [alice.id, 0, 0], [bob.id, 1, 0], [alice.id, 0, 1], [bob.id, 1, 1], [alice.id, 0, 2],
+    ];
+    let result!: Game;
+    for (const [playerId, row, col] of moves) {
+      result = (await gameService.makeMove(game.id, playerId, row, col)).game;
+    }
+    return result;
+  };
+
+  beforeEach(async () => {
+    gameModel = new GameModel(new InMemoryGameRepository());
+    playerModel = new PlayerModel(new InMemoryPlayerRepository());
+
+    gameService = new GameService();
+    (gameService as any).gameModel = gameModel;
+    (gameService as any).playerModel = playerModel;
+    (gameService as any).eventBus = new GameEventBus();
+
+    matchmakingService = new MatchmakingService(gameService);
+    (matchmakingService as any).gameModel = gameModel;
+    (matchmakingService as any).playerModel = playerModel;
+
+    adminService = new AdminService(gameService, matchmakingService);
+    (adminService as any).playerModel = playerModel;
+    (adminService as any).auditLog = new AuditLogModel(new InMemoryAuditLogRepository());
+
+    admin = await playerModel.createPlayer('Admin', 'admin@test.com', 'admin');
+    alice = await playerModel.createPlayer('Alice', 'alice@test.com');
+    bob = await playerModel.createPlayer('Bob', 'bob@test.com');
+  });
+
+  it('should revert stats and ratings when a finished game is voided', async () => {
+    const game = await playWonGame();
+    expect((await playerModel.getPlayerById(alice.id))?.stats.gamesWon).toBe(1);
+
+    const voided = await adminService.voidGame(admin.id, game.id, 'Win trading');
+
+    const aliceAfter = await playerModel.getPlayerById(alice.id);
+    const bobAfter = await playerModel.getPlayerById(bob.id);
+    expect(voided.status).toBe('voided');
+    expect(aliceAfter?.stats).toMatchObject({ gamesPlayed: 0, gamesWon: 0, totalMoves: 0 });
+    expect(bobAfter?.stats).toMatchObject({ gamesPlayed: 0, gamesLost: 0 });
+    expect(aliceAfter?.rating).toEqual({ rating: 1500, deviation: 350, volatility: 0.06 });
+    expect(await playerModel.getRatingHistory(alice.id)).toHaveLength(0);
+  });
+
+  it('should settle stats when an admin force-ends a game', async () => {
+    const game = await gameService.createGame('Admin Test');
+    await gameService.joinGame(game.id, alice);
+    await gameService.joinGame(game.id, bob);
+
+    const ended = await adminService.endGame(admin.id, game.id, bob.id, 'Opponent abandoned');
+
+    expect(ended.endReason).toBe('admin');
+    expect((await playerModel.getPlayerById(bob.id))?.stats.gamesWon).toBe(1);
+  });
+
+  it('should stop banned players from joining games until unbanned', async () => {
+    const game = await gameService.createGame('Admin Test');
+
+    await adminService.banPlayer(admin.id, alice.id, 'Harassment');
+
+    await expect(gameService.joinGame(game.id, alice)).rejects.toThrow('Player is banned from joining games');
+    await expect(adminService.banPlayer(admin.id, admin.id, 'Oops')).rejects.toThrow('Admins cannot ban themselves');
+
+    await adminService.unbanPlayer(admin.id, alice.id);
+
+    expect((await gameService.joinGame(game.id, alice)).players).toHaveLength(1);
+  });
+
+  it('should take a banned player out of the matchmaking queue', async () => {
+    await matchmakingService.enqueue(alice.id);
+
+    await adminService.banPlayer(admin.id, alice.id, 'Harassment');
+
+    expect((await matchmakingService.getStatus(alice.id)).status).toBe('cancelled');
+    expect((await matchmakingService.enqueue(bob.id)).game).toBeNull();
+  });
+
+  it('should list flagged players and close the flag on ban', async () => {
+    jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00.000Z') });
+    try {
+      await playerModel.flagPlayer(bob.id, 'Offensive name');
+      jest.setSystemTime(new Date('2024-01-01T00:01:00.000Z'));
+      await playerModel.flagPlayer(alice.id, 'Stalling');
+    } finally {
+      jest.useRealTimers();
+    }
+
+    expect((await adminService.getFlaggedPlayers()).map(p => p.id)).toEqual([bob.id, alice.id]);
+
+    await adminService.banPlayer(admin.id, bob.id, 'Offensive name');
+    await adminService.clearFlag(admin.id, alice.id);
+
+    expect(await adminService.getFlaggedPlayers()).toHaveLength(0);
+  });
+
+  it('should not delete a player who is still in an unfinished game', async () => {
+    const game = await gameService.createGame('Admin Test');
+    await gameService.joinGame(game.id, alice);
+    await gameService.joinGame(game.id, bob);
+
+    await expect(adminService.deletePlayer(admin.id, alice.id)).rejects.toMatchObject({ code: 'PLAYER_IN_UNFINISHED_GAME' });
+
+    await gameService.resign(game.id, alice.id);
+    await adminService.deletePlayer(admin.id, alice.id);
+
+    expect(await playerModel.getPlayerById(alice.id)).toBeNull();
+  });
+
+  it('should record every admin action, newest first', async () => {
+    await adminService.banPlayer(admin.id, alice.id, 'Harassment');
+    await adminService.setRole(admin.id, bob.id, 'admin');
+
+    const entries = await adminService.getAuditLog();
+
+    expect(entries.map(entry => entry.action)).toEqual(['set_role', 'ban_player']);
+    expect(entries[0]).toMatchObject({ adminId: admin.id, targetId: bob.id, details: { from: 'player', to: 'admin' } });
+    expect(entries[1]).toMatchObject({ targetType: 'player', targetId: alice.id, reason: 'Harassment' });
+  });
+
+  it('should not record actions that fail', async () => {
+    await expect(adminService.voidGame(admin.id, 'missing-game')).rejects.toThrow('Game not found');
+
+    expect(await adminService.getAuditLog()).toHaveLength(0);
+  });
+});
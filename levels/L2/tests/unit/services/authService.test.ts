@@ -0,0 +1,71 @@
+import { AuthService } from '../../../src/services/authService';
+import { PlayerModel } from '../../../src/models/player';
+import { InMemoryPlayerRepository } from '../../../src/repositories';
+import { getTokenSecret, signToken } from '../../../src/utils/token';
+
+jest.spyOn(console, 'log').mockImplementation();
+jest.spyOn(console, 'warn').mockImplementation();
+
+describe('AuthService', () => {
+  let authService: AuthService;
+  let playerModel: PlayerModel;
+
+  beforeEach(() => {
+    playerModel = new PlayerModel(new InMemoryPlayerRepository());
+    authService = new AuthService();
+    (authService as any).playerModel = playerModel;
+  });
+
+  it('should log in with the password given at registration', async () => {
+    const { player, apiKey } = await authService.register('Alice', 'alice@test.com', 'correct horse');
+
+    expect(apiKey).toBeNull();
+
+    const login = await authService.login('Alice@Test.com', { password: 'correct horse' });
+
+    expect(login.player.id).toBe(player.id);
+    expect(login.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    expect((await authService.authenticate(login.token)).id).toBe(player.id);
+    await expect(authService.login('alice@test.com', { password: 'wrong horse' })).rejects.toThrow('Invalid email or credentials');
+  });
+
+  it('should issue an API key when no password is given', async () => {
+    const { player, apiKey } = await authService.register('Bob', 'bob@test.com');
+
+    expect(apiKey).toMatch(/^ttt_/);
+
+    const login = await authService.login('bob@test.com', { apiKey: apiKey! });
+
+    expect(login.player.id).toBe(player.id);
+    await expect(authService.login('bob@test.com', { password: apiKey! })).rejects.toThrow('Invalid email or credentials');
+  });
+
+  it('should reject short passwords and duplicate emails', async () => {
+    await expect(authService.register('Alice', 'alice@test.com', 'short')).rejects.toThrow('Password must be at least 8 characters');
+
+    await authService.register('Alice', 'alice@test.com');
+
+    await expect(authService.register('Another Alice', 'ALICE@test.com')).rejects.toThrow('Email is already in use by another player');
+  });
+
+  it('should reject tampered tokens and tokens for deleted players', async () => {
+    const { player } = await authService.register('Carol', 'carol@test.com', 'password123');
+    const { token } = await authService.login('carol@test.com', { password: 'password123' });
+    const [payload, signature] = token.split('.');
+    const forged = signToken(player.id, 'not-the-secret').token;
+
+    await expect(authService.authenticate(`${payload}.${signature.slice(1)}x`)).rejects.toThrow('Invalid or expired token');
+    await expect(authService.authenticate(forged)).rejects.toThrow('Invalid or expired token');
+
+    await playerModel.deletePlayer(player.id);
+
+    await expect(authService.authenticate(token)).rejects.toThrow('Invalid or expired token');
+  });
+
+  it('should reject expired tokens', async () => {
+    const { player } = await authService.register('Dave', 'dave@test.com', 'password123');
+    const { token } = signToken(player.id, getTokenSecret(), 60, new Date(Date.now() - 61 * 1000));
+
+    await expect(authService.authenticate(token)).rejects.toThrow('Invalid or expired token');
+  });
+});
@@ -0,0 +1,136 @@
+import { BotService } from '../../../src/services/botService';
+import { Game, GameBoard } from '../../../src/types';
+
+describe('BotService', () => {
+  const buildGame = (board: GameBoard, winLength = 3): Game => ({
+    id: 'game-1',
+    name: 'Bot Game',
+    status: 'active',
+    board,
+    rows: board.length,
+    cols: board[0].length,
+    winLength,
+    players: [
+      { id: 'human', name: 'Human', type: 'human', role: 'player', stats: {} as any, rating: {} as any, createdAt: new Date(), updatedAt: new Date() },
+      { id: 'bot', name: 'Bot', type: 'bot', role: 'player', botDifficulty: 'hard', stats: {} as any, rating: {} as any, createdAt: new Date(), updatedAt: new Date() },
+    ],
+    currentPlayerId: 'bot',
+    winnerId: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    moves: [],
+    takebacks: [],
+    drawOffers: [],
+    timeControl: null,
+    clocks: {},
+    turnStartedAt: null,
+    endReason: null,
+    spectators: [],
+    version: 1,
+    winResult: null,
+    variant: 'standard',
+    ultimate: null,
+    maxPlayers: 2,
+    symbols: {},
+    placements: {},
+    seriesId: null,
+  });
+
+  const H = 'human';
+  const B = 'bot';
+
+  describe('easy', () => {
+    it('should pick one of the empty cells', () => {
+      const botService = new BotService(() => 0.99);
+      const game = buildGame([[H, B, H], [B, H, null], [B, H, B]]);
+
+      expect(botService.chooseMove(game, 'bot', 'easy')).toEqual({ row: 1, col: 2 });
+    });
+  });
+
+  describe('medium', () => {
+    it('should complete its own line before blocking', () => {
+      const botService = new BotService();
+      const game = buildGame([[B, B, null], [H, H, null], [null, null, null]]);
+
+      expect(botService.chooseMove(game, 'bot', 'medium')).toEqual({ row: 0, col: 2 });
+    });
+
+    it('should block the opponent from winning', () => {
+      const botService = new BotService();
+      const game = buildGame([[H, H, null], [B, null, null], [null, null, null]]);
+
+      expect(botService.chooseMove(game, 'bot', 'medium')).toEqual({ row: 0, col: 2 });
+    });
+
+    it('should take the centre of an open board', () => {
+      const botService = new BotService();
+      const game = buildGame([[H, null, null], [null, null, null], [null, null, null]]);
+
+      expect(botService.chooseMove(game, 'bot', 'medium')).toEqual({ row: 1, col: 1 });
+    });
+  });
+
+  describe('hard', () => {
+    it('should answer a corner opening with the centre', () => {
+      const botService = new BotService();
+      const game = buildGame([[H, null, null], [null, null, null], [null, null, null]]);
+
+      expect(botService.chooseMove(game, 'bot', 'hard')).toEqual({ row: 1, col: 1 });
+    });
+
+    it('should block a fork in advance', () => {
+      // Human holds opposite corners; taking a corner loses to a fork, so the bot must play an edge
+      const botService = new BotService();
+      const game = buildGame([[H, null, null], [null, B, null], [null, null, H]]);
+
+      const move = botService.chooseMove(game, 'bot', 'hard');
+
+      expect([{ row: 0, col: 1 }, { row: 1, col: 0 }, { row: 1, col: 2 }, { row: 2, col: 1 }]).toContainEqual(move);
+    });
+
+    it('should never lose to a random opponent on 3x3', () => {
+      const botService = new BotService();
+
+      for (let round = 0; round < 20; round++) {
+        const board: GameBoard = [[null, null, null], [null, null, null], [null, null, null]];
+        const game = buildGame(board);
+        let turn = H;
+
+        for (let ply = 0; ply < 9; ply++) {
+          const empty = board.flatMap((cells, row) => cells.map((cell, col) => ({ row, col, cell }))).filter(c => c.cell === null);
+          const move = turn === B
+            ? botService.chooseMove(game, 'bot', 'hard')
+            : empty[Math.floor(Math.random() * empty.length)];
+          board[move.row][move.col] = turn;
+
+          const lines = [
+            ...board,
+            ...[0, 1, 2].map(col => board.map(cells => cells[col])),
+            [board[0][0], board[1][1], board[2][2]],
+            [board[0][2], board[1][1], board[2][0]],
+          ];
+          const winner = lines.find(line => line.every(cell => cell === turn)) ? turn : null;
+          if (winner) {
+            expect(winner).toBe(B);
+            break;
+          }
+
+          turn = turn === H ? B : H;
+        }
+      }
+    });
+
+    it('should block a four on a large board', () => {
+      const botService = new BotService();
+      const board: GameBoard = Array.from({ length: 9 }, () => Array(9).fill(null));
+      [[4, 2], [4, 3], [4, 4], [4, 5]].forEach(([row, col]) => (board[row][col] = H));
+      [[3, 3], [5, 5], [4, 1]].forEach(([row, col]) => (board[row][col] = B));
+      const game = buildGame(board, 5);
+
+      const move = botService.chooseMove(game, 'bot', 'hard');
+
+      expect(move).toEqual({ row: 4, col: 6 });
+    });
+  });
+});
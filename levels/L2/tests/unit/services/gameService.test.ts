@@ -1,16 +1,53 @@
 import { GameService } from '../../../src/services/gameService';
 import { GameModel } from '../../../src/models/game';
 import { PlayerModel } from '../../../src/models/player';
-import { Game, Player, Move, GameStatus } from '../../../src/types';
+import { GameEventBus } from '../../../src/services/gameEvents';
+import { GameClockScheduler } from '../../../src/services/gameClock';
+import { Game, Player, Move, GameStatus, GameEvent, GameVariant } from '../../../src/types';
+import { PlayerNotInGameError } from '../../../src/errors';
 
 // Mock the console.log to avoid noise in tests
 const mockConsoleLog = jest.spyOn(console, 'log').mockImplementation();
 const mockConsoleError = jest.spyOn(console, 'error').mockImplementation();
 
+const buildGame = (overrides: Partial<Game> = {}): Game => ({
+  id: 'game-1',
+  name: 'Test Game',
+  status: 'waiting',
+  board: [[null, null, null], [null, null, null], [null, null, null]],
+  rows: 3,
+  cols: 3,
+  winLength: 3,
+  players: [],
+  currentPlayerId: null,
+  winnerId: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  moves: [],
+  takebacks: [],
+  drawOffers: [],
+  timeControl: null,
+  clocks: {},
+  turnStartedAt: null,
+  endReason: null,
+  spectators: [],
+  version: 1,
+  winResult: null,
+  variant: 'standard',
+  ultimate: null,
+  maxPlayers: 2,
+  symbols: {},
+  placements: {},
+  seriesId: null,
+  ...overrides,
+});
+
 describe('GameService', () => {
   let gameService: GameService;
   let mockGameModel: jest.Mocked<GameModel>;
   let mockPlayerModel: jest.Mocked<PlayerModel>;
+  let eventBus: GameEventBus;
+  let clockScheduler: GameClockScheduler;
 
   beforeEach(() => {
     mockGameModel = {
@@ -23,6 +60,14 @@ describe('GameService', () => {
       deleteGame: jest.fn(),
       getGameStats: jest.fn(),
       getValidMoves: jest.fn(),
+      requestTakeback: jest.fn(),
+      respondToTakeback: jest.fn(),
+      claimTimeout: jest.fn(),
+      resign: jest.fn(),
+      offerDraw: jest.fn(),
+      respondToDrawOffer: jest.fn(),
+      spectateGame: jest.fn(),
+      leaveSpectating: jest.fn(),
     } as any;
 
     mockPlayerModel = {
@@ -31,15 +76,21 @@ describe('GameService', () => {
       updatePlayer: jest.fn(),
       getAllPlayers: jest.fn(),
       recordGameResult: jest.fn(),
+      recordRatingChange: jest.fn(),
     } as any;
 
     // Create GameService with mocked dependencies
     gameService = new GameService();
     (gameService as any).gameModel = mockGameModel;
     (gameService as any).playerModel = mockPlayerModel;
+    eventBus = new GameEventBus();
+    (gameService as any).eventBus = eventBus;
+    clockScheduler = new GameClockScheduler();
+    (gameService as any).clockScheduler = clockScheduler;
   });
 
   afterEach(() => {
+    clockScheduler.cancelAll();
     jest.clearAllMocks();
     mockConsoleLog.mockClear();
     mockConsoleError.mockClear();
@@ -52,7 +103,7 @@ describe('GameService', () => {
 
   describe('createGame', () => {
     it('should create a new game successfully', async () => {
-      const mockGame: Game = {
+      const mockGame = buildGame({
         id: 'game-1',
         name: 'Test Game',
         status: 'waiting',
@@ -63,20 +114,20 @@ describe('GameService', () => {
         createdAt: new Date(),
         updatedAt: new Date(),
         moves: [],
-      };
+      });
 
       mockGameModel.createGame.mockResolvedValue(mockGame);
 
       const result = await gameService.createGame('Test Game');
 
       expect(result).toEqual(mockGame);
-      expect(mockGameModel.createGame).toHaveBeenCalledWith('Test Game');
+      expect(mockGameModel.createGame).toHaveBeenCalledWith('Test Game', {}, null, 'standard', 2);
       expect(mockConsoleLog).toHaveBeenCalledWith('🎮 Creating new game: Test Game');
-      expect(mockConsoleLog).toHaveBeenCalledWith('✅ Game created: game-1');
+      expect(mockConsoleLog).toHaveBeenCalledWith('✅ Game created: game-1 (3x3, 3 in a row)');
     });
 
     it('should create a game without name', async () => {
-      const mockGame: Game = {
+      const mockGame = buildGame({
         id: 'game-2',
         name: 'Game-1234567890',
         status: 'waiting',
@@ -87,14 +138,14 @@ describe('GameService', () => {
         createdAt: new Date(),
         updatedAt: new Date(),
         moves: [],
-      };
+      });
 
       mockGameModel.createGame.mockResolvedValue(mockGame);
 
       const result = await gameService.createGame();
 
       expect(result).toEqual(mockGame);
-      expect(mockGameModel.createGame).toHaveBeenCalledWith(undefined);
+      expect(mockGameModel.createGame).toHaveBeenCalledWith(undefined, {}, null, 'standard', 2);
       expect(mockConsoleLog).toHaveBeenCalledWith('🎮 Creating new game: Unnamed');
     });
 
@@ -114,7 +165,7 @@ describe('GameService', () => {
 
   describe('getGameById', () => {
     it('should return game when found', async () => {
-      const mockGame: Game = {
+      const mockGame = buildGame({
         id: 'game-1',
         name: 'Test Game',
         status: 'active',
@@ -125,7 +176,7 @@ describe('GameService', () => {
         createdAt: new Date(),
         updatedAt: new Date(),
         moves: [],
-      };
+      });
 
       mockGameModel.getGameById.mockResolvedValue(mockGame);
 
@@ -157,6 +208,8 @@ describe('GameService', () => {
       id: 'player-1',
       name: 'Test Player',
       email: 'test@example.com',
+      type: 'human',
+      role: 'player',
       stats: {
         gamesPlayed: 0,
         gamesWon: 0,
@@ -166,12 +219,21 @@ describe('GameService', () => {
         averageMovesPerWin: 0,
         winRate: 0,
         efficiency: 0,
+        placements: [],
+        seriesPlayed: 0,
+        seriesWon: 0,
+        seriesLost: 0,
       },
+      rating: { rating: 1500, deviation: 350, volatility: 0.06 },
+      bannedAt: null,
+      banReason: null,
+      flaggedAt: null,
+      flagReason: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
-    const mockGame: Game = {
+    const mockGame = buildGame({
       id: 'game-1',
       name: 'Test Game',
       status: 'waiting',
@@ -182,7 +244,7 @@ describe('GameService', () => {
       createdAt: new Date(),
       updatedAt: new Date(),
       moves: [],
-    };
+    });
 
     it('should join game successfully', async () => {
       mockPlayerModel.getPlayerById.mockResolvedValue(mockPlayer);
@@ -194,7 +256,7 @@ describe('GameService', () => {
       expect(result).toEqual(mockGame);
       expect(mockPlayerModel.getPlayerById).toHaveBeenCalledWith('player-1');
       expect(mockGameModel.listGames).toHaveBeenCalledWith('active');
-      expect(mockGameModel.joinGame).toHaveBeenCalledWith('game-1', mockPlayer);
+      expect(mockGameModel.joinGame).toHaveBeenCalledWith('game-1', mockPlayer, undefined);
     });
 
     it('should throw error when player not found', async () => {
@@ -204,11 +266,11 @@ describe('GameService', () => {
     });
 
     it('should throw error when player already in active game', async () => {
-      const activeGame: Game = {
+      const activeGame = buildGame({
         ...mockGame,
         players: [mockPlayer],
         status: 'active',
-      };
+      });
 
       mockPlayerModel.getPlayerById.mockResolvedValue(mockPlayer);
       mockGameModel.listGames.mockResolvedValue([activeGame]);
@@ -218,21 +280,21 @@ describe('GameService', () => {
   });
 
   describe('makeMove', () => {
-    const mockGame: Game = {
+    const mockGame = buildGame({
       id: 'game-1',
       name: 'Test Game',
       status: 'active',
       board: [[null, null, null], [null, null, null], [null, null, null]],
       players: [
-        { id: 'player-1', name: 'Player 1', email: 'p1@test.com', stats: {} as any, createdAt: new Date(), updatedAt: new Date() },
-        { id: 'player-2', name: 'Player 2', email: 'p2@test.com', stats: {} as any, createdAt: new Date(), updatedAt: new Date() },
+        { id: 'player-1', name: 'Player 1', type: 'human', role: 'player', stats: {} as any, rating: {} as any, createdAt: new Date(), updatedAt: new Date() },
+        { id: 'player-2', name: 'Player 2', type: 'human', role: 'player', stats: {} as any, rating: {} as any, createdAt: new Date(), updatedAt: new Date() },
       ],
       currentPlayerId: 'player-1',
       winnerId: null,
       createdAt: new Date(),
       updatedAt: new Date(),
       moves: [],
-    };
+    });
 
     const mockMove: Move = {
       id: 'move-1',
@@ -250,41 +312,68 @@ describe('GameService', () => {
       const result = await gameService.makeMove('game-1', 'player-1', 0, 0);
 
       expect(result).toEqual(mockResult);
-      expect(mockGameModel.makeMove).toHaveBeenCalledWith('game-1', 'player-1', 0, 0);
+      expect(mockGameModel.makeMove).toHaveBeenCalledWith('game-1', 'player-1', 0, 0, undefined, undefined);
       expect(mockConsoleLog).toHaveBeenCalledWith('🎯 Player player-1 making move at (0, 0) in game: game-1');
       expect(mockConsoleLog).toHaveBeenCalledWith('✅ Move made: move-1 at (0, 0)');
     });
 
     it('should throw error for invalid coordinates', async () => {
-      await expect(gameService.makeMove('game-1', 'player-1', -1, 0)).rejects.toThrow('Move coordinates must be between 0 and 2');
-      await expect(gameService.makeMove('game-1', 'player-1', 3, 0)).rejects.toThrow('Move coordinates must be between 0 and 2');
-      await expect(gameService.makeMove('game-1', 'player-1', 0, -1)).rejects.toThrow('Move coordinates must be between 0 and 2');
-      await expect(gameService.makeMove('game-1', 'player-1', 0, 3)).rejects.toThrow('Move coordinates must be between 0 and 2');
+      await expect(gameService.makeMove('game-1', 'player-1', -1, 0)).rejects.toThrow('Move coordinates must be non-negative integers');
+      await expect(gameService.makeMove('game-1', 'player-1', 0, -1)).rejects.toThrow('Move coordinates must be non-negative integers');
+      await expect(gameService.makeMove('game-1', 'player-1', 1.5, 0)).rejects.toThrow('Move coordinates must be non-negative integers');
+      expect(mockGameModel.makeMove).not.toHaveBeenCalled();
+    });
+
+    it('should leave board bounds checks to the model', async () => {
+      mockGameModel.makeMove.mockRejectedValue(new Error('Move coordinates must be within the 3x3 board'));
+
+      await expect(gameService.makeMove('game-1', 'player-1', 3, 0)).rejects.toThrow('Move coordinates must be within the 3x3 board');
+      expect(mockGameModel.makeMove).toHaveBeenCalledWith('game-1', 'player-1', 3, 0, undefined, undefined);
     });
 
     it('should update player stats when game is completed', async () => {
-      const completedGame: Game = {
+      const completedGame = buildGame({
         ...mockGame,
         status: 'completed',
         winnerId: 'player-1',
-      };
+        moves: [mockMove],
+      });
       const mockResult = { game: completedGame, move: mockMove };
       
       mockGameModel.makeMove.mockResolvedValue(mockResult);
-      mockPlayerModel.recordGameResult.mockResolvedValue(mockGame.players[0]);
+      mockPlayerModel.recordGameResult.mockResolvedValue(mockGame.players[0] as Player);
 
       await gameService.makeMove('game-1', 'player-1', 0, 0);
 
-      expect(mockPlayerModel.recordGameResult).toHaveBeenCalledWith('player-1', 'win', 1);
-      expect(mockPlayerModel.recordGameResult).toHaveBeenCalledWith('player-2', 'loss', 0);
+      expect(mockPlayerModel.recordGameResult).toHaveBeenCalledWith('player-1', 'win', 1, undefined);
+      expect(mockPlayerModel.recordGameResult).toHaveBeenCalledWith('player-2', 'loss', 0, undefined);
+    });
+
+    it('should record every player\'s placement in games of three or more players', async () => {
+      const players = ['player-1', 'player-2', 'player-3'].map(id => ({ id, name: id }) as Player);
+      const completedGame = buildGame({
+        status: 'completed',
+        players,
+        winnerId: 'player-2',
+        placements: { 'player-1': 3, 'player-2': 1, 'player-3': 2 },
+      });
+
+      mockGameModel.makeMove.mockResolvedValue({ game: completedGame, move: mockMove });
+      mockPlayerModel.recordGameResult.mockResolvedValue(players[0]);
+
+      await gameService.makeMove('game-1', 'player-2', 0, 0);
+
+      expect(mockPlayerModel.recordGameResult).toHaveBeenCalledWith('player-1', 'loss', 0, 3);
+      expect(mockPlayerModel.recordGameResult).toHaveBeenCalledWith('player-2', 'win', 0, 1);
+      expect(mockPlayerModel.recordGameResult).toHaveBeenCalledWith('player-3', 'loss', 0, 2);
     });
   });
 
   describe('getAllGames', () => {
     it('should return all games', async () => {
       const mockGames: Game[] = [
-        { id: 'game-1', name: 'Game 1', status: 'waiting', board: [], players: [], currentPlayerId: null, winnerId: null, createdAt: new Date(), updatedAt: new Date(), moves: [] },
-        { id: 'game-2', name: 'Game 2', status: 'active', board: [], players: [], currentPlayerId: null, winnerId: null, createdAt: new Date(), updatedAt: new Date(), moves: [] },
+        buildGame({ id: 'game-1', name: 'Game 1', status: 'waiting', board: [], players: [], currentPlayerId: null, winnerId: null, createdAt: new Date(), updatedAt: new Date(), moves: [] }),
+        buildGame({ id: 'game-2', name: 'Game 2', status: 'active', board: [], players: [], currentPlayerId: null, winnerId: null, createdAt: new Date(), updatedAt: new Date(), moves: [] }),
       ];
 
       mockGameModel.listGames.mockResolvedValue(mockGames);
@@ -301,7 +390,7 @@ describe('GameService', () => {
   describe('getGamesByStatus', () => {
     it('should return games by status', async () => {
       const mockGames: Game[] = [
-        { id: 'game-1', name: 'Game 1', status: 'active', board: [], players: [], currentPlayerId: null, winnerId: null, createdAt: new Date(), updatedAt: new Date(), moves: [] },
+        buildGame({ id: 'game-1', name: 'Game 1', status: 'active', board: [], players: [], currentPlayerId: null, winnerId: null, createdAt: new Date(), updatedAt: new Date(), moves: [] }),
       ];
 
       mockGameModel.listGames.mockResolvedValue(mockGames);
@@ -321,9 +410,22 @@ describe('GameService', () => {
         id: 'game-1',
         status: 'active' as GameStatus,
         board: [[null, null, null], [null, null, null], [null, null, null]],
+        rows: 3,
+        cols: 3,
+        winLength: 3,
         currentPlayerId: 'player-1',
         winnerId: null,
+        endReason: null,
+        winResult: null,
+        variant: 'standard' as GameVariant,
+        ultimate: null,
+        maxPlayers: 2,
+        symbols: {},
+        placements: {},
+        seriesId: null,
+        clock: null,
         players: [],
+        spectatorCount: 0,
         moves: [],
       };
 
@@ -340,7 +442,7 @@ describe('GameService', () => {
 
   describe('deleteGame', () => {
     it('should delete game successfully', async () => {
-      const mockGame: Game = {
+      const mockGame = buildGame({
         id: 'game-1',
         name: 'Test Game',
         status: 'completed',
@@ -351,7 +453,7 @@ describe('GameService', () => {
         createdAt: new Date(),
         updatedAt: new Date(),
         moves: [],
-      };
+      });
 
       mockGameModel.getGameById.mockResolvedValue(mockGame);
       mockGameModel.deleteGame.mockResolvedValue();
@@ -359,7 +461,7 @@ describe('GameService', () => {
       await gameService.deleteGame('game-1');
 
       expect(mockGameModel.getGameById).toHaveBeenCalledWith('game-1');
-      expect(mockGameModel.deleteGame).toHaveBeenCalledWith('game-1');
+      expect(mockGameModel.deleteGame).toHaveBeenCalledWith('game-1', null);
       expect(mockConsoleLog).toHaveBeenCalledWith('🗑️  Deleting game: game-1');
       expect(mockConsoleLog).toHaveBeenCalledWith('✅ Game deleted: game-1');
     });
@@ -371,7 +473,7 @@ describe('GameService', () => {
     });
 
     it('should throw error when trying to delete active game', async () => {
-      const activeGame: Game = {
+      const activeGame = buildGame({
         id: 'game-1',
         name: 'Test Game',
         status: 'active',
@@ -382,7 +484,7 @@ describe('GameService', () => {
         createdAt: new Date(),
         updatedAt: new Date(),
         moves: [],
-      };
+      });
 
       mockGameModel.getGameById.mockResolvedValue(activeGame);
 
@@ -417,7 +519,7 @@ describe('GameService', () => {
         { row: 1, col: 0 },
       ];
 
-      const mockGame: Game = {
+      const mockGame = buildGame({
         id: 'game-1',
         name: 'Test Game',
         status: 'active',
@@ -428,7 +530,7 @@ describe('GameService', () => {
         createdAt: new Date(),
         updatedAt: new Date(),
         moves: [],
-      };
+      });
 
       mockGameModel.getGameById.mockResolvedValue(mockGame);
       mockGameModel.getValidMoves.mockReturnValue(mockValidMoves);
@@ -437,7 +539,7 @@ describe('GameService', () => {
 
       expect(result).toEqual(mockValidMoves);
       expect(mockGameModel.getGameById).toHaveBeenCalledWith('game-1');
-      expect(mockGameModel.getValidMoves).toHaveBeenCalledWith(mockGame.board);
+      expect(mockGameModel.getValidMoves).toHaveBeenCalledWith(mockGame);
       expect(mockConsoleLog).toHaveBeenCalledWith('🎯 Fetching valid moves for game: game-1');
       expect(mockConsoleLog).toHaveBeenCalledWith('✅ Found 3 valid moves for game: game-1');
     });
@@ -449,7 +551,7 @@ describe('GameService', () => {
     });
 
     it('should throw error when game is not active', async () => {
-      const completedGame: Game = {
+      const completedGame = buildGame({
         id: 'game-1',
         name: 'Test Game',
         status: 'completed',
@@ -460,7 +562,7 @@ describe('GameService', () => {
         createdAt: new Date(),
         updatedAt: new Date(),
         moves: [],
-      };
+      });
 
       mockGameModel.getGameById.mockResolvedValue(completedGame);
 
@@ -471,8 +573,8 @@ describe('GameService', () => {
   describe('getActiveGamesCount', () => {
     it('should return count of active games', async () => {
       mockGameModel.listGames.mockResolvedValue([
-        { id: 'game-1', name: 'Game 1', status: 'active', board: [], players: [], currentPlayerId: null, winnerId: null, createdAt: new Date(), updatedAt: new Date(), moves: [] },
-        { id: 'game-2', name: 'Game 2', status: 'active', board: [], players: [], currentPlayerId: null, winnerId: null, createdAt: new Date(), updatedAt: new Date(), moves: [] },
+        buildGame({ id: 'game-1', name: 'Game 1', status: 'active', board: [], players: [], currentPlayerId: null, winnerId: null, createdAt: new Date(), updatedAt: new Date(), moves: [] }),
+        buildGame({ id: 'game-2', name: 'Game 2', status: 'active', board: [], players: [], currentPlayerId: null, winnerId: null, createdAt: new Date(), updatedAt: new Date(), moves: [] }),
       ]);
 
       const result = await gameService.getActiveGamesCount();
@@ -485,7 +587,7 @@ describe('GameService', () => {
   describe('getWaitingGamesCount', () => {
     it('should return count of waiting games', async () => {
       mockGameModel.listGames.mockResolvedValue([
-        { id: 'game-1', name: 'Game 1', status: 'waiting', board: [], players: [], currentPlayerId: null, winnerId: null, createdAt: new Date(), updatedAt: new Date(), moves: [] },
+        buildGame({ id: 'game-1', name: 'Game 1', status: 'waiting', board: [], players: [], currentPlayerId: null, winnerId: null, createdAt: new Date(), updatedAt: new Date(), moves: [] }),
       ]);
 
       const result = await gameService.getWaitingGamesCount();
@@ -498,9 +600,9 @@ describe('GameService', () => {
   describe('getCompletedGamesCount', () => {
     it('should return count of completed games', async () => {
       mockGameModel.listGames.mockResolvedValue([
-        { id: 'game-1', name: 'Game 1', status: 'completed', board: [], players: [], currentPlayerId: null, winnerId: 'player-1', createdAt: new Date(), updatedAt: new Date(), moves: [] },
-        { id: 'game-2', name: 'Game 2', status: 'completed', board: [], players: [], currentPlayerId: null, winnerId: 'player-2', createdAt: new Date(), updatedAt: new Date(), moves: [] },
-        { id: 'game-3', name: 'Game 3', status: 'draw', board: [], players: [], currentPlayerId: null, winnerId: null, createdAt: new Date(), updatedAt: new Date(), moves: [] },
+        buildGame({ id: 'game-1', name: 'Game 1', status: 'completed', board: [], players: [], currentPlayerId: null, winnerId: 'player-1', createdAt: new Date(), updatedAt: new Date(), moves: [] }),
+        buildGame({ id: 'game-2', name: 'Game 2', status: 'completed', board: [], players: [], currentPlayerId: null, winnerId: 'player-2', createdAt: new Date(), updatedAt: new Date(), moves: [] }),
+        buildGame({ id: 'game-3', name: 'Game 3', status: 'draw', board: [], players: [], currentPlayerId: null, winnerId: null, createdAt: new Date(), updatedAt: new Date(), moves: [] }),
       ]);
 
       const result = await gameService.getCompletedGamesCount();
@@ -509,4 +611,282 @@ describe('GameService', () => {
       expect(mockGameModel.listGames).toHaveBeenCalledWith('completed');
     });
   });
+
+  describe('events', () => {
+    const players: Player[] = [
+      { id: 'player-1', name: 'Player 1', email: 'p1@test.com', type: 'human', role: 'player', stats: {} as any, rating: {} as any, bannedAt: null, banReason: null, flaggedAt: null, flagReason: null, createdAt: new Date(), updatedAt: new Date() },
+      { id: 'player-2', name: 'Player 2', email: 'p2@test.com', type: 'human', role: 'player', stats: {} as any, rating: {} as any, bannedAt: null, banReason: null, flaggedAt: null, flagReason: null, createdAt: new Date(), updatedAt: new Date() },
+    ];
+
+    const collectEvents = (gameId: string): GameEvent[] => {
+      const events: GameEvent[] = [];
+      gameService.subscribeToGame(gameId, event => events.push(event));
+      return events;
+    };
+
+    it('should publish player_joined when a player joins', async () => {
+      const game = buildGame({ players: [players[0]] });
+      mockPlayerModel.getPlayerById.mockResolvedValue(players[0]);
+      mockGameModel.listGames.mockResolvedValue([]);
+      mockGameModel.joinGame.mockResolvedValue(game);
+      const events = collectEvents('game-1');
+
+      await gameService.joinGame('game-1', players[0]);
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ type: 'player_joined', gameId: 'game-1', playerId: 'player-1', game });
+    });
+
+    it('should publish move_made and game_completed for a winning move', async () => {
+      const move: Move = { id: 'move-1', gameId: 'game-1', playerId: 'player-1', row: 0, col: 0, timestamp: new Date() };
+      const game = buildGame({ status: 'completed', players, winnerId: 'player-1', moves: [move] });
+      mockGameModel.makeMove.mockResolvedValue({ game, move });
+      mockPlayerModel.recordGameResult.mockResolvedValue(players[0]);
+      const events = collectEvents('game-1');
+
+      await gameService.makeMove('game-1', 'player-1', 0, 0);
+
+      expect(events.map(event => event.type)).toEqual(['move_made', 'game_completed']);
+      expect(events[0].move).toEqual(move);
+    });
+
+    it('should publish game_deleted without a game payload', async () => {
+      mockGameModel.getGameById.mockResolvedValue(buildGame({ status: 'completed' }));
+      mockGameModel.deleteGame.mockResolvedValue();
+      const events = collectEvents('game-1');
+
+      await gameService.deleteGame('game-1');
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ type: 'game_deleted', gameId: 'game-1', game: null });
+    });
+
+    it('should publish takeback_accepted with the undone move', async () => {
+      const move: Move = { id: 'move-1', gameId: 'game-1', playerId: 'player-1', row: 0, col: 0, timestamp: new Date() };
+      const takeback = {
+        id: 'takeback-1',
+        moveId: 'move-1',
+        requestedBy: 'player-1',
+        requestedAt: new Date(),
+        status: 'accepted' as const,
+        respondedBy: 'player-2',
+        respondedAt: new Date(),
+      };
+      const game = buildGame({ status: 'active', players, currentPlayerId: 'player-1', takebacks: [takeback] });
+      mockGameModel.respondToTakeback.mockResolvedValue({ game, takeback, undoneMove: move });
+      const events = collectEvents('game-1');
+
+      await gameService.respondToTakeback('game-1', 'player-2', true);
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ type: 'takeback_accepted', playerId: 'player-2', takeback, move });
+    });
+
+    it('should settle stats and publish game_completed when a player resigns', async () => {
+      const game = buildGame({ status: 'completed', players, winnerId: 'player-2', endReason: 'resignation' });
+      mockGameModel.resign.mockResolvedValue(game);
+      mockPlayerModel.recordGameResult.mockResolvedValue(players[0]);
+      const events = collectEvents('game-1');
+
+      await gameService.resign('game-1', 'player-1');
+
+      expect(mockPlayerModel.recordGameResult).toHaveBeenCalledWith('player-1', 'loss', 0, undefined);
+      expect(mockPlayerModel.recordGameResult).toHaveBeenCalledWith('player-2', 'win', 0, undefined);
+      expect(events.map(event => event.type)).toEqual(['game_completed']);
+    });
+
+    it('should publish spectator_joined so other watchers see the new spectator', async () => {
+      const spectator = { playerId: 'player-3', joinedAt: new Date() };
+      const game = buildGame({ status: 'active', players, spectators: [spectator] });
+      mockPlayerModel.getPlayerById.mockResolvedValue({ ...players[0], id: 'player-3' });
+      mockGameModel.spectateGame.mockResolvedValue({ game, spectator });
+      const events = collectEvents('game-1');
+
+      await gameService.spectateGame('game-1', 'player-3');
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ type: 'spectator_joined', playerId: 'player-3', game });
+    });
+
+    it('should refuse spectators that are not registered players', async () => {
+      mockPlayerModel.getPlayerById.mockResolvedValue(null);
+
+      await expect(gameService.spectateGame('game-1', 'ghost')).rejects.toThrow('Player not found in database');
+      expect(mockGameModel.spectateGame).not.toHaveBeenCalled();
+    });
+
+    it('should stop delivering events after unsubscribing', async () => {
+      const listener = jest.fn();
+      const unsubscribe = gameService.subscribeToGame('game-1', listener);
+      unsubscribe();
+      mockGameModel.getGameById.mockResolvedValue(buildGame({ status: 'completed' }));
+      mockGameModel.deleteGame.mockResolvedValue();
+
+      await gameService.deleteGame('game-1');
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(eventBus.subscriberCount('game-1')).toBe(0);
+    });
+  });
+
+  describe('bots', () => {
+    const human: Player = { id: 'player-1', name: 'Player 1', email: 'p1@test.com', type: 'human', role: 'player', stats: {} as any, rating: {} as any, bannedAt: null, banReason: null, flaggedAt: null, flagReason: null, createdAt: new Date(), updatedAt: new Date() };
+    const bot: Player = { id: 'bot-1', name: 'Bot (hard)', email: 'bot-hard@bots.local', type: 'bot', role: 'player', botDifficulty: 'hard', stats: {} as any, rating: {} as any, bannedAt: null, banReason: null, flaggedAt: null, flagReason: null, createdAt: new Date(), updatedAt: new Date() };
+    let mockBotService: { chooseMove: jest.Mock };
+
+    beforeEach(() => {
+      mockBotService = { chooseMove: jest.fn().mockReturnValue({ row: 1, col: 1 }) };
+      (gameService as any).botService = mockBotService;
+      mockPlayerModel.getOrCreateBotPlayer = jest.fn().mockResolvedValue(bot);
+    });
+
+    it('should play the bot reply right after a human move', async () => {
+      const humanMove: Move = { id: 'move-1', gameId: 'game-1', playerId: 'player-1', row: 0, col: 0, timestamp: new Date() };
+      const botMove: Move = { id: 'move-2', gameId: 'game-1', playerId: 'bot-1', row: 1, col: 1, timestamp: new Date() };
+      const afterHuman = buildGame({ status: 'active', players: [human, bot], currentPlayerId: 'bot-1', moves: [humanMove] });
+      const afterBot = buildGame({ status: 'active', players: [human, bot], currentPlayerId: 'player-1', moves: [humanMove, botMove] });
+      mockGameModel.makeMove
+        .mockResolvedValueOnce({ game: afterHuman, move: humanMove })
+        .mockResolvedValueOnce({ game: afterBot, move: botMove });
+
+      const result = await gameService.makeMove('game-1', 'player-1', 0, 0);
+
+      expect(mockBotService.chooseMove).toHaveBeenCalledWith(afterHuman, 'bot-1', 'hard');
+      expect(mockGameModel.makeMove).toHaveBeenLastCalledWith('game-1', 'bot-1', 1, 1, undefined, undefined);
+      expect(result).toEqual({ game: afterBot, move: humanMove, botMove });
+    });
+
+    it('should not move for the bot once the game is over', async () => {
+      const humanMove: Move = { id: 'move-1', gameId: 'game-1', playerId: 'player-1', row: 0, col: 0, timestamp: new Date() };
+      const finished = buildGame({ status: 'completed', players: [human, bot], currentPlayerId: 'bot-1', winnerId: 'player-1', moves: [humanMove] });
+      mockGameModel.makeMove.mockResolvedValue({ game: finished, move: humanMove });
+      mockPlayerModel.recordGameResult.mockResolvedValue(human);
+
+      const result = await gameService.makeMove('game-1', 'player-1', 0, 0);
+
+      expect(mockBotService.chooseMove).not.toHaveBeenCalled();
+      expect(result.botMove).toBeUndefined();
+    });
+
+    it('should seat a bot without the active-game check and let it open', async () => {
+      const started = buildGame({ status: 'active', players: [bot, human], currentPlayerId: 'bot-1' });
+      const botMove: Move = { id: 'move-1', gameId: 'game-1', playerId: 'bot-1', row: 1, col: 1, timestamp: new Date() };
+      const afterBot = buildGame({ status: 'active', players: [bot, human], currentPlayerId: 'player-1', moves: [botMove] });
+      mockGameModel.getGameById.mockResolvedValue(buildGame({ players: [human] }));
+      mockPlayerModel.getPlayerById.mockResolvedValue(bot);
+      mockGameModel.joinGame.mockResolvedValue(started);
+      mockGameModel.makeMove.mockResolvedValue({ game: afterBot, move: botMove });
+
+      const result = await gameService.addBot('game-1', 'hard', 'player-1');
+
+      expect(mockPlayerModel.getOrCreateBotPlayer).toHaveBeenCalledWith('hard');
+      expect(mockGameModel.listGames).not.toHaveBeenCalled();
+      expect(result).toEqual(afterBot);
+    });
+
+    it('should reject an unknown difficulty', async () => {
+      await expect(gameService.addBot('game-1', 'impossible' as any, 'player-1')).rejects.toThrow('Bot difficulty must be one of: easy, medium, hard');
+    });
+
+    it('should only add a bot for a player seated in the game', async () => {
+      mockGameModel.getGameById.mockResolvedValue(buildGame({ players: [human] }));
+
+      await expect(gameService.addBot('game-1', 'hard', 'player-2')).rejects.toBeInstanceOf(PlayerNotInGameError);
+      expect(mockGameModel.joinGame).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('clocks', () => {
+    const players: Player[] = [
+      { id: 'player-1', name: 'Player 1', email: 'p1@test.com', type: 'human', role: 'player', stats: {} as any, rating: {} as any, bannedAt: null, banReason: null, flaggedAt: null, flagReason: null, createdAt: new Date(), updatedAt: new Date() },
+      { id: 'player-2', name: 'Player 2', email: 'p2@test.com', type: 'human', role: 'player', stats: {} as any, rating: {} as any, bannedAt: null, banReason: null, flaggedAt: null, flagReason: null, createdAt: new Date(), updatedAt: new Date() },
+    ];
+    const timeControl = { moveTimeLimitMs: 30000, initialTimeMs: null, incrementMs: 0 };
+
+    it('should schedule a forfeit for the next player after a move', async () => {
+      const move: Move = { id: 'move-1', gameId: 'game-1', playerId: 'player-1', row: 0, col: 0, timestamp: new Date() };
+      const game = buildGame({ status: 'active', players, currentPlayerId: 'player-2', timeControl, turnStartedAt: new Date() });
+      mockGameModel.makeMove.mockResolvedValue({ game, move });
+
+      await gameService.makeMove('game-1', 'player-1', 0, 0);
+
+      expect(clockScheduler.isScheduled('game-1')).toBe(true);
+    });
+
+    it('should clear the clock once the game is over', async () => {
+      const move: Move = { id: 'move-1', gameId: 'game-1', playerId: 'player-1', row: 0, col: 0, timestamp: new Date() };
+      const game = buildGame({ status: 'completed', players, winnerId: 'player-1', timeControl, moves: [move] });
+      mockGameModel.makeMove.mockResolvedValue({ game, move });
+      mockPlayerModel.recordGameResult.mockResolvedValue(players[0]);
+      clockScheduler.schedule('game-1', new Date(Date.now() + 60000), jest.fn());
+
+      await gameService.makeMove('game-1', 'player-1', 0, 0);
+
+      expect(clockScheduler.isScheduled('game-1')).toBe(false);
+    });
+
+    it('should record the result and notify subscribers when a player times out', async () => {
+      const game = buildGame({ status: 'completed', players, currentPlayerId: 'player-2', winnerId: 'player-1', timeControl, endReason: 'timeout' });
+      mockGameModel.claimTimeout.mockResolvedValue(game);
+      mockPlayerModel.recordGameResult.mockResolvedValue(players[0]);
+      const events: GameEvent[] = [];
+      gameService.subscribeToGame('game-1', event => events.push(event));
+
+      const result = await gameService.handleTimeout('game-1');
+
+      expect(result).toBe(game);
+      expect(mockPlayerModel.recordGameResult).toHaveBeenCalledWith('player-1', 'win', 0, undefined);
+      expect(mockPlayerModel.recordGameResult).toHaveBeenCalledWith('player-2', 'loss', 0, undefined);
+      expect(events.map(event => event.type)).toEqual(['game_completed']);
+    });
+
+    it('should re-arm the clock when the player moved before the deadline', async () => {
+      const game = buildGame({ status: 'active', players, currentPlayerId: 'player-1', timeControl, turnStartedAt: new Date() });
+      mockGameModel.claimTimeout.mockResolvedValue(null);
+      mockGameModel.getGameById.mockResolvedValue(game);
+
+      const result = await gameService.handleTimeout('game-1');
+
+      expect(result).toBeNull();
+      expect(mockPlayerModel.recordGameResult).not.toHaveBeenCalled();
+      expect(clockScheduler.isScheduled('game-1')).toBe(true);
+    });
+  });
+
+  describe('ratings', () => {
+    const ratedPlayer = (id: string, rating: number): Player => ({
+      id,
+      name: id,
+      email: `${id}@test.com`,
+      type: 'human',
+      role: 'player',
+      stats: {} as any,
+      rating: { rating, deviation: 200, volatility: 0.06 },
+      bannedAt: null,
+      banReason: null,
+      flaggedAt: null,
+      flagReason: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    it('should re-rate both players from their pre-game ratings when a game ends', async () => {
+      const winner = ratedPlayer('player-1', 1500);
+      const loser = ratedPlayer('player-2', 1500);
+      const game = buildGame({ status: 'completed', players: [winner, loser], winnerId: 'player-1' });
+      mockGameModel.resign.mockResolvedValue(game);
+      mockPlayerModel.getPlayerById.mockImplementation(async id => (id === 'player-1' ? winner : loser));
+
+      await gameService.resign('game-1', 'player-2');
+
+      const [[winnerId, winnerChange], [loserId, loserChange]] = mockPlayerModel.recordRatingChange.mock.calls;
+      expect(winnerId).toBe('player-1');
+      expect(winnerChange).toMatchObject({ gameId: 'game-1', opponentId: 'player-2', result: 'win' });
+      expect(loserId).toBe('player-2');
+      expect(loserChange).toMatchObject({ gameId: 'game-1', opponentId: 'player-1', result: 'loss' });
+      // Evenly matched players move by the same amount in opposite directions
+      expect(winnerChange.rating.rating - 1500).toBeCloseTo(1500 - loserChange.rating.rating, 6);
+      expect(winnerChange.rating.rating).toBeGreaterThan(1500);
+    });
+  });
 });
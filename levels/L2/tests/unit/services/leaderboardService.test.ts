@@ -0,0 +1,123 @@
+import { LeaderboardService } from '../../../src/services/leaderboardService';
+import { GameService } from '../../../src/services/gameService';
+import { GameEventBus } from '../../../src/services/gameEvents';
+import { GameModel } from '../../../src/models/game';
+import { PlayerModel } from '../../../src/models/player';
+import { InMemoryGameRepository, InMemoryPlayerRepository } from '../../../src/repositories';
+import { TtlCache, leaderboardCache } from '../../../src/utils/cache';
+import { LeaderboardEntry, Player } from '../../../src/types';
+
+jest.spyOn(console, 'log').mockImplementation();
+
+describe('LeaderboardService', () => {
+  let leaderboardService: LeaderboardService;
+  let gameService: GameService;
+  let playerModel: PlayerModel;
+  let alice: Player;
+  let bob: Player;
+  let carol: Player;
+
+  // The first player takes the top row
+  const playWin = async (winner: Player, loser: Player) => {
+    const game = await gameService.createGame('Leaderboard Test');
+    await gameService.joinGame(game.id, winner);
+    await gameService.joinGame(game.id, loser);
+
+    const moves: Array<[Player, number, number]> = [
+      [winner, 0, 0], [loser, 1, 0], [winner, 0, 1], [loser, 1, 1], [winner, 0, 2],
+    ];
+    for (const [player, row, col] of moves) {
+      await gameService.makeMove(game.id, player.id, row, col);
+    }
+  };
+
+  const ids = (entries: LeaderboardEntry[]) => entries.map(entry => entry.playerId);
+
+  beforeEach(async () => {
+    const gameModel = new GameModel(new InMemoryGameRepository());
+    playerModel = new PlayerModel(new InMemoryPlayerRepository());
+
+    gameService = new GameService();
+    (gameService as any).gameModel = gameModel;
+    (gameService as any).playerModel = playerModel;
+    (gameService as any).eventBus = new GameEventBus();
+
+    leaderboardService = new LeaderboardService();
+    (leaderboardService as any).gameModel = gameModel;
+    (leaderboardService as any).playerModel = playerModel;
+    (leaderboardService as any).cache = new TtlCache<LeaderboardEntry[]>(60000);
+
+    alice = await playerModel.createPlayer('Alice', 'alice@test.com');
+    bob = await playerModel.createPlayer('Bob', 'bob@test.com');
+    carol = await playerModel.createPlayer('Carol', 'carol@test.com');
+  });
+
+  it('should rank by wins and page through the results', async () => {
+    await playWin(alice, bob);
+    await playWin(alice, carol);
+    await playWin(bob, carol);
+
+    const { entries, total } = await leaderboardService.getLeaderboard('wins');
+    const secondPage = await leaderboardService.getLeaderboard('wins', 'all', { limit: 1, offset: 1 });
+
+    expect(ids(entries)).toEqual([alice.id, bob.id, carol.id]);
+    expect(entries.map(entry => entry.rank)).toEqual([1, 2, 3]);
+    expect(total).toBe(3);
+    expect(secondPage.entries).toMatchObject([{ playerId: bob.id, rank: 2, wins: 1 }]);
+  });
+
+  it('should rank current win streaks, reset by a loss', async () => {
+    await playWin(bob, carol);
+    await playWin(alice, bob);
+    await playWin(alice, carol);
+
+    const { entries } = await leaderboardService.getLeaderboard('streak');
+
+    expect(entries).toMatchObject([{ playerId: alice.id, currentStreak: 2 }]);
+  });
+
+  it('should only count games inside the daily window', async () => {
+    jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00.000Z') });
+    try {
+      await playWin(bob, alice);
+      await playWin(bob, carol);
+
+      jest.setSystemTime(new Date('2024-01-03T00:00:00.000Z'));
+      await playWin(alice, carol);
+
+      const daily = await leaderboardService.getLeaderboard('wins', 'daily');
+      const allTime = await leaderboardService.getLeaderboard('wins', 'all');
+
+      expect(ids(daily.entries)).toEqual([alice.id, carol.id]);
+      expect(daily.entries[0]).toMatchObject({ gamesPlayed: 1, wins: 1, winRate: 100 });
+      expect(ids(allTime.entries)).toEqual([bob.id, alice.id, carol.id]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should serve cached rankings until a game result is recorded', async () => {
+    // PlayerModel clears the shared cache, so use that one here
+    (leaderboardService as any).cache = leaderboardCache;
+    leaderboardCache.clear();
+    await playWin(alice, bob);
+    await leaderboardService.getLeaderboard('wins');
+
+    const getAllPlayers = jest.spyOn(playerModel, 'getAllPlayers');
+    await leaderboardService.getLeaderboard('wins');
+    expect(getAllPlayers).not.toHaveBeenCalled();
+
+    await playWin(bob, carol);
+    await playWin(bob, alice);
+    const { entries } = await leaderboardService.getLeaderboard('wins');
+
+    expect(getAllPlayers).toHaveBeenCalledTimes(1);
+    expect(entries[0]).toMatchObject({ playerId: bob.id, wins: 2 });
+  });
+
+  it('should only offer the rating leaderboard for all time', async () => {
+    await expect(leaderboardService.getLeaderboard('rating', 'weekly')).rejects.toThrow(
+      'The rating leaderboard is only available for all time'
+    );
+  });
+});
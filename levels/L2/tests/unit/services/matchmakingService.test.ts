@@ -0,0 +1,136 @@
+import { MatchmakingService } from '../../../src/services/matchmakingService';
+import { GameService } from '../../../src/services/gameService';
+import { GameEventBus } from '../../../src/services/gameEvents';
+import { GameModel } from '../../../src/models/game';
+import { PlayerModel } from '../../../src/models/player';
+import { InMemoryGameRepository, InMemoryPlayerRepository } from '../../../src/repositories';
+import { Player } from '../../../src/types';
+import { PlayerBusyError } from '../../../src/errors';
+
+jest.spyOn(console, 'log').mockImplementation();
+
+describe('MatchmakingService', () => {
+  let matchmakingService: MatchmakingService;
+  let gameService: GameService;
+  let gameModel: GameModel;
+  let playerModel: PlayerModel;
+
+  const createPlayer = async (name: string, rating = 1500): Promise<Player> => {
+    const player = await playerModel.createPlayer(name, `${name.toLowerCase()}@test.com`);
+    player.rating.rating = rating;
+    return player;
+  };
+
+  beforeEach(() => {
+    gameModel = new GameModel(new InMemoryGameRepository());
+    playerModel = new PlayerModel(new InMemoryPlayerRepository());
+
+    gameService = new GameService();
+    (gameService as any).gameModel = gameModel;
+    (gameService as any).playerModel = playerModel;
+    (gameService as any).eventBus = new GameEventBus();
+
+    matchmakingService = new MatchmakingService(gameService);
+    (matchmakingService as any).gameModel = gameModel;
+    (matchmakingService as any).playerModel = playerModel;
+  });
+
+  it('should queue the first player and pair the second into an active game', async () => {
+    const alice = await createPlayer('Alice');
+    const bob = await createPlayer('Bob');
+
+    const first = await matchmakingService.enqueue(alice.id);
+    expect(first.game).toBeNull();
+    expect(first.ticket.status).toBe('queued');
+
+    const second = await matchmakingService.enqueue(bob.id);
+
+    expect(second.game?.status).toBe('active');
+    expect(second.game?.players.map(p => p.id)).toEqual([alice.id, bob.id]);
+    expect(second.game?.currentPlayerId).toBe(alice.id);
+    expect((await matchmakingService.getStatus(alice.id)).gameId).toBe(second.game?.id);
+    expect(matchmakingService.getQueueSize()).toBe(0);
+  });
+
+  it('should only pair players asking for the same board', async () => {
+    const alice = await createPlayer('Alice');
+    const bob = await createPlayer('Bob');
+
+    await matchmakingService.enqueue(alice.id, { rows: 15, cols: 15, winLength: 5 });
+    const result = await matchmakingService.enqueue(bob.id);
+
+    expect(result.game).toBeNull();
+    expect(matchmakingService.getQueueSize()).toBe(2);
+  });
+
+  it('should prefer the opponent with the closest rating', async () => {
+    const strong = await createPlayer('Strong', 1800);
+    const average = await createPlayer('Average', 1500);
+    const newcomer = await createPlayer('Newcomer', 1520);
+
+    await matchmakingService.enqueue(strong.id);
+    await matchmakingService.enqueue(average.id);
+
+    const result = await matchmakingService.enqueue(newcomer.id);
+
+    expect(result.game?.players.map(p => p.id)).toEqual([average.id, newcomer.id]);
+    expect((await matchmakingService.getStatus(strong.id)).status).toBe('queued');
+  });
+
+  it('should pair everyone exactly once when many players queue at the same time', async () => {
+    const players = await Promise.all(['A', 'B', 'C', 'D', 'E', 'F'].map(name => createPlayer(name)));
+
+    const results = await Promise.all(players.map(player => matchmakingService.enqueue(player.id)));
+
+    const games = results.map(result => result.game).filter(game => game !== null);
+    const seated = games.flatMap(game => game!.players.map(p => p.id));
+    expect(games).toHaveLength(3);
+    expect(new Set(seated).size).toBe(6);
+  });
+
+  it('should reject duplicate entries and allow cancelling', async () => {
+    const alice = await createPlayer('Alice');
+    await matchmakingService.enqueue(alice.id);
+
+    await expect(matchmakingService.enqueue(alice.id)).rejects.toThrow('Player is already in the matchmaking queue');
+
+    const ticket = await matchmakingService.cancel(alice.id);
+
+    expect(ticket.status).toBe('cancelled');
+    expect(matchmakingService.getQueueSize()).toBe(0);
+    await expect(matchmakingService.cancel(alice.id)).rejects.toThrow('Player is not in the matchmaking queue');
+  });
+
+  it('should drop opponents banned while waiting instead of failing the next player', async () => {
+    const alice = await createPlayer('Alice');
+    const bob = await createPlayer('Bob');
+    const carol = await createPlayer('Carol');
+    await matchmakingService.enqueue(alice.id);
+    await matchmakingService.enqueue(bob.id, { rows: 4, cols: 4 });
+    await playerModel.banPlayer(alice.id, 'Harassment');
+
+    const result = await matchmakingService.enqueue(carol.id);
+
+    expect(result).toMatchObject({ game: null, ticket: { status: 'queued' } });
+    expect((await matchmakingService.getStatus(alice.id)).status).toBe('cancelled');
+    expect(await matchmakingService.removePlayer(bob.id)).toMatchObject({ status: 'cancelled' });
+    expect(await matchmakingService.removePlayer(bob.id)).toBeNull();
+    expect(matchmakingService.getQueueSize()).toBe(1);
+  });
+
+  it('should drop an opponent who cannot be seated and keep looking', async () => {
+    const alice = await createPlayer('Alice');
+    const bob = await createPlayer('Bob');
+    const carol = await createPlayer('Carol');
+    await matchmakingService.enqueue(alice.id);
+    jest.spyOn(gameService, 'joinGame').mockRejectedValueOnce(new PlayerBusyError());
+
+    const second = await matchmakingService.enqueue(bob.id);
+    const third = await matchmakingService.enqueue(carol.id);
+
+    expect(second.game).toBeNull();
+    expect((await matchmakingService.getStatus(alice.id)).status).toBe('cancelled');
+    expect(third.game?.players.map(p => p.id)).toEqual([bob.id, carol.id]);
+    expect(await gameModel.listGames('waiting')).toEqual([]);
+  });
+});
@@ -0,0 +1,162 @@
+import { SeriesService } from '../../../src/services/seriesService';
+import { GameService } from '../../../src/services/gameService';
+import { GameEventBus } from '../../../src/services/gameEvents';
+import { GameModel } from '../../../src/models/game';
+import { PlayerModel } from '../../../src/models/player';
+import { SeriesModel } from '../../../src/models/series';
+import { InMemoryGameRepository, InMemoryPlayerRepository, InMemorySeriesRepository } from '../../../src/repositories';
+import { Game, Player, Series } from '../../../src/types';
+
+jest.spyOn(console, 'log').mockImplementation();
+
+describe('SeriesService', () => {
+  let seriesService: SeriesService;
+  let gameService: GameService;
+  let gameModel: GameModel;
+  let playerModel: PlayerModel;
+  let alice: Player;
+  let bob: Player;
+
+  // The player on move completes the top row while the other fills the middle one
+  const winCurrentGame = async (game: Game): Promise<void> => {
+    const winner = game.currentPlayerId!;
+    const loser = game.players.find(p => p.id !== winner)!.id;
+    for (const [playerId, row, col] of [[winner, 0, 0], [loser, 1, 0], [winner, 0, 1], [loser, 1, 1], [winner, 0, 2]] as const) {
+      await gameService.makeMove(game.id, playerId, row, col);
+    }
+  };
+
+  beforeEach(async () => {
+    gameModel = new GameModel(new InMemoryGameRepository());
+    playerModel = new PlayerModel(new InMemoryPlayerRepository());
+    const seriesModel = new SeriesModel(new InMemorySeriesRepository());
+
+    gameService = new GameService();
+    (gameService as any).gameModel = gameModel;
+    (gameService as any).playerModel = playerModel;
+    (gameService as any).seriesModel = seriesModel;
+    (gameService as any).eventBus = new GameEventBus();
+
+    seriesService = new SeriesService(gameService);
+    (seriesService as any).gameModel = gameModel;
+    (seriesService as any).playerModel = playerModel;
+    (seriesService as any).seriesModel = seriesModel;
+
+    alice = await playerModel.createPlayer('Alice', 'alice@test.com');
+    bob = await playerModel.createPlayer('Bob', 'bob@test.com');
+  });
+
+  // Alice challenges Bob, who accepts
+  const startSeries = async (bestOf: number, options = {}): Promise<{ series: Series; game: Game }> => {
+    const challenge = await seriesService.createSeries(alice.id, bob.id, bestOf, options);
+    const { series, currentGame } = await seriesService.respondToChallenge(challenge.id, bob.id, true);
+    return { series, game: currentGame! };
+  };
+
+  it('should wait for the opponent before starting anything', async () => {
+    const series = await seriesService.createSeries(alice.id, bob.id, 3);
+
+    expect(series).toMatchObject({ status: 'pending', gameIds: [] });
+    expect(await seriesService.getSeries(series.id)).toEqual({ series, currentGame: null });
+    expect(await gameModel.listGames()).toEqual([]);
+  });
+
+  it('should start the first game once accepted, opened by the challenger', async () => {
+    const { series, game } = await startSeries(3, { rows: 4, cols: 4 });
+
+    expect(series).toMatchObject({ bestOf: 3, winsNeeded: 2, status: 'active', gameIds: [game.id] });
+    expect(series.scores).toEqual({ [alice.id]: 0, [bob.id]: 0 });
+    expect(game).toMatchObject({ status: 'active', rows: 4, cols: 4, seriesId: series.id, currentPlayerId: alice.id });
+  });
+
+  it('should only let the challenged player answer, once', async () => {
+    const series = await seriesService.createSeries(alice.id, bob.id, 3);
+
+    await expect(seriesService.respondToChallenge(series.id, alice.id, true)).rejects.toMatchObject({ code: 'NOT_CHALLENGED_PLAYER' });
+
+    const declined = await seriesService.respondToChallenge(series.id, bob.id, false);
+    expect(declined).toEqual({ series: expect.objectContaining({ status: 'declined', gameIds: [] }), currentGame: null });
+    await expect(seriesService.respondToChallenge(series.id, bob.id, true)).rejects.toMatchObject({ code: 'SERIES_NOT_PENDING' });
+    expect(await gameModel.listGames()).toEqual([]);
+  });
+
+  it('should play games with alternating openers until a player has enough wins', async () => {
+    const { series, game } = await startSeries(3);
+
+    await winCurrentGame(game);
+    const afterFirst = await seriesService.getSeries(series.id);
+    expect(afterFirst.series.scores).toEqual({ [alice.id]: 1, [bob.id]: 0 });
+    expect(afterFirst.currentGame).toMatchObject({ status: 'active', currentPlayerId: bob.id });
+
+    await gameService.forceEndGame(afterFirst.currentGame!.id, null);
+    const afterDraw = await seriesService.getSeries(series.id);
+    expect(afterDraw.series).toMatchObject({ draws: 1, status: 'active' });
+    expect(afterDraw.currentGame!.currentPlayerId).toBe(alice.id);
+
+    await gameService.resign(afterDraw.currentGame!.id, bob.id);
+    const result = await seriesService.getSeries(series.id);
+
+    expect(result.series).toMatchObject({ status: 'completed', winnerId: alice.id, draws: 1 });
+    expect(result.series.gameIds).toHaveLength(3);
+    expect(result.currentGame).toBeNull();
+    expect((await playerModel.getPlayerById(alice.id))!.stats).toMatchObject({ seriesPlayed: 1, seriesWon: 1, seriesLost: 0 });
+    expect((await playerModel.getPlayerById(bob.id))!.stats).toMatchObject({ seriesPlayed: 1, seriesWon: 0, seriesLost: 1 });
+    expect(await seriesService.getSeriesForPlayer(bob.id)).toEqual([result.series]);
+  });
+
+  it('should replay a game voided while in play', async () => {
+    const { series, game } = await startSeries(1);
+
+    await gameService.voidGame(game.id);
+    const { series: afterVoid, currentGame } = await seriesService.getSeries(series.id);
+
+    expect(afterVoid.gameIds).toEqual([game.id, currentGame!.id]);
+    expect(afterVoid.scores).toEqual({ [alice.id]: 0, [bob.id]: 0 });
+    expect(currentGame!.status).toBe('active');
+  });
+
+  it('should take a voided finished game off the score and reopen a series it had decided', async () => {
+    const { series, game } = await startSeries(3);
+
+    await winCurrentGame(game);
+    await gameService.voidGame(game.id);
+    const afterFirst = await seriesService.getSeries(series.id);
+    expect(afterFirst.series).toMatchObject({ status: 'active', scores: { [alice.id]: 0, [bob.id]: 0 } });
+
+    await gameService.resign(afterFirst.currentGame!.id, alice.id);
+    const second = await seriesService.getSeries(series.id);
+    await gameService.resign(second.currentGame!.id, alice.id);
+    const decided = await seriesService.getSeries(series.id);
+    expect(decided.series).toMatchObject({ status: 'completed', winnerId: bob.id });
+
+    const decidingGameId = decided.series.gameIds[decided.series.gameIds.length - 1];
+    await gameService.voidGame(decidingGameId);
+    const reopened = await seriesService.getSeries(series.id);
+
+    expect(reopened.series).toMatchObject({ status: 'active', winnerId: null, scores: { [alice.id]: 0, [bob.id]: 1 } });
+    expect(reopened.series.gameIds).toHaveLength(4);
+    expect(reopened.currentGame).toMatchObject({ status: 'active', seriesId: series.id });
+    expect((await playerModel.getPlayerById(alice.id))!.stats).toMatchObject({ seriesPlayed: 0, seriesWon: 0, seriesLost: 0 });
+    expect((await playerModel.getPlayerById(bob.id))!.stats).toMatchObject({ seriesPlayed: 0, seriesWon: 0, seriesLost: 0 });
+  });
+
+  it('should refuse an invalid series', async () => {
+    const bot = await playerModel.getOrCreateBotPlayer('easy');
+    await expect(seriesService.createSeries(alice.id, bob.id, 4)).rejects.toMatchObject({ code: 'INVALID_BEST_OF' });
+    await expect(seriesService.createSeries(alice.id, bot.id, 3)).rejects.toMatchObject({ code: 'BOT_NOT_ALLOWED' });
+
+    expect(await seriesService.getSeriesForPlayer(alice.id)).toEqual([]);
+  });
+
+  it('should keep the challenge open and leave nothing behind when the first game cannot start', async () => {
+    const carol = await playerModel.createPlayer('Carol', 'carol@test.com');
+    const other = await seriesService.createSeries(bob.id, carol.id, 3);
+    await seriesService.respondToChallenge(other.id, carol.id, true);
+
+    const series = await seriesService.createSeries(alice.id, bob.id, 3);
+    await expect(seriesService.respondToChallenge(series.id, bob.id, true)).rejects.toMatchObject({ code: 'PLAYER_BUSY' });
+
+    expect((await seriesService.getSeries(series.id)).series).toMatchObject({ status: 'pending', gameIds: [] });
+    expect(await gameModel.listGames('waiting')).toEqual([]);
+  });
+});
@@ -0,0 +1,39 @@
+import { KeyedLock } from '../../../src/utils/keyedLock';
+
+describe('KeyedLock', () => {
+  const tick = () => new Promise(resolve => setImmediate(resolve));
+
+  it('should run work for the same key one call at a time', async () => {
+    const lock = new KeyedLock();
+    const log: string[] = [];
+
+    const task = (name: string) => lock.run('player-1', async () => {
+      log.push(`${name} start`);
+      await tick();
+      log.push(`${name} end`);
+    });
+
+    await Promise.all([task('a'), task('b')]);
+
+    expect(log).toEqual(['a start', 'a end', 'b start', 'b end']);
+  });
+
+  it('should not hold up other keys, or later calls after a failure', async () => {
+    const lock = new KeyedLock();
+    const log: string[] = [];
+
+    const failing = lock.run('player-1', async () => {
+      await tick();
+      throw new Error('boom');
+    });
+    const other = lock.run('player-2', async () => {
+      log.push('player-2');
+    });
+    const next = lock.run('player-1', async () => 'after');
+
+    await expect(failing).rejects.toThrow('boom');
+    await other;
+    expect(log).toEqual(['player-2']);
+    await expect(next).resolves.toBe('after');
+  });
+});
@@ -0,0 +1,39 @@
+import { toPublicPlayer, viewPlayerAs } from '../../../src/utils/player';
+import { Player } from '../../../src/types';
+
+describe('player views', () => {
+  const createPlayer = (id: string, role: Player['role'] = 'player'): Player => ({
+    id,
+    name: `Player ${id}`,
+    email: `${id}@test.com`,
+    type: 'human',
+    role,
+    stats: {} as any,
+    rating: {} as any,
+    bannedAt: null,
+    banReason: null,
+    flaggedAt: new Date(),
+    flagReason: 'Stalling',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  const alice = createPlayer('alice');
+
+  it('should leave out the email and moderation details for everyone else', () => {
+    const publicViews = [toPublicPlayer(alice), viewPlayerAs(undefined, alice), viewPlayerAs(createPlayer('bob'), alice)];
+
+    for (const view of publicViews) {
+      expect(Object.keys(view).sort()).toEqual(['createdAt', 'id', 'name', 'rating', 'role', 'stats', 'type', 'updatedAt']);
+    }
+  });
+
+  it('should show the email, but no moderation details, to the player themselves and to admins', () => {
+    for (const viewer of [alice, createPlayer('admin', 'admin')]) {
+      const view = viewPlayerAs(viewer, alice);
+
+      expect(view).toMatchObject({ id: 'alice', email: 'alice@test.com' });
+      expect(view).not.toHaveProperty('flagReason');
+    }
+  });
+});
@@ -0,0 +1,35 @@
+import { calculateRating, createInitialRating } from '../../../src/utils/rating';
+
+describe('calculateRating', () => {
+  it('should match the worked example from the Glicko-2 paper', () => {
+    const player = { rating: 1500, deviation: 200, volatility: 0.06 };
+
+    const result = calculateRating(player, [
+      { opponent: { rating: 1400, deviation: 30, volatility: 0.06 }, score: 1 },
+      { opponent: { rating: 1550, deviation: 100, volatility: 0.06 }, score: 0 },
+      { opponent: { rating: 1700, deviation: 300, volatility: 0.06 }, score: 0 },
+    ]);
+
+    expect(result.rating).toBeCloseTo(1464.06, 1);
+    expect(result.deviation).toBeCloseTo(151.52, 1);
+    expect(result.volatility).toBeCloseTo(0.05999, 4);
+  });
+
+  it('should move a new player further than an established one for the same result', () => {
+    const established = { rating: 1500, deviation: 50, volatility: 0.06 };
+    const opponent = createInitialRating();
+
+    const newcomerResult = calculateRating(createInitialRating(), [{ opponent, score: 1 }]);
+    const establishedResult = calculateRating(established, [{ opponent, score: 1 }]);
+
+    expect(newcomerResult.rating - 1500).toBeGreaterThan(establishedResult.rating - 1500);
+    expect(newcomerResult.deviation).toBeLessThan(350);
+  });
+
+  it('should only widen the deviation when no games were played', () => {
+    const result = calculateRating({ rating: 1600, deviation: 100, volatility: 0.06 }, []);
+
+    expect(result.rating).toBe(1600);
+    expect(result.deviation).toBeGreaterThan(100);
+  });
+});